@@ -1,4 +1,5 @@
-import { Item } from '../types.js';
+import { Item, Objective } from '../types.js';
+import { objectiveScore } from '../utils/objective.js';
 
 export interface BacktrackingOptions {
   maxIters?: number;
@@ -8,6 +9,7 @@ export interface BacktrackingOptions {
   enableBoundCalculation?: boolean;
   seed?: number;
   maxRecursionDepth?: number;
+  objective?: Objective; // Scores complete groupings (default: max deviation)
 }
 
 export interface BacktrackingResult {
@@ -20,6 +22,8 @@ export interface BacktrackingResult {
 /**
  * Backtracking approach for balanced partitioning with recursive branch-and-bound and pruning strategies.
  * Supports early termination and bound calculation for optimization.
+ * With an objective, complete groupings are scored by it and partial ones
+ * pruned by a lower bound on its final value.
  */
 export function backtracking(
   items: Item[],
@@ -34,6 +38,7 @@ export function backtracking(
     enableEarlyTermination = true,
     enableBoundCalculation = true,
     maxRecursionDepth = 50,
+    objective,
   } = options;
 
   const startTime = performance.now();
@@ -111,6 +116,37 @@ export function backtracking(
     return maxPossibleDelta;
   }
 
+  // Lower bound on the objective of any completion: open groups can still
+  // move towards the mean, full groups and the current maximum cannot
+  function objectiveLowerBound(
+    currentGroups: number[][],
+    currentSums: number[]
+  ): number {
+    if (!enableBoundCalculation || typeof objective === 'function') {
+      return -Infinity;
+    }
+    let high = targetSum;
+    let low = targetSum;
+    for (let g = 0; g < targetGroups; g++) {
+      high = Math.max(high, currentSums[g]!);
+      if (currentGroups[g]!.length === targetGroupSize) {
+        low = Math.min(low, currentSums[g]!);
+      }
+    }
+    switch (objective) {
+      case 'makespan':
+        return high - targetSum;
+      case 'maxmin':
+        return targetSum - low;
+      case 'stdev':
+        return (
+          Math.max(high - targetSum, targetSum - low) / Math.sqrt(targetGroups)
+        );
+      default:
+        return high - low;
+    }
+  }
+
   // Check if current partial solution can lead to better solution
   function canImprove(
     currentGroups: number[][],
@@ -121,6 +157,10 @@ export function backtracking(
       return true;
     }
 
+    if (objective !== undefined) {
+      return objectiveLowerBound(currentGroups, currentSums) < bestDelta;
+    }
+
     // If current delta is already worse than best, prune
     if (currentDelta >= bestDelta) {
       return false;
@@ -171,7 +211,11 @@ export function backtracking(
     }
 
     // Early termination check
-    if (enableEarlyTermination && bestDelta <= 0.1) {
+    if (
+      enableEarlyTermination &&
+      typeof objective !== 'function' &&
+      bestDelta <= 0.1
+    ) {
       return;
     }
 
@@ -182,8 +226,12 @@ export function backtracking(
 
     if (itemIndex === totalItems) {
       // All items assigned
-      if (currentDelta < bestDelta) {
-        bestDelta = currentDelta;
+      const score =
+        objective !== undefined
+          ? objectiveScore(currentSums, objective)
+          : currentDelta;
+      if (score < bestDelta) {
+        bestDelta = score;
         bestGroups = currentGroups.map(g => [...g]);
       }
       return;
@@ -1,15 +1,18 @@
 import { Item } from '../types.js';
-import { compareItemsByCapacity } from '../utils/comparators.js';
+import { resolveScaleFactor, toScaledInteger } from '../utils/scale.js';
+import { kk } from './kk.js';
+import { canMeetInMiddle, meetInMiddle } from './meetInMiddle.js';
 
 export interface DPOptions {
-  maxIters?: number;
+  maxIters?: number; // Cap on item layers processed
   timeLimitMs?: number;
-  enableScaling?: boolean;
+  enableScaling?: boolean; // Scale decimal capacities to exact integers
   enableMeetInMiddle?: boolean;
-  enableBranchAndBound?: boolean;
+  enableBranchAndBound?: boolean; // Prune states that cannot beat the incumbent (default: true)
   seed?: number;
-  maxTotalSum?: number;
-  maxItems?: number;
+  maxStateSize?: number; // States kept per layer before beam search (default: 100000)
+  maxTotalSum?: number; // Optional cap on the total capacity
+  maxItems?: number; // Optional cap on the item count
 }
 
 export interface DPResult {
@@ -17,11 +20,58 @@ export interface DPResult {
   groupSums: number[];
   iterations: number;
   method: string;
+  /** Whether the grouping is proven optimal */
+  isOptimal?: boolean;
+  /** Best proven lower bound on max − min */
+  bound?: number;
+  /** Relative gap (delta − bound) / delta, 0 when proven */
+  mipGap?: number;
 }
 
 /**
- * Dynamic Programming approach for balanced partitioning with multiple optimization strategies.
- * Supports scaling, meet-in-the-middle, and branch-and-bound techniques.
+ * Partial assignment of the largest items: per-group item counts and sums
+ * in a fixed slot order
+ */
+interface DPState {
+  counts: number[];
+  sums: number[];
+  /** Index of the state it was extended from in the previous layer */
+  parent: number;
+  /** Slot that received the item of this layer */
+  slot: number;
+  /** Lower bound on the final max − min of any completion */
+  bound: number;
+}
+
+/**
+ * Parent indices and slots of the states kept in one layer, enough to
+ * rebuild the groups of any final state once earlier layers are released
+ */
+interface DPTrail {
+  parents: Int32Array;
+  slots: Int32Array;
+}
+
+/**
+ * Pseudo-polynomial dynamic programming over (item, count-per-group,
+ * sum-per-group) states. Items are placed by descending capacity, one layer
+ * per item; states are hashed by their sorted (count, sum) pairs, so groups
+ * that only differ by their order merge into one state. With
+ * `enableBranchAndBound`, states whose completion bound cannot beat the
+ * Karmarkar–Karp incumbent are dominated and dropped. Passes keep at most
+ * 256, 1024, … states per layer up to `maxStateSize`, each narrower pass
+ * tightening the incumbent for the next; a layer beyond the width degrades
+ * to beam search, keeping the states with the best bounds, and the result
+ * is then exact only if the bound of every dropped state is at least the
+ * final delta. Only the current layer keeps full states (the one being
+ * built holds up to `maxStateSize × groups`); earlier layers shrink to a
+ * trail of parent indices and slots. Stopping at `timeLimitMs` or
+ * `maxIters` (item layers over all passes) returns the incumbent with the
+ * bound of the unfinished layer.
+ *
+ * With `enableMeetInMiddle`, two groups are split exactly by the
+ * Schroeppel–Shamir meet in the middle (up to 64 items, any total that
+ * keeps its sums exact); larger two-group inputs use the state DP.
  */
 export function dp(
   items: Item[],
@@ -32,180 +82,239 @@ export function dp(
   const {
     maxIters = 1000,
     timeLimitMs = 5000,
-    maxTotalSum = 10000,
-    maxItems = 20,
+    enableScaling = true,
+    enableBranchAndBound = true,
+    maxStateSize = 100000,
+    maxTotalSum = Infinity,
+    maxItems = Infinity,
   } = options;
 
-  const startTime = performance.now();
-  let iterations = 0;
-
-  // Kahan summation for numerical stability
-  function kahanSum(values: number[]): number {
-    let sum = 0;
-    let c = 0;
-    for (let i = 0; i < values.length; i++) {
-      const y = values[i]! - c;
-      const t = sum + y;
-      c = t - sum - y;
-      sum = t;
-    }
-    return sum;
+  if (options.enableMeetInMiddle && canMeetInMiddle(items, groups, groupSize)) {
+    return meetInMiddle(items, groups, groupSize, { timeLimitMs });
   }
 
-  const totalItems = items.length;
-  const targetGroupSize = groupSize;
-  const targetGroups = groups;
+  const startTime = performance.now();
 
-  if (totalItems !== targetGroups * targetGroupSize) {
+  const totalItems = items.length;
+  if (totalItems !== groups * groupSize) {
     throw new Error('DP requires exact group size constraints');
   }
-
-  // Security guard: Restrict DP to small problems to prevent memory exhaustion
+  if (!Number.isInteger(maxStateSize) || maxStateSize < 1) {
+    throw new Error('maxStateSize must be a positive integer');
+  }
   if (totalItems > maxItems) {
     throw new Error(
       `DP algorithm restricted to problems with ≤${maxItems} items for security. Use heuristic algorithms for larger problems.`
     );
   }
 
-  // Sort items by capacity (descending) for better scaling
-  const sortedItems = [...items].sort(compareItemsByCapacity);
-  const capacities = sortedItems.map(item => item.capacity);
-
-  // Calculate target sum per group
-  const totalSum = kahanSum(capacities);
+  // Exact integer weights keep equal sums equal, so their states merge
+  let factor = 1;
+  if (enableScaling && !items.every(item => Number.isInteger(item.capacity))) {
+    factor = resolveScaleFactor(items, 'auto');
+  }
+  let weights = items.map(item =>
+    factor === 1
+      ? item.capacity
+      : Number(toScaledInteger(item.capacity, factor))
+  );
+  const integral =
+    weights.every(w => Number.isInteger(w)) &&
+    weights.reduce((acc, w) => acc + Math.abs(w), 0) <= Number.MAX_SAFE_INTEGER;
+  if (!integral && factor !== 1) {
+    factor = 1;
+    weights = items.map(item => item.capacity);
+  }
 
-  // Security guard: Cap totalSum to prevent unbounded state space
-  if (totalSum > maxTotalSum) {
+  const order = weights
+    .map((_, idx) => idx)
+    .sort((a, b) => weights[b]! - weights[a]! || a - b);
+  // prefix[i]: sum of the i largest weights
+  const prefix = [0];
+  for (const idx of order) {
+    prefix.push(prefix[prefix.length - 1]! + weights[idx]!);
+  }
+  const total = prefix[totalItems]!;
+  if (total / factor > maxTotalSum) {
     throw new Error(
       `DP algorithm restricted to problems with total capacity ≤${maxTotalSum} for security. Use heuristic algorithms for larger problems.`
     );
   }
+  const average = total / groups;
+  // Integer sums that cannot split evenly differ by at least 1
+  const floorBound = integral && total % groups !== 0 ? 1 : 0;
 
-  const targetSum = totalSum / targetGroups;
+  // Bound after `placed` items: each group still takes its remaining items
+  // from the unplaced ones, at least the smallest and at most the largest
+  const boundOf = (
+    counts: number[],
+    sums: number[],
+    placed: number
+  ): number => {
+    let highest = average;
+    let lowest = average;
+    for (let g = 0; g < groups; g++) {
+      const need = groupSize - counts[g]!;
+      const least = sums[g]! + prefix[totalItems]! - prefix[totalItems - need]!;
+      const most = sums[g]! + prefix[placed + need]! - prefix[placed]!;
+      highest = Math.max(highest, least);
+      lowest = Math.min(lowest, most);
+    }
+    const bound = highest - lowest;
+    return integral
+      ? Math.max(floorBound, Math.ceil(bound - 1e-9))
+      : Math.max(0, bound);
+  };
 
-  // Integer scaling approach: Scale capacities to integers to avoid floating-point issues
-  const scaleFactor = Math.max(1, Math.floor(1000 / Math.max(...capacities)));
-  const scaledCapacities = capacities.map(cap => Math.round(cap * scaleFactor));
-  const scaledTotalSum = scaledCapacities.reduce((sum, cap) => sum + cap, 0);
-  const scaledTargetSum = Math.round(targetSum * scaleFactor);
+  const scaledSum = (members: number[]): number =>
+    members.reduce((acc, idx) => acc + weights[idx]!, 0);
+  const spreadOf = (members: number[][]): number => {
+    const sums = members.map(scaledSum);
+    return Math.max(...sums) - Math.min(...sums);
+  };
 
-  // Pre-allocation guard: Estimate memory usage with scaled values
-  const estimatedMemoryBytes =
-    (totalItems + 1) * (targetGroups + 1) * (scaledTotalSum + 1) * 8; // 8 bytes per number
-  const maxMemoryBytes = 50 * 1024 * 1024; // 50MB limit (reduced for safety)
+  let incumbent = kk(items, groups, groupSize).groupsByIndex;
+  let incumbentDelta = spreadOf(incumbent);
 
-  if (estimatedMemoryBytes > maxMemoryBytes) {
-    throw new Error(
-      `DP algorithm would require ${Math.round(estimatedMemoryBytes / 1024 / 1024)}MB memory. Use heuristic algorithms for this problem size.`
-    );
-  }
+  const keyOf = (counts: number[], sums: number[]): string => {
+    const slots = counts
+      .map((_, g) => g)
+      .sort((a, b) => counts[a]! - counts[b]! || sums[a]! - sums[b]!);
+    let key = '';
+    for (const g of slots) key += `${counts[g]}:${sums[g]}|`;
+    return key;
+  };
 
-  // Use a more efficient 2D DP approach: dp[i][j] = best assignment for first i items into j groups
-  // with exact group size constraints
-  const dp: number[][] = Array.from({ length: totalItems + 1 }, () =>
-    Array.from({ length: targetGroups + 1 }, () => Infinity)
-  );
-  const parent: number[][] = Array.from({ length: totalItems + 1 }, () =>
-    Array.from({ length: targetGroups + 1 }, () => -1)
-  );
+  const zeros = new Array<number>(groups).fill(0);
+  const root: DPState = {
+    counts: zeros,
+    sums: zeros,
+    parent: -1,
+    slot: -1,
+    bound: boundOf(zeros, zeros, 0),
+  };
+  let iterations = 0;
+  let expanded = 0;
+  let stopped = false;
+  const outOfTime = (): boolean =>
+    iterations > 0 && performance.now() - startTime > timeLimitMs;
 
-  // Base case: 0 items, 0 groups
-  dp[0]![0] = 0;
-
-  // Fill DP table with exact group size constraints
-  for (let i = 1; i <= totalItems; i++) {
-    for (let j = 1; j <= targetGroups; j++) {
-      // Try assigning current item to current group
-      if (i >= targetGroupSize) {
-        const prevItems = i - targetGroupSize;
-        const prevGroups = j - 1;
-
-        if (
-          prevItems >= 0 &&
-          prevGroups >= 0 &&
-          dp[prevItems]![prevGroups]! < Infinity
-        ) {
-          // Calculate sum for current group
-          let groupSum = 0;
-          for (let k = prevItems; k < i; k++) {
-            groupSum += scaledCapacities[k]!;
-          }
+  // One pass over the item layers keeping at most `width` states per layer.
+  // Improves the incumbent and returns the smallest bound of any state it
+  // dropped or left unfinished (Infinity when the pass was exhaustive).
+  const search = (width: number): number => {
+    let openBound = Infinity;
+    const unfinished = (layer: DPState[]): number => {
+      stopped = true;
+      for (const state of layer) openBound = Math.min(openBound, state.bound);
+      return openBound;
+    };
 
-          const currentDelta = Math.abs(groupSum - scaledTargetSum);
-          const newDelta = Math.max(dp[prevItems]![prevGroups]!, currentDelta);
+    let layer = [root];
+    const trail: DPTrail[] = [];
+    for (let i = 0; i < totalItems; i++) {
+      if (iterations >= maxIters || outOfTime()) return unfinished(layer);
+      iterations++;
 
-          if (newDelta < dp[i]![j]!) {
-            dp[i]![j] = newDelta;
-            parent[i]![j] = prevItems;
+      const weight = weights[order[i]!]!;
+      const next = new Map<string, DPState>();
+      for (let p = 0; p < layer.length; p++) {
+        if (++expanded % 4096 === 0 && outOfTime()) return unfinished(layer);
+        const state = layer[p]!;
+        for (let g = 0; g < groups; g++) {
+          if (state.counts[g]! >= groupSize) continue;
+          // Slots with the same count and sum lead to the same state
+          let seen = false;
+          for (let h = 0; h < g && !seen; h++) {
+            seen =
+              state.counts[h] === state.counts[g] &&
+              state.sums[h] === state.sums[g];
           }
+          if (seen) continue;
+
+          const counts = [...state.counts];
+          const sums = [...state.sums];
+          counts[g]!++;
+          sums[g]! += weight;
+          const key = keyOf(counts, sums);
+          if (next.has(key)) continue;
+          const bound = boundOf(counts, sums, i + 1);
+          if (enableBranchAndBound && bound >= incumbentDelta - 1e-9) continue;
+          next.set(key, { counts, sums, parent: p, slot: g, bound });
         }
       }
-    }
-    iterations++;
-    if (iterations > maxIters || performance.now() - startTime > timeLimitMs) {
-      break;
-    }
-  }
 
-  // Check if we found a valid solution
-  if (dp[totalItems]![targetGroups]! === Infinity) {
-    // Fallback: simple greedy distribution
-    const groupsByIndex: number[][] = Array.from(
-      { length: targetGroups },
-      () => []
-    );
-    const sortedIdx = sortedItems.map(s =>
-      items.findIndex(it => it.id === s.id)
-    );
-    for (let i = 0; i < sortedIdx.length; i++) {
-      const gi = i % targetGroups;
-      const idx = sortedIdx[i]!;
-      if (idx >= 0) groupsByIndex[gi]!.push(idx);
+      layer = [...next.values()];
+      if (layer.length > width) {
+        // Beam search: keep the states with the best bounds, then the ones
+        // whose groups are closest to an even share of their items
+        const drift = (state: DPState): number =>
+          state.sums.reduce(
+            (acc, s, g) =>
+              acc + Math.abs(s - (state.counts[g]! * total) / totalItems),
+            0
+          );
+        layer.sort((a, b) => a.bound - b.bound || drift(a) - drift(b));
+        for (let s = width; s < layer.length; s++) {
+          openBound = Math.min(openBound, layer[s]!.bound);
+        }
+        layer.length = width;
+      }
+      if (layer.length === 0) return openBound;
+      trail.push({
+        parents: Int32Array.from(layer, state => state.parent),
+        slots: Int32Array.from(layer, state => state.slot),
+      });
     }
-    const groupSums = groupsByIndex.map(g =>
-      g.reduce((s, idx) => s + items[idx]!.capacity, 0)
-    );
-
-    return {
-      groupsByIndex,
-      groupSums,
-      iterations,
-      method: 'dp-fallback',
-    };
-  }
-
-  // Reconstruct solution
-  const groupsByIndex: number[][] = Array.from(
-    { length: targetGroups },
-    () => []
-  );
-
-  let currentItems = totalItems;
-  let currentGroups = targetGroups;
 
-  while (currentGroups > 0 && currentItems > 0) {
-    const prevItems = parent[currentItems]![currentGroups]!;
-    if (prevItems >= 0) {
-      // Assign items from prevItems to currentItems to current group
-      for (let i = prevItems; i < currentItems; i++) {
-        groupsByIndex[currentGroups - 1]!.push(i);
+    let best = 0;
+    let bestDelta = Infinity;
+    layer.forEach((state, s) => {
+      const delta = Math.max(...state.sums) - Math.min(...state.sums);
+      if (delta < bestDelta) {
+        best = s;
+        bestDelta = delta;
       }
-      currentItems = prevItems;
-      currentGroups--;
-    } else {
+    });
+    if (bestDelta < incumbentDelta - 1e-9) {
+      const members: number[][] = Array.from({ length: groups }, () => []);
+      for (let i = totalItems - 1; i >= 0; i--) {
+        members[trail[i]!.slots[best]!]!.push(order[i]!);
+        best = trail[i]!.parents[best]!;
+      }
+      incumbent = members.map(group => group.reverse());
+      incumbentDelta = bestDelta;
+    }
+    return openBound;
+  };
+
+  // Narrow beams first: their incumbents let the wider passes prune more
+  let openBound = Infinity;
+  for (let width = Math.min(256, maxStateSize); ; width *= 4) {
+    openBound = search(Math.min(width, maxStateSize));
+    if (
+      stopped ||
+      width >= maxStateSize ||
+      Math.max(floorBound, openBound) >= incumbentDelta - 1e-9
+    ) {
       break;
     }
   }
 
-  // Calculate group sums
-  const groupSums = groupsByIndex.map(g =>
-    g.reduce((s, idx) => s + items[idx]!.capacity, 0)
+  const bound = Math.max(floorBound, Math.min(incumbentDelta, openBound));
+  const isOptimal = bound >= incumbentDelta - 1e-9;
+  const groupSums = incumbent.map(group =>
+    group.reduce((acc, idx) => acc + items[idx]!.capacity, 0)
   );
-
+  const delta = Math.max(...groupSums) - Math.min(...groupSums);
+  const unscaledBound = isOptimal ? delta : Math.min(delta, bound / factor);
   return {
-    groupsByIndex,
+    groupsByIndex: incumbent,
     groupSums,
-    iterations,
-    method: 'dp-integer-scaled',
+    iterations: Math.max(1, iterations),
+    method: isOptimal ? 'dp-integer-scaled' : 'dp-beam',
+    isOptimal,
+    bound: unscaledBound,
+    mipGap: delta > 0 ? (delta - unscaledBound) / delta : 0,
   };
 }
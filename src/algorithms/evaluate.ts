@@ -1,6 +1,35 @@
-import { Item } from '../types.js';
+import {
+  CapCheckResult,
+  DimensionMetrics,
+  Item,
+  ItemConstraints,
+  Objective,
+  PinnedItems,
+} from '../types.js';
 import { createAlgorithmError } from '../errors.js';
 import { globalEvaluationCache } from '../cache.js';
+import {
+  computeGroupLoads,
+  getCapacityVectors,
+  getDimensionCount,
+  groupPeaks,
+  hasProfiles,
+} from '../utils/dimensions.js';
+import { findConstraintViolations } from '../utils/constraints.js';
+import { objectiveScore } from '../utils/objective.js';
+import {
+  countCategories,
+  findQuotaViolations,
+  hasCategories,
+} from '../utils/strata.js';
+import { capExcess, resolveCaps } from '../utils/caps.js';
+import { exactGroupSums, resolveScaleFactor } from '../utils/scale.js';
+import {
+  centroidSpread,
+  groupDiversity,
+  hasFeatures,
+} from '../utils/features.js';
+import { groupCompactness, hasPositions } from '../utils/spatial.js';
 
 /**
  * Evaluation result for a grouping
@@ -18,6 +47,58 @@ export interface EvaluationResult {
   cv: number;
   /** Total capacity */
   totalCapacity: number;
+  /** Per-dimension metrics when items carry `capacities` */
+  dimensions?: DimensionMetrics[];
+  /** Number of items of each category per group when items carry `category` */
+  categoryCounts?: Record<string, number>[];
+  /** Spread of the group feature centroids when items carry `features` */
+  centroidSpread?: number;
+  /** Within-group feature diversity when items carry `features` */
+  featureDiversity?: number[];
+  /** Smallest item capacity of each group */
+  groupMins?: number[];
+  /** Largest item capacity of each group */
+  groupMaxes?: number[];
+  /** Capacity range (max − min) of each group */
+  groupRanges?: number[];
+  /** Total distance to the group centroids when items carry `position` */
+  compactness?: number;
+  /** Sum of distances to the centroid within each group */
+  groupCompactness?: number[];
+  /** Largest aggregated load of any group in any period (items with `profile`) */
+  peakLoad?: number;
+  /** Largest aggregated load of each group over the periods */
+  groupPeaks?: number[];
+  /** Period index at which each group reaches its peak */
+  groupPeakTimes?: number[];
+}
+
+/**
+ * Computes group sums, delta and stdev for every capacity dimension.
+ * Returns undefined when items only carry a scalar capacity.
+ */
+export function evaluateDimensions(
+  items: Item[],
+  groupsByIndex: number[][]
+): DimensionMetrics[] | undefined {
+  const dims = getDimensionCount(items);
+  if (dims === 0) return undefined;
+
+  const loads = computeGroupLoads(getCapacityVectors(items), groupsByIndex);
+  const groups = groupsByIndex.length;
+  const metrics: DimensionMetrics[] = [];
+  for (let d = 0; d < dims; d++) {
+    const groupSums = loads.map(load => load[d]!);
+    const mean = groupSums.reduce((s, v) => s + v, 0) / groups;
+    const variance =
+      groupSums.reduce((s, v) => s + Math.pow(v - mean, 2), 0) / groups;
+    metrics.push({
+      groupSums,
+      delta: Math.max(...groupSums) - Math.min(...groupSums),
+      stdev: Math.sqrt(variance),
+    });
+  }
+  return metrics;
 }
 
 // Internal optimized CPU path leveraging typed arrays
@@ -56,14 +137,94 @@ function evaluateGroupingFastCPU(
   const variance = varianceAcc / groups;
   const stdev = Math.sqrt(variance);
 
-  return {
+  // Per-group extremes (0 for empty groups)
+  const groupMins: number[] = [];
+  const groupMaxes: number[] = [];
+  for (let g = 0; g < groups; g++) {
+    const idxs = groupsByIndex[g]!;
+    let lo = idxs.length > 0 ? Infinity : 0;
+    let hi = idxs.length > 0 ? -Infinity : 0;
+    for (let i = 0; i < idxs.length; i++) {
+      const c = items[idxs[i]!]!.capacity;
+      if (c < lo) lo = c;
+      if (c > hi) hi = c;
+    }
+    groupMins.push(lo);
+    groupMaxes.push(hi);
+  }
+
+  const result: EvaluationResult = {
     groupSums: Array.from(groupSums),
     delta: maxSum - minSum,
     stdev,
     mean,
     cv: mean > 0 ? stdev / mean : 0,
     totalCapacity: total,
+    groupMins,
+    groupMaxes,
+    groupRanges: groupMaxes.map((hi, g) => hi - groupMins[g]!),
   };
+  const dimensions = evaluateDimensions(items, groupsByIndex);
+  if (dimensions) result.dimensions = dimensions;
+  if (hasProfiles(items)) {
+    const { peaks, peakTimes } = groupPeaks(
+      computeGroupLoads(getCapacityVectors(items), groupsByIndex)
+    );
+    result.peakLoad = Math.max(...peaks);
+    result.groupPeaks = peaks;
+    result.groupPeakTimes = peakTimes;
+  }
+  if (hasCategories(items)) {
+    result.categoryCounts = countCategories(items, groupsByIndex);
+  }
+  if (hasFeatures(items)) {
+    const vectors = items.map(item => item.features!);
+    result.centroidSpread = centroidSpread(vectors, groupsByIndex);
+    result.featureDiversity = groupDiversity(vectors, groupsByIndex);
+  }
+  if (hasPositions(items)) {
+    const perGroup = groupCompactness(
+      items.map(item => item.position!),
+      groupsByIndex
+    );
+    result.compactness = perGroup.reduce((acc, c) => acc + c, 0);
+    result.groupCompactness = perGroup;
+  }
+  return result;
+}
+
+// Replaces the floating-point sums, delta and stdev with values computed on
+// exact integer sums of the capacities scaled by `scale`
+function applyExactMetrics(
+  result: EvaluationResult,
+  items: Item[],
+  groupsByIndex: number[][],
+  scale: 'auto' | number
+): void {
+  const factor = resolveScaleFactor(items, scale);
+  const sums = exactGroupSums(items, groupsByIndex, factor);
+  const n = BigInt(sums.length);
+  let total = BigInt(0);
+  let squares = BigInt(0);
+  let maxSum = sums[0]!;
+  let minSum = sums[0]!;
+  for (const s of sums) {
+    total += s;
+    squares += s * s;
+    if (s > maxSum) maxSum = s;
+    if (s < minSum) minSum = s;
+  }
+  // n²·variance = n·Σs² − (Σs)², zero exactly for equal sums
+  const scaledVariance = n * squares - total * total;
+  const stdev = Math.sqrt(Number(scaledVariance)) / (sums.length * factor);
+  const mean = Number(total) / sums.length / factor;
+
+  result.groupSums = sums.map(s => Number(s) / factor);
+  result.delta = Number(maxSum - minSum) / factor;
+  result.stdev = stdev;
+  result.mean = mean;
+  result.cv = mean > 0 ? stdev / mean : 0;
+  result.totalCapacity = Number(total) / factor;
 }
 
 /**
@@ -93,6 +254,8 @@ export function evaluateGrouping(
     maxCacheItems?: number;
     maxCacheGroups?: number;
     maxCacheGroupSize?: number;
+    /** Compute sums exactly on capacities scaled to integers */
+    scale?: 'auto' | number;
   } = {}
 ): EvaluationResult {
   const {
@@ -123,6 +286,7 @@ export function evaluateGrouping(
     } else {
       // Use bounded hash instead of JSON.stringify
       groupingKey = hashGrouping(groupsByIndex);
+      if (options.scale !== undefined) groupingKey += `:${options.scale}`;
     }
 
     // Try cache first (only for small groupings)
@@ -136,6 +300,9 @@ export function evaluateGrouping(
 
     // CPU implementation
     const result = evaluateGroupingFastCPU(items, groupsByIndex);
+    if (options.scale !== undefined) {
+      applyExactMetrics(result, items, groupsByIndex, options.scale);
+    }
 
     // Only cache small groupings
     if (groupingKey) {
@@ -185,6 +352,8 @@ export function calculateBalanceScore(
  * Compares two groupings and returns which one is better
  * @param eval1 First evaluation
  * @param eval2 Second evaluation
+ * @param options.objective When given, groupings are compared by this
+ * objective's score instead of the weighted balance score
  * @returns -1 if eval1 is better, 1 if eval2 is better, 0 if equal
  */
 export function compareGroupings(
@@ -194,10 +363,15 @@ export function compareGroupings(
     deltaWeight?: number;
     stdevWeight?: number;
     cvWeight?: number;
+    objective?: Objective;
   } = {}
 ): number {
-  const score1 = calculateBalanceScore(eval1, options);
-  const score2 = calculateBalanceScore(eval2, options);
+  const score = (evaluation: EvaluationResult): number =>
+    options.objective !== undefined
+      ? objectiveScore(evaluation.groupSums, options.objective)
+      : calculateBalanceScore(evaluation, options);
+  const score1 = score(eval1);
+  const score2 = score(eval2);
 
   if (score1 < score2) return -1;
   if (score1 > score2) return 1;
@@ -251,21 +425,40 @@ export function summarizeEvaluation(evaluation: EvaluationResult): string {
 
 /**
  * Validates that a grouping is feasible
+ * @param expectedGroupSize Uniform group size, or the required size of each group
+ * @param constraints Optional must-link / cannot-link pairs to check
+ * @param pinned Optional item ID → group index assignments to check
+ * @param stratify Whether every group must hold its share of each category
+ * @param maxGroupSum Optional cap on every group sum (uniform or per group)
  */
 export function validateGrouping(
   items: Item[],
   groupsByIndex: number[][],
-  expectedGroupSize: number
+  expectedGroupSize: number | number[],
+  constraints?: ItemConstraints,
+  pinned?: PinnedItems,
+  stratify?: boolean,
+  maxGroupSum?: number | number[]
 ): { valid: boolean; errors: string[] } {
   const errors: string[] = [];
 
+  if (
+    Array.isArray(expectedGroupSize) &&
+    expectedGroupSize.length !== groupsByIndex.length
+  ) {
+    errors.push(
+      `${groupsByIndex.length} groups found, expected ${expectedGroupSize.length}`
+    );
+  }
+
   // Check group sizes
   for (let i = 0; i < groupsByIndex.length; i++) {
     const group = groupsByIndex[i]!;
-    if (group.length !== expectedGroupSize) {
-      errors.push(
-        `Group ${i} has ${group.length} items, expected ${expectedGroupSize}`
-      );
+    const expected = Array.isArray(expectedGroupSize)
+      ? expectedGroupSize[i]
+      : expectedGroupSize;
+    if (expected !== undefined && group.length !== expected) {
+      errors.push(`Group ${i} has ${group.length} items, expected ${expected}`);
     }
   }
 
@@ -290,12 +483,58 @@ export function validateGrouping(
     }
   }
 
+  // Check must-link / cannot-link constraints and pinned items
+  if (constraints || pinned) {
+    errors.push(
+      ...findConstraintViolations(items, groupsByIndex, constraints, pinned)
+    );
+  }
+
+  // Check per-category quotas
+  if (stratify) {
+    errors.push(...findQuotaViolations(items, groupsByIndex));
+  }
+
+  // Check per-group caps
+  if (maxGroupSum !== undefined) {
+    for (const v of checkCaps(items, groupsByIndex, maxGroupSum).violations) {
+      errors.push(`Group ${v.group} sums to ${v.sum}, above its cap ${v.cap}`);
+    }
+  }
+
   return {
     valid: errors.length === 0,
     errors,
   };
 }
 
+/**
+ * Checks every group sum against its cap
+ * @param maxGroupSum Cap on every group sum, uniform or one per group
+ * @returns Remaining room per group and the groups over their cap
+ */
+export function checkCaps(
+  items: Item[],
+  groupsByIndex: number[][],
+  maxGroupSum: number | number[]
+): CapCheckResult {
+  const caps = resolveCaps(maxGroupSum, groupsByIndex.length)!;
+  const groupSums = groupsByIndex.map(g =>
+    g.reduce((acc, idx) => acc + items[idx]!.capacity, 0)
+  );
+  const violations = groupSums.flatMap((sum, group) => {
+    const cap = caps[group]!;
+    return capExcess(sum, cap) > 0
+      ? [{ group, sum, cap, excess: sum - cap }]
+      : [];
+  });
+  return {
+    valid: violations.length === 0,
+    slack: groupSums.map((sum, g) => caps[g]! - sum),
+    violations,
+  };
+}
+
 /**
  * Helper function to use Kahan summation for better numerical precision
  */
@@ -1,7 +1,11 @@
 import { Item } from '../types.js';
+import { FlowArc, minCostFlow } from '../utils/minCostFlow.js';
+import { localRefine } from './localRefine.js';
 
 export interface FlowOptions {
-  timeLimitMs?: number;
+  timeLimitMs?: number; // Shared by the sweeps and the swap repair
+  maxIters?: number; // Cap on block reassignment sweeps (default: 50)
+  enableRefinement?: boolean; // Repair the reassigned grouping with swaps (default: true)
 }
 
 export interface FlowResult {
@@ -9,30 +13,46 @@ export interface FlowResult {
   groupSums: number[];
   iterations: number;
   method: string;
+  /** Closed-form lower bound on max − min */
+  bound?: number;
+  /** Whether the grouping meets the bound */
+  isOptimal?: boolean;
+  /** Relative gap (delta − bound) / delta, 0 when optimal */
+  mipGap?: number;
 }
 
 /**
- * Min-cost flow and LP relaxation approaches for balanced partitioning.
+ * Min-cost flow block reassignment for balanced partitioning with a
+ * closed-form lower bound; no LP is solved and nothing is rounded.
  *
- * NOTE: This is a placeholder/heuristic implementation that provides basic
- * functionality but does not implement true min-cost flow or LP relaxation.
- * For production use, consider using specialized optimization libraries.
+ * Bound: with binary x_ig relaxed to [0, 1], spreading every item evenly
+ * over the groups balances the sums exactly, so the bound keeps the largest
+ * and the smallest item whole and is evaluated directly. The group holding
+ * the largest item then sums at least that item plus the `groupSize − 1`
+ * smallest units while the other groups share the rest evenly (and
+ * symmetrically for the smallest item); integer capacities round the bound
+ * up.
  *
- * This algorithm is primarily intended for:
- * - Testing and development purposes
- * - Fallback when other algorithms fail
- * - Integration with external optimization solvers
- *
- * The current implementation uses a simple greedy approach and should not
- * be relied upon for optimal solutions in production environments.
+ * Heuristic: the items are split, by descending capacity, into `groupSize`
+ * blocks of `groups` items, and every group takes exactly one item of each
+ * block, so group sizes are exact by construction. Starting from a snake
+ * order, each block is in turn reassigned by a min-cost flow (items →
+ * groups) that minimizes Σ_g (S_g − target)² given the other blocks; sweeps
+ * repeat until none improves, a local search rather than an exact solve.
+ * Swaps across blocks then repair the remaining imbalance.
  */
 export function flow(
   items: Item[],
   groups: number,
   groupSize: number,
-  _options: FlowOptions = {}
+  options: FlowOptions = {}
 ): FlowResult {
-  let iterations = 0;
+  const {
+    timeLimitMs = 5000,
+    maxIters = 50,
+    enableRefinement = true,
+  } = options;
+  const startTime = performance.now();
 
   // Kahan summation for numerical stability
   function kahanSum(values: number[]): number {
@@ -48,49 +68,122 @@ export function flow(
   }
 
   const totalItems = items.length;
-  const targetGroupSize = groupSize;
-  const targetGroups = groups;
-
-  if (totalItems !== targetGroups * targetGroupSize) {
+  if (totalItems !== groups * groupSize) {
     throw new Error('Flow requires exact group size constraints');
   }
 
-  // Calculate target sum per group (for guidance only)
-  const targetSum = kahanSum(items.map(i => i.capacity)) / targetGroups;
-  void targetSum; // currently unused
+  const capacities = items.map(item => item.capacity);
+  const order = capacities
+    .map((_, idx) => idx)
+    .sort((a, b) => capacities[b]! - capacities[a]! || a - b);
+  const total = kahanSum(capacities);
+  const targetSum = total / groups;
 
-  // Greedy heuristic
-  const groupsByIndex: number[][] = Array.from(
-    { length: targetGroups },
-    () => []
-  );
-  const groupSums: number[] = new Array(targetGroups).fill(0);
+  // Closed-form bound with the largest and the smallest item kept whole
+  let bound = 0;
+  if (groups > 1) {
+    const largest = order.slice(0, groupSize - 1);
+    const smallest = order.slice(totalItems - groupSize + 1);
+    const heaviest =
+      capacities[order[0]!]! + kahanSum(smallest.map(idx => capacities[idx]!));
+    const lightest =
+      capacities[order[totalItems - 1]!]! +
+      kahanSum(largest.map(idx => capacities[idx]!));
+    bound = Math.max(
+      0,
+      (groups * heaviest - total) / (groups - 1),
+      (total - groups * lightest) / (groups - 1)
+    );
+    if (capacities.every(c => Number.isInteger(c))) {
+      // Integer sums that cannot split evenly differ by at least 1
+      bound = Math.max(total % groups !== 0 ? 1 : 0, Math.ceil(bound - 1e-9));
+    }
+  }
 
-  // Sort items by capacity descending
-  const sorted = items
-    .map((it, idx) => ({ idx, cap: it.capacity }))
-    .sort((a, b) => b.cap - a.cap);
+  // placement[k][g]: the item of block k in group g, snake order to start
+  const placement = Array.from({ length: groupSize }, (_, k) => {
+    const block = order.slice(k * groups, (k + 1) * groups);
+    return k % 2 === 0 ? block : block.reverse();
+  });
+  const groupSums = new Array<number>(groups).fill(0);
+  for (const row of placement) {
+    row.forEach((idx, g) => (groupSums[g]! += capacities[idx]!));
+  }
+  const spread = (sums: number[]): number =>
+    sums.reduce((acc, s) => acc + (s - targetSum) * (s - targetSum), 0);
 
-  for (const { idx, cap } of sorted) {
-    // place into the group with minimal sum and available space
-    let best = 0;
-    for (let g = 1; g < targetGroups; g++) {
-      if (
-        groupSums[g]! < groupSums[best]! &&
-        groupsByIndex[g]!.length < targetGroupSize
-      ) {
-        best = g;
+  // Min-cost assignment of one block given the sums of the other blocks:
+  // Σ_g (rest_g + c − target)² differs from Σ_g 2c(rest_g − target) by a
+  // constant, so the arc from item i to group g costs c_i (rest_g − target)
+  const assignBlock = (row: number[], rest: number[]): number[] => {
+    const sink = 2 * groups + 1;
+    const arcs: FlowArc[] = [];
+    row.forEach((idx, i) => {
+      arcs.push({ from: 0, to: 1 + i, capacity: 1, cost: 0 });
+      for (let g = 0; g < groups; g++) {
+        arcs.push({
+          from: 1 + i,
+          to: 1 + groups + g,
+          capacity: 1,
+          cost: capacities[idx]! * (rest[g]! - targetSum),
+        });
       }
+    });
+    for (let g = 0; g < groups; g++) {
+      arcs.push({ from: 1 + groups + g, to: sink, capacity: 1, cost: 0 });
     }
-    groupsByIndex[best]!.push(idx);
-    groupSums[best]! += cap;
+    const { flows } = minCostFlow(sink + 1, arcs, 0, sink);
+    const assigned = new Array<number>(groups);
+    row.forEach((idx, i) => {
+      for (let g = 0; g < groups; g++) {
+        if (flows[i * (groups + 1) + 1 + g]! > 0.5) assigned[g] = idx;
+      }
+    });
+    return assigned;
+  };
+
+  let iterations = 0;
+  let improved = groups > 1;
+  while (improved && iterations < maxIters) {
     iterations++;
+    improved = false;
+    for (let k = 0; k < groupSize; k++) {
+      if (iterations > 1 && performance.now() - startTime > timeLimitMs) break;
+      const row = placement[k]!;
+      const rest = groupSums.map((s, g) => s - capacities[row[g]!]!);
+      const assigned = assignBlock(row, rest);
+      const sums = rest.map((s, g) => s + capacities[assigned[g]!]!);
+      if (spread(sums) < spread(groupSums) - 1e-9) {
+        placement[k] = assigned;
+        sums.forEach((s, g) => (groupSums[g] = s));
+        improved = true;
+      }
+    }
+    if (performance.now() - startTime > timeLimitMs) break;
   }
 
+  let groupsByIndex = Array.from({ length: groups }, (_, g) =>
+    placement.map(row => row[g]!)
+  );
+  const roundedDelta = Math.max(...groupSums) - Math.min(...groupSums);
+  if (enableRefinement && roundedDelta > bound + 1e-9) {
+    groupsByIndex = localRefine(items, groupsByIndex, {
+      enable22: false,
+      timeLimitMs: Math.max(0, timeLimitMs - (performance.now() - startTime)),
+    }).groupsByIndex;
+  }
+
+  const finalSums = groupsByIndex.map(g =>
+    kahanSum(g.map(idx => capacities[idx]!))
+  );
+  const delta = Math.max(...finalSums) - Math.min(...finalSums);
   return {
     groupsByIndex,
-    groupSums,
-    iterations,
-    method: 'flow-heuristic',
+    groupSums: finalSums,
+    iterations: Math.max(1, iterations),
+    method: 'flow-block-reassign',
+    bound,
+    isOptimal: delta <= bound + 1e-9,
+    mipGap: delta > 0 ? Math.max(0, (delta - bound) / delta) : 0,
   };
 }
@@ -0,0 +1,214 @@
+import { Grouping, HomogeneityMeasure, Item } from '../types.js';
+import { createAlgorithmError } from '../errors.js';
+import { resolveGroupSizes } from '../utils/groupSizes.js';
+
+export interface HomogeneousOptions {
+  groupSizes?: number[]; // Uneven group sizes (default: groupSize each)
+  measure?: HomogeneityMeasure; // Within-group spread minimized (default: 'range')
+  maxIters?: number; // Cap on refinement swaps (default: 1000)
+}
+
+/**
+ * Within-group spread of the capacities of `members` under `measure`
+ */
+export function withinGroupSpread(
+  items: Item[],
+  members: number[],
+  measure: HomogeneityMeasure = 'range'
+): number {
+  if (members.length === 0) return 0;
+  if (measure === 'variance') {
+    let sum = 0;
+    for (const idx of members) sum += items[idx]!.capacity;
+    const mean = sum / members.length;
+    let acc = 0;
+    for (const idx of members) acc += (items[idx]!.capacity - mean) ** 2;
+    return acc / members.length;
+  }
+  let min = Infinity;
+  let max = -Infinity;
+  for (const idx of members) {
+    const c = items[idx]!.capacity;
+    if (c < min) min = c;
+    if (c > max) max = c;
+  }
+  return max - min;
+}
+
+// Largest number of chunk-order states explored for uneven group sizes
+const MAX_ORDER_STATES = 1_000_000;
+
+/**
+ * Order in which the group sizes are cut from the sorted items so that the
+ * largest chunk spread is minimal. States count the groups of each distinct
+ * size already cut. Returns undefined when there are too many states.
+ */
+function bestSizeOrder(
+  sizes: number[],
+  chunkSpread: (start: number, size: number) => number
+): number[] | undefined {
+  const kinds = [...new Set(sizes)].sort((a, b) => a - b);
+  const counts = kinds.map(k => sizes.filter(s => s === k).length);
+  const radix: number[] = [];
+  let states = 1;
+  for (const count of counts) {
+    radix.push(states);
+    states *= count + 1;
+    if (states > MAX_ORDER_STATES) return undefined;
+  }
+
+  // best[state]: smallest largest spread of the groups still to cut
+  const best = new Float64Array(states).fill(Infinity);
+  const choice = new Int32Array(states).fill(-1);
+  best[states - 1] = 0;
+  for (let state = states - 2; state >= 0; state--) {
+    let start = 0;
+    const used = kinds.map((kind, k) => {
+      const n = Math.floor(state / radix[k]!) % (counts[k]! + 1);
+      start += n * kind;
+      return n;
+    });
+    kinds.forEach((kind, k) => {
+      if (used[k]! >= counts[k]!) return;
+      const value = Math.max(
+        chunkSpread(start, kind),
+        best[state + radix[k]!]!
+      );
+      if (value < best[state]!) {
+        best[state] = value;
+        choice[state] = k;
+      }
+    });
+  }
+
+  const order: number[] = [];
+  for (let state = 0; state !== states - 1; ) {
+    const k = choice[state]!;
+    order.push(kinds[k]!);
+    state += radix[k]!;
+  }
+  return order;
+}
+
+/**
+ * Homogeneous (matching) groups: every group holds items of nearly identical
+ * capacity, e.g. battery cells wired in series. The largest within-group
+ * range or variance is minimized, ties broken by the total over all groups.
+ * Items are sorted by capacity and cut into consecutive chunks, choosing the
+ * order of uneven group sizes by dynamic programming. Some optimal grouping
+ * for the range is always consecutive, so this is exact for 'range'. For
+ * 'variance' (or too many distinct sizes), 1↔1 swaps between groups refine
+ * the chunks.
+ */
+export function homogeneous(
+  items: Item[],
+  groups: number,
+  groupSize: number,
+  options: HomogeneousOptions = {}
+): Grouping {
+  const { measure = 'range', maxIters = 1000 } = options;
+  try {
+    const sizes = resolveGroupSizes(groups, groupSize, options.groupSizes);
+
+    // Consecutive chunks of the items in ascending capacity order
+    const order = items
+      .map((_, idx) => idx)
+      .sort((a, b) => items[a]!.capacity - items[b]!.capacity || a - b);
+    const sizeOrder = sizes.every(size => size === sizes[0])
+      ? sizes
+      : bestSizeOrder(sizes, (start, size) =>
+          withinGroupSpread(items, order.slice(start, start + size), measure)
+        );
+    const groupsByIndex: number[][] = new Array(groups);
+    const open = sizes.map((size, g) => ({ size, g }));
+    let next = 0;
+    for (const size of sizeOrder ?? sizes) {
+      const slot = open.findIndex(o => o.size === size);
+      groupsByIndex[open[slot]!.g] = order.slice(next, next + size);
+      open.splice(slot, 1);
+      next += size;
+    }
+
+    const spreads = groupsByIndex.map(g =>
+      withinGroupSpread(items, g, measure)
+    );
+    let iterations = 0;
+
+    // Lexicographic score: (largest spread, total spread)
+    const scoreOf = (values: number[]): [number, number] => [
+      Math.max(...values),
+      values.reduce((acc, v) => acc + v, 0),
+    ];
+    const isBetter = (a: [number, number], b: [number, number]): boolean =>
+      a[0] < b[0] - 1e-12 ||
+      (Math.abs(a[0] - b[0]) <= 1e-12 && a[1] < b[1] - 1e-12);
+
+    let improved = !(sizeOrder && measure === 'range');
+    while (improved && iterations < maxIters) {
+      improved = false;
+      let best = scoreOf(spreads);
+      let bestMove: [number, number, number, number, number, number] | null =
+        null;
+      for (let g1 = 0; g1 < groups; g1++) {
+        for (let g2 = g1 + 1; g2 < groups; g2++) {
+          for (let p1 = 0; p1 < groupsByIndex[g1]!.length; p1++) {
+            for (let p2 = 0; p2 < groupsByIndex[g2]!.length; p2++) {
+              const a = groupsByIndex[g1]![p1]!;
+              const b = groupsByIndex[g2]![p2]!;
+              if (items[a]!.capacity === items[b]!.capacity) continue;
+              groupsByIndex[g1]![p1] = b;
+              groupsByIndex[g2]![p2] = a;
+              const s1 = withinGroupSpread(items, groupsByIndex[g1]!, measure);
+              const s2 = withinGroupSpread(items, groupsByIndex[g2]!, measure);
+              groupsByIndex[g1]![p1] = a;
+              groupsByIndex[g2]![p2] = b;
+
+              const candidate = spreads.slice();
+              candidate[g1] = s1;
+              candidate[g2] = s2;
+              const score = scoreOf(candidate);
+              if (isBetter(score, best)) {
+                best = score;
+                bestMove = [g1, p1, g2, p2, s1, s2];
+              }
+            }
+          }
+        }
+      }
+      if (bestMove) {
+        const [g1, p1, g2, p2, s1, s2] = bestMove;
+        const a = groupsByIndex[g1]![p1]!;
+        groupsByIndex[g1]![p1] = groupsByIndex[g2]![p2]!;
+        groupsByIndex[g2]![p2] = a;
+        spreads[g1] = s1;
+        spreads[g2] = s2;
+        iterations++;
+        improved = true;
+      }
+    }
+
+    const groupSums = groupsByIndex.map(g =>
+      g.reduce((acc, idx) => acc + items[idx]!.capacity, 0)
+    );
+    const mean = groupSums.reduce((acc, s) => acc + s, 0) / groupSums.length;
+    const variance =
+      groupSums.reduce((acc, s) => acc + Math.pow(s - mean, 2), 0) /
+      groupSums.length;
+    return {
+      groupsById: groupsByIndex.map(g => g.map(idx => items[idx]!.id)),
+      groupsByIndex,
+      groupSums,
+      delta: Math.max(...groupSums) - Math.min(...groupSums),
+      stdev: Math.sqrt(variance),
+      iterations: iterations + 1,
+      methodUsed: iterations > 0 ? 'homogeneous-refined' : 'homogeneous',
+    };
+  } catch (error) {
+    throw createAlgorithmError(
+      'homogeneous',
+      'sorted chunking',
+      error instanceof Error ? error.message : 'Unknown error',
+      { itemCount: items.length, groups, groupSize }
+    );
+  }
+}
@@ -1,11 +1,14 @@
 import { Item } from '../types.js';
+import { LinearConstraint, solveLinearProgram } from '../utils/simplex.js';
+import { localRefine } from './localRefine.js';
 
 export interface ILPOptions {
-  maxIters?: number;
+  maxIters?: number; // Cap on branch-and-bound nodes (default: 100000)
   timeLimitMs?: number;
-  enableExternalSolver?: boolean;
+  enableExternalSolver?: boolean; // Accepted for compatibility; no external solver is bundled
   solverType?: 'glpk' | 'cbc' | 'gurobi';
-  enableRelaxation?: boolean;
+  enableRelaxation?: boolean; // Bound nodes by their LP relaxation (default: true)
+  mipGap?: number; // Stop once (incumbent − bound) / incumbent is within it (default: 0)
   seed?: number;
 }
 
@@ -16,28 +19,37 @@ export interface ILPResult {
   method: string;
   objectiveValue?: number;
   isOptimal?: boolean;
+  /** Best proven lower bound on max − min */
+  bound?: number;
+  /** Relative gap (objectiveValue − bound) / objectiveValue, 0 when proven */
+  mipGap?: number;
 }
 
-function debugInfo(_msg: string): void {
-  // no-op to satisfy no-console in library code
+// A branch-and-bound node: items assigned so far and the bound inherited
+// from its parent
+interface Node {
+  groupOf: number[];
+  sums: number[];
+  counts: number[];
+  depth: number;
+  bound: number;
 }
 
 /**
  * Integer Linear Programming approach for balanced partitioning.
  *
- * NOTE: This is a placeholder/heuristic implementation that provides basic
- * functionality but does not implement true ILP optimization.
- * For production use, consider using specialized optimization libraries.
+ * Formulation: binary x_ig (item i in group g), Σ_g x_ig = 1 for every item,
+ * Σ_i x_ig = groupSize for every group, U ≥ S_g ≥ L for the group sums
+ * S_g = Σ_i c_i x_ig, minimizing U − L. It is solved in-process by
+ * branch-and-bound: items are assigned in descending capacity order, each
+ * node is bounded by the LP relaxation of the remaining assignment (solved
+ * with the bundled simplex), and groups in identical states are branched on
+ * once. An LPT start refined by swaps is the first incumbent. With integer
+ * capacities, bounds are rounded up and an uneven total forces a delta of 1.
  *
- * This algorithm is primarily intended for:
- * - Testing and development purposes
- * - Fallback when other algorithms fail
- * - Integration with external ILP solvers (GLPK, CBC, Gurobi)
- *
- * The current implementation uses a simple greedy approach and should not
- * be relied upon for optimal solutions in production environments.
- *
- * External solver integration is planned but not yet implemented.
+ * The search stops at `timeLimitMs`, after `maxIters` nodes or once the gap
+ * to the best bound is within `mipGap`; `isOptimal` is true only when the
+ * whole tree was closed at gap 0.
  */
 export function ilp(
   items: Item[],
@@ -45,40 +57,224 @@ export function ilp(
   groupSize: number,
   options: ILPOptions = {}
 ): ILPResult {
-  const { solverType = 'glpk' } = options;
+  const {
+    maxIters = 100000,
+    timeLimitMs = 30000,
+    enableRelaxation = true,
+    mipGap = 0,
+  } = options;
+  const startTime = performance.now();
 
   const totalItems = items.length;
   if (totalItems !== groups * groupSize) {
     throw new Error('ILP requires exact group size constraints');
   }
 
-  // Simple feasible construction: round-robin by sorted capacity
-  const groupsByIndex: number[][] = Array.from({ length: groups }, () => []);
-  const sorted = items
-    .map((it, idx) => ({ idx, cap: it.capacity }))
-    .sort((a, b) => b.cap - a.cap);
-
-  let iterations = 0;
-  for (let i = 0; i < sorted.length; i++) {
-    const g = i % groups;
-    groupsByIndex[g]!.push(sorted[i]!.idx);
-    iterations++;
-  }
+  const capacities = items.map(item => item.capacity);
+  const order = capacities
+    .map((_, idx) => idx)
+    .sort((a, b) => capacities[b]! - capacities[a]! || a - b);
+  const total = capacities.reduce((acc, c) => acc + c, 0);
+  const integral = capacities.every(c => Number.isInteger(c));
+  // Integer sums that cannot split evenly differ by at least 1
+  const floorBound = integral && total % groups !== 0 ? 1 : 0;
+  const spreadOf = (sums: number[]): number =>
+    Math.max(...sums) - Math.min(...sums);
+  const roundBound = (bound: number): number =>
+    Math.max(floorBound, integral ? Math.ceil(bound - 1e-6) : bound);
 
-  // Compute group sums
-  const groupSums = groupsByIndex.map(g =>
-    g.reduce((s, idx) => s + items[idx]!.capacity, 0)
+  // Incumbent: LPT placement refined by 1↔1 swaps
+  let incumbent: number[][] = Array.from({ length: groups }, () => []);
+  const lptSums = new Array<number>(groups).fill(0);
+  for (const idx of order) {
+    let target = -1;
+    for (let g = 0; g < groups; g++) {
+      if (
+        incumbent[g]!.length < groupSize &&
+        (target === -1 || lptSums[g]! < lptSums[target]!)
+      ) {
+        target = g;
+      }
+    }
+    incumbent[target]!.push(idx);
+    lptSums[target]! += capacities[idx]!;
+  }
+  incumbent = localRefine(items, incumbent, { enable22: false }).groupsByIndex;
+  let incumbentValue = spreadOf(
+    incumbent.map(g => g.reduce((acc, idx) => acc + capacities[idx]!, 0))
   );
 
-  // Informative message (kept for visibility in tests, but avoid console in library code)
-  debugInfo(`${solverType.toUpperCase()} solver not implemented yet`);
+  // Lower bound of a node: sums only grow, and a group gains at most its
+  // largest remaining items
+  const cheapBound = (node: Node): number => {
+    const free = order.filter(idx => node.groupOf[idx] === -1);
+    let upper = -Infinity;
+    let lower = Infinity;
+    for (let g = 0; g < groups; g++) {
+      upper = Math.max(upper, node.sums[g]!);
+      let fill = node.sums[g]!;
+      for (let k = 0; k < groupSize - node.counts[g]!; k++) {
+        fill += capacities[free[k]!]!;
+      }
+      lower = Math.min(lower, fill);
+    }
+    return Math.max(0, upper - lower);
+  };
 
+  // LP relaxation of a node over the unassigned items; returns undefined
+  // when it is infeasible, or its bound and the fractional assignment
+  const relaxation = (
+    node: Node
+  ):
+    | { bound: number; share: (idx: number, g: number) => number }
+    | undefined => {
+    const free = order.filter(idx => node.groupOf[idx] === -1);
+    const open = Array.from({ length: groups }, (_, g) => g).filter(
+      g => node.counts[g]! < groupSize
+    );
+    const column = (f: number, o: number): number => f * open.length + o;
+    const width = free.length * open.length + 2; // x, then U and L
+    const U = width - 2;
+    const L = width - 1;
+    const constraints: LinearConstraint[] = [];
+    free.forEach((_, f) => {
+      const coeffs = new Array<number>(width).fill(0);
+      open.forEach((_, o) => (coeffs[column(f, o)] = 1));
+      constraints.push({ coeffs, type: '=', rhs: 1 });
+    });
+    open.forEach((g, o) => {
+      const count = new Array<number>(width).fill(0);
+      const upper = new Array<number>(width).fill(0);
+      const lower = new Array<number>(width).fill(0);
+      free.forEach((idx, f) => {
+        count[column(f, o)] = 1;
+        upper[column(f, o)] = capacities[idx]!;
+        lower[column(f, o)] = -capacities[idx]!;
+      });
+      upper[U] = -1;
+      lower[L] = 1;
+      constraints.push({
+        coeffs: count,
+        type: '=',
+        rhs: groupSize - node.counts[g]!,
+      });
+      constraints.push({ coeffs: upper, type: '<=', rhs: -node.sums[g]! });
+      constraints.push({ coeffs: lower, type: '<=', rhs: node.sums[g]! });
+    });
+    // Full groups bound U and L directly
+    for (let g = 0; g < groups; g++) {
+      if (node.counts[g]! < groupSize) continue;
+      const upper = new Array<number>(width).fill(0);
+      const lower = new Array<number>(width).fill(0);
+      upper[U] = 1;
+      lower[L] = 1;
+      constraints.push({ coeffs: upper, type: '>=', rhs: node.sums[g]! });
+      constraints.push({ coeffs: lower, type: '<=', rhs: node.sums[g]! });
+    }
+    const objective = new Array<number>(width).fill(0);
+    objective[U] = 1;
+    objective[L] = -1;
+
+    const solution = solveLinearProgram({ objective, constraints });
+    if (solution.status === 'infeasible') return undefined;
+    if (solution.status !== 'optimal') {
+      return { bound: cheapBound(node), share: () => 0 };
+    }
+    const position = new Map(free.map((idx, f) => [idx, f]));
+    const slot = new Map(open.map((g, o) => [g, o]));
+    return {
+      bound: Math.max(solution.value, cheapBound(node)),
+      share: (idx, g) => solution.x[column(position.get(idx)!, slot.get(g)!)]!,
+    };
+  };
+
+  const root: Node = {
+    groupOf: new Array<number>(totalItems).fill(-1),
+    sums: new Array<number>(groups).fill(0),
+    counts: new Array<number>(groups).fill(0),
+    depth: 0,
+    bound: floorBound,
+  };
+  const stack: Node[] = [root];
+  let nodes = 0;
+  // Smallest bound of the nodes pruned only by the gap tolerance
+  let gapBound = Infinity;
+  const tolerance = (): number => Math.max(1e-9, mipGap * incumbentValue);
+
+  while (stack.length > 0) {
+    if (nodes >= maxIters || performance.now() - startTime > timeLimitMs) {
+      break;
+    }
+    const node = stack.pop()!;
+    if (node.bound >= incumbentValue - tolerance()) {
+      if (node.bound < incumbentValue)
+        gapBound = Math.min(gapBound, node.bound);
+      continue;
+    }
+    nodes++;
+
+    if (node.depth === totalItems) {
+      const value = spreadOf(node.sums);
+      if (value < incumbentValue) {
+        incumbentValue = value;
+        incumbent = Array.from({ length: groups }, () => []);
+        node.groupOf.forEach((g, idx) => incumbent[g]!.push(idx));
+      }
+      continue;
+    }
+
+    const lp = enableRelaxation
+      ? relaxation(node)
+      : { bound: cheapBound(node), share: () => 0 };
+    if (!lp) continue;
+    const bound = Math.max(node.bound, roundBound(lp.bound));
+    if (bound >= incumbentValue - tolerance()) {
+      if (bound < incumbentValue) gapBound = Math.min(gapBound, bound);
+      continue;
+    }
+
+    // Branch on the largest unassigned item; groups in the same state are
+    // interchangeable, so only the first of each is tried
+    const idx = order[node.depth]!;
+    const seen = new Set<string>();
+    const children: { g: number; share: number }[] = [];
+    for (let g = 0; g < groups; g++) {
+      if (node.counts[g]! >= groupSize) continue;
+      const state = `${node.counts[g]}:${node.sums[g]}`;
+      if (seen.has(state)) continue;
+      seen.add(state);
+      children.push({ g, share: lp.share(idx, g) });
+    }
+    // Most fractionally assigned (then lightest) group is explored first
+    children.sort(
+      (a, b) => a.share - b.share || node.sums[b.g]! - node.sums[a.g]!
+    );
+    for (const { g } of children) {
+      const groupOf = node.groupOf.slice();
+      groupOf[idx] = g;
+      const sums = node.sums.slice();
+      sums[g]! += capacities[idx]!;
+      const counts = node.counts.slice();
+      counts[g]!++;
+      stack.push({ groupOf, sums, counts, depth: node.depth + 1, bound });
+    }
+  }
+
+  const closed = stack.length === 0;
+  let bound = Math.min(incumbentValue, gapBound);
+  for (const node of stack) bound = Math.min(bound, node.bound);
+
+  const groupSums = incumbent.map(g =>
+    g.reduce((acc, idx) => acc + capacities[idx]!, 0)
+  );
   return {
-    groupsByIndex,
+    groupsByIndex: incumbent,
     groupSums,
-    iterations,
-    method: 'ilp-placeholder',
-    objectiveValue: Math.max(...groupSums) - Math.min(...groupSums),
-    isOptimal: false,
+    iterations: Math.max(1, nodes),
+    method: 'ilp-branch-bound',
+    objectiveValue: incumbentValue,
+    isOptimal: closed && bound >= incumbentValue - 1e-9,
+    bound,
+    mipGap: incumbentValue > 0 ? (incumbentValue - bound) / incumbentValue : 0,
   };
 }
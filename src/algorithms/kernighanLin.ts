@@ -0,0 +1,237 @@
+import {
+  DimensionObjective,
+  Edge,
+  Item,
+  ItemConstraints,
+  Objective,
+  PinnedItems,
+} from '../types.js';
+import { createAlgorithmError } from '../errors.js';
+import {
+  computeGroupLoads,
+  dimensionScore,
+  getCapacityVectors,
+  getDimensionCount,
+  resolveDimensionObjective,
+} from '../utils/dimensions.js';
+import { objectiveScore } from '../utils/objective.js';
+import { targetShares } from '../utils/targets.js';
+import { buildConstraintModel, canSwap } from '../utils/constraints.js';
+import { itemStrata, sameStrata } from '../utils/strata.js';
+import { capOverflow, resolveCaps } from '../utils/caps.js';
+import { buildGraphModel, cutWeight } from '../utils/graph.js';
+import { LocalRefineResult } from './localRefine.js';
+
+export interface KernighanLinOptions {
+  edges?: Edge[]; // Weighted edges between item IDs
+  edgeCutWeight?: number; // Weight of the cut against balance (default: 1)
+  maxPasses?: number; // Cap on improvement passes over all group pairs (default: 10)
+  timeLimitMs?: number; // Stop between swaps once exceeded (default: unlimited)
+  dimensionWeights?: number[]; // Used when items carry capacity vectors
+  dimensionObjective?: DimensionObjective;
+  groupTargets?: number[]; // Balance sums relative to per-group targets
+  constraints?: ItemConstraints; // Swaps never break must-link / cannot-link pairs
+  pinned?: PinnedItems; // Pinned items are excluded from every swap
+  stratify?: boolean; // Only swap items of the same category (keeps quotas)
+  objective?: Objective; // Balance score for scalar items (default: delta)
+  maxGroupSum?: number | number[]; // Swaps never push a group further over its cap
+}
+
+/**
+ * Kernighan–Lin / Fiduccia–Mattheyses style refinement of a grouping that
+ * minimizes the balance score plus `edgeCutWeight` × the weight of the edges
+ * joining different groups. Moves are 1↔1 swaps, so every group keeps its
+ * exact size. A pass visits every pair of groups: it repeatedly makes the
+ * best swap of two unlocked items, even one that worsens the score, and locks
+ * both; the best prefix of that sequence is kept and the rest undone, which
+ * lets a pass climb out of local minima that plain swap descent stops in.
+ * Passes repeat until one makes no improvement. At `timeLimitMs` the
+ * current pass ends early, still keeping its best prefix. Constraints, pins,
+ * quotas and caps are honored as in `localRefine`.
+ */
+export function kernighanLin(
+  items: Item[],
+  groupsByIndex: number[][],
+  options: KernighanLinOptions = {}
+): LocalRefineResult {
+  const { maxPasses = 10, timeLimitMs = Infinity } = options;
+  const deadline = performance.now() + timeLimitMs;
+  try {
+    const graph = buildGraphModel(items, options);
+    const groups = groupsByIndex.length;
+    const model = buildConstraintModel(
+      items,
+      options.constraints,
+      options.pinned
+    );
+    const strata = options.stratify ? itemStrata(items) : undefined;
+    const caps = resolveCaps(options.maxGroupSum, groups);
+    const dimensionOptions = {
+      weights: options.dimensionWeights,
+      objective: resolveDimensionObjective(items, options.dimensionObjective),
+      shares: targetShares(options.groupTargets),
+    };
+
+    const vectors = getCapacityVectors(items);
+    const dims = vectors[0]?.length ?? 1;
+    const loads = computeGroupLoads(vectors, groupsByIndex);
+    const groupSums = groupsByIndex.map(g =>
+      g.reduce((acc, idx) => acc + items[idx]!.capacity, 0)
+    );
+    const { objective } = options;
+    const scalarObjective =
+      objective !== undefined && getDimensionCount(items) === 0;
+    const balanceScore = (): number =>
+      scalarObjective
+        ? objectiveScore(
+            loads.map(load => load[0]!),
+            objective,
+            dimensionOptions.shares
+          )
+        : dimensionScore(loads, dimensionOptions);
+
+    // toGroup[idx][g]: total weight of the edges from item idx into group g
+    const groupOf = new Array<number>(items.length).fill(-1);
+    groupsByIndex.forEach((members, g) => {
+      for (const idx of members) groupOf[idx] = g;
+    });
+    const toGroup = items.map(() => new Array<number>(groups).fill(0));
+    graph?.neighbors.forEach((adjacent, idx) => {
+      adjacent.forEach((w, j) => {
+        toGroup[idx]![groupOf[j]!]! += w;
+      });
+    });
+    const weight = graph?.weight ?? 0;
+    let cut = graph ? cutWeight(graph, groupsByIndex) : 0;
+    let overflow = caps ? capOverflow(groupSums, caps) : 0;
+
+    // Exchanges the items at p1 in g1 and p2 in g2, keeping every table current
+    const swap = (g1: number, p1: number, g2: number, p2: number): void => {
+      const a = groupsByIndex[g1]![p1]!;
+      const b = groupsByIndex[g2]![p2]!;
+      cut +=
+        toGroup[a]![g1]! -
+        toGroup[a]![g2]! +
+        toGroup[b]![g2]! -
+        toGroup[b]![g1]! +
+        2 * (graph?.neighbors[a]!.get(b) ?? 0);
+      graph?.neighbors[a]!.forEach((w, j) => {
+        toGroup[j]![g1]! -= w;
+        toGroup[j]![g2]! += w;
+      });
+      graph?.neighbors[b]!.forEach((w, j) => {
+        toGroup[j]![g2]! -= w;
+        toGroup[j]![g1]! += w;
+      });
+      for (let d = 0; d < dims; d++) {
+        const shift = vectors[b]![d]! - vectors[a]![d]!;
+        loads[g1]![d]! += shift;
+        loads[g2]![d]! -= shift;
+      }
+      const moved = items[b]!.capacity - items[a]!.capacity;
+      groupSums[g1] = groupSums[g1]! + moved;
+      groupSums[g2] = groupSums[g2]! - moved;
+      if (caps) overflow = capOverflow(groupSums, caps);
+      groupsByIndex[g1]![p1] = b;
+      groupsByIndex[g2]![p2] = a;
+      groupOf[a] = g2;
+      groupOf[b] = g1;
+    };
+    const getScore = (): number => balanceScore() + weight * cut;
+    const isBetter = (
+      score: number,
+      scoreOverflow: number,
+      refScore: number,
+      refOverflow: number
+    ): boolean =>
+      scoreOverflow < refOverflow ||
+      (scoreOverflow === refOverflow && score < refScore - 1e-9);
+
+    let passes = 0;
+    let improvements = 0;
+    let improved = true;
+    let timedOut = false;
+    while (improved && passes < maxPasses && !timedOut) {
+      passes++;
+      improved = false;
+      for (let g1 = 0; g1 < groups && !timedOut; g1++) {
+        for (let g2 = g1 + 1; g2 < groups && !timedOut; g2++) {
+          const locked = new Set<number>();
+          const trail: [number, number][] = [];
+          let bestScore = getScore();
+          let bestOverflow = overflow;
+          let bestLength = 0;
+          const steps = Math.min(
+            groupsByIndex[g1]!.length,
+            groupsByIndex[g2]!.length
+          );
+
+          for (let step = 0; step < steps; step++) {
+            if (performance.now() > deadline) {
+              timedOut = true;
+              break;
+            }
+            // Best swap of two unlocked items, whether or not it improves
+            let move: [number, number] | null = null;
+            let moveScore = Infinity;
+            let moveOverflow = Infinity;
+            for (let p1 = 0; p1 < groupsByIndex[g1]!.length; p1++) {
+              const a = groupsByIndex[g1]![p1]!;
+              if (locked.has(a)) continue;
+              for (let p2 = 0; p2 < groupsByIndex[g2]!.length; p2++) {
+                const b = groupsByIndex[g2]![p2]!;
+                if (
+                  locked.has(b) ||
+                  (model && !canSwap(model, groupsByIndex, g1, [a], g2, [b])) ||
+                  (strata && !sameStrata(strata, [a], [b]))
+                ) {
+                  continue;
+                }
+                swap(g1, p1, g2, p2);
+                const score = getScore();
+                const nextOverflow = overflow;
+                swap(g1, p1, g2, p2);
+                if (isBetter(score, nextOverflow, moveScore, moveOverflow)) {
+                  move = [p1, p2];
+                  moveScore = score;
+                  moveOverflow = nextOverflow;
+                }
+              }
+            }
+            if (!move) break;
+
+            const [p1, p2] = move;
+            locked.add(groupsByIndex[g1]![p1]!);
+            locked.add(groupsByIndex[g2]![p2]!);
+            swap(g1, p1, g2, p2);
+            trail.push(move);
+            if (isBetter(moveScore, moveOverflow, bestScore, bestOverflow)) {
+              bestScore = moveScore;
+              bestOverflow = moveOverflow;
+              bestLength = trail.length;
+            }
+          }
+
+          // Undo the swaps after the best prefix
+          while (trail.length > bestLength) {
+            const [p1, p2] = trail.pop()!;
+            swap(g1, p1, g2, p2);
+          }
+          if (bestLength > 0) {
+            improvements++;
+            improved = true;
+          }
+        }
+      }
+    }
+
+    return { groupsByIndex, groupSums, iterations: passes, improvements };
+  } catch (error) {
+    throw createAlgorithmError(
+      'kernighanLin',
+      'edge cut refinement',
+      error instanceof Error ? error.message : 'Unknown error',
+      { itemCount: items.length, groups: groupsByIndex.length }
+    );
+  }
+}
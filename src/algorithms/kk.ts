@@ -1,5 +1,8 @@
-import { Item, Grouping } from '../types.js';
+import { Item, Grouping, PinnedItems } from '../types.js';
 import { createAlgorithmError } from '../errors.js';
+import { resolveGroupSizes } from '../utils/groupSizes.js';
+import { normalizedSpread, targetShares } from '../utils/targets.js';
+import { resolvePinned } from '../utils/constraints.js';
 
 interface PartitionSet {
   indices: number[];
@@ -7,9 +10,15 @@ interface PartitionSet {
 }
 
 /**
- * Greedy 2-bin split used as a building block (LPT-like for 2 bins)
+ * Greedy 2-bin split used as a building block (LPT-like for 2 bins).
+ * Bin sums are compared relative to the weights wL and wR.
  */
-function splitIntoTwo(items: Item[], indices: number[]): [number[], number[]] {
+function splitIntoTwo(
+  items: Item[],
+  indices: number[],
+  wL: number = 1,
+  wR: number = 1
+): [number[], number[]] {
   const sorted = [...indices].sort(
     (a, b) => items[b]!.capacity - items[a]!.capacity
   );
@@ -19,7 +28,7 @@ function splitIntoTwo(items: Item[], indices: number[]): [number[], number[]] {
   let sumR = 0;
   for (const idx of sorted) {
     const c = items[idx]!.capacity;
-    if (sumL <= sumR) {
+    if (sumL / wL <= sumR / wR) {
       left.push(idx);
       sumL += c;
     } else {
@@ -31,13 +40,100 @@ function splitIntoTwo(items: Item[], indices: number[]): [number[], number[]] {
 }
 
 /**
- * Repair groups to ensure each has exactly groupSize elements while keeping sums balanced
+ * Recursive bisection for per-group targets: the groups are halved and the
+ * items split in proportion to the total target of each half
+ */
+function splitByTargets(
+  items: Item[],
+  indices: number[],
+  groupIds: number[],
+  targets: number[],
+  groupsByIndex: number[][]
+): void {
+  if (groupIds.length === 1) {
+    groupsByIndex[groupIds[0]!] = indices;
+    return;
+  }
+  const mid = Math.ceil(groupIds.length / 2);
+  const leftIds = groupIds.slice(0, mid);
+  const rightIds = groupIds.slice(mid);
+  const wL = leftIds.reduce((acc, g) => acc + targets[g]!, 0);
+  const wR = rightIds.reduce((acc, g) => acc + targets[g]!, 0);
+  const [left, right] = splitIntoTwo(items, indices, wL, wR);
+  splitByTargets(items, left, leftIds, targets, groupsByIndex);
+  splitByTargets(items, right, rightIds, targets, groupsByIndex);
+}
+
+/**
+ * Builds k partitions of roughly equal sum by repeatedly splitting the
+ * largest set, pairing the most populated partitions with the largest sizes
+ */
+function splitEvenly(
+  items: Item[],
+  sizes: number[],
+  groupsByIndex: number[][]
+): void {
+  const groups = sizes.length;
+
+  // Build initial set with all indices
+  const allIndices = items.map((_, i) => i);
+  const initial: PartitionSet = {
+    indices: allIndices,
+    sum: items.reduce((acc, it) => acc + it.capacity, 0),
+  };
+
+  // Priority of sets to split: always split the largest-sum set next
+  const partitions: PartitionSet[] = [initial];
+
+  while (partitions.length < groups) {
+    // Pick the set with largest sum to split
+    partitions.sort((a, b) => b.sum - a.sum);
+    const top = partitions.shift()!;
+    if (!top || top.indices.length <= 1) {
+      // Cannot split further meaningfully; break to avoid infinite loop
+      break;
+    }
+    const [left, right] = splitIntoTwo(items, top.indices);
+    const sumL = left.reduce((acc, idx) => acc + items[idx]!.capacity, 0);
+    const sumR = right.reduce((acc, idx) => acc + items[idx]!.capacity, 0);
+    partitions.push({ indices: left, sum: sumL });
+    partitions.push({ indices: right, sum: sumR });
+  }
+
+  // If we have more than needed due to degeneracy, merge smallest sets until exactly groups
+  while (partitions.length > groups) {
+    partitions.sort((a, b) => a.sum - b.sum);
+    const a = partitions.shift()!;
+    const b = partitions.shift()!;
+    const merged = {
+      indices: a.indices.concat(b.indices),
+      sum: a.sum + b.sum,
+    };
+    partitions.push(merged);
+  }
+
+  // Convert to groupsByIndex, pairing the most populated partitions with the
+  // largest required sizes so that uneven sizes need as little repair as possible
+  const bySize = sizes
+    .map((size, g) => ({ size, g }))
+    .sort((a, b) => b.size - a.size || a.g - b.g);
+  const byCount = partitions
+    .map(p => [...p.indices])
+    .sort((a, b) => b.length - a.length);
+  for (let k = 0; k < groups; k++) {
+    groupsByIndex[bySize[k]!.g] = byCount[k] ?? [];
+  }
+}
+
+/**
+ * Repair groups to ensure group g has exactly sizes[g] elements while keeping sums balanced
  */
 function repairToExactSizes(
   items: Item[],
   groupsByIndex: number[][],
-  groupSize: number,
-  maxIters: number = 500
+  sizes: number[],
+  maxIters: number = 500,
+  shares?: number[]
 ): void {
   const groups = groupsByIndex.length;
   const sums = new Array<number>(groups).fill(0);
@@ -54,13 +150,13 @@ function repairToExactSizes(
     let donor = -1;
     let receiver = -1;
     for (let g = 0; g < groups; g++) {
-      if (groupsByIndex[g]!.length > groupSize && donor === -1) donor = g;
-      if (groupsByIndex[g]!.length < groupSize && receiver === -1) receiver = g;
+      if (groupsByIndex[g]!.length > sizes[g]! && donor === -1) donor = g;
+      if (groupsByIndex[g]!.length < sizes[g]! && receiver === -1) receiver = g;
     }
     if (donor === -1 || receiver === -1) break; // sizes satisfied
 
     // Choose the donor item that best reduces delta when moved to receiver
-    const currentDelta = Math.max(...sums) - Math.min(...sums);
+    const currentDelta = normalizedSpread(sums, shares);
     let bestIdxInDonor = -1;
     let bestDelta = currentDelta;
 
@@ -72,7 +168,7 @@ function repairToExactSizes(
       const temp = [...sums];
       temp[donor] = newSumDonor;
       temp[receiver] = newSumReceiver;
-      const d = Math.max(...temp) - Math.min(...temp);
+      const d = normalizedSpread(temp, shares);
       if (d <= bestDelta) {
         bestDelta = d;
         bestIdxInDonor = i;
@@ -92,12 +188,63 @@ function repairToExactSizes(
 }
 
 /**
- * Local 1↔1 swap optimization (preserves exact group sizes)
+ * Moves every pinned item into its group by exchanging it with the free item
+ * of that group whose swap keeps the (normalized) spread lowest
+ */
+function applyPins(
+  items: Item[],
+  groupsByIndex: number[][],
+  pinOf: (number | undefined)[],
+  shares?: number[]
+): void {
+  const sums = groupsByIndex.map(g =>
+    g.reduce((acc, idx) => acc + items[idx]!.capacity, 0)
+  );
+  for (let idx = 0; idx < items.length; idx++) {
+    const target = pinOf[idx];
+    if (target === undefined) continue;
+    const from = groupsByIndex.findIndex(g => g.includes(idx));
+    if (from === target) continue;
+
+    const cap = items[idx]!.capacity;
+    let bestPos = -1;
+    let bestSpread = Infinity;
+    groupsByIndex[target]!.forEach((other, pos) => {
+      // Items already pinned here stay; items pinned elsewhere may leave
+      if (pinOf[other] === target) return;
+      const diff = items[other]!.capacity - cap;
+      const temp = [...sums];
+      temp[from] = temp[from]! + diff;
+      temp[target] = temp[target]! - diff;
+      const spread = normalizedSpread(temp, shares);
+      if (spread < bestSpread) {
+        bestSpread = spread;
+        bestPos = pos;
+      }
+    });
+    if (bestPos === -1) {
+      throw new Error(`No free slot in group ${target} for a pinned item`);
+    }
+
+    const other = groupsByIndex[target]![bestPos]!;
+    const diff = items[other]!.capacity - cap;
+    groupsByIndex[target]![bestPos] = idx;
+    groupsByIndex[from]![groupsByIndex[from]!.indexOf(idx)] = other;
+    sums[from] = sums[from]! + diff;
+    sums[target] = sums[target]! - diff;
+  }
+}
+
+/**
+ * Local 1↔1 swap optimization (preserves exact group sizes, never moves
+ * pinned items)
  */
 function localOptimizeOneOne(
   items: Item[],
   groupsByIndex: number[][],
-  maxLocalIters: number = 200
+  maxLocalIters: number = 200,
+  shares?: number[],
+  pinOf?: (number | undefined)[]
 ): number {
   const groups = groupsByIndex.length;
   let iters = 0;
@@ -114,7 +261,7 @@ function localOptimizeOneOne(
   while (improved && iters < maxLocalIters) {
     improved = false;
     iters++;
-    const currentDelta = Math.max(...sums) - Math.min(...sums);
+    const currentDelta = normalizedSpread(sums, shares);
 
     for (let g1 = 0; g1 < groups; g1++) {
       for (let g2 = g1 + 1; g2 < groups; g2++) {
@@ -122,6 +269,12 @@ function localOptimizeOneOne(
           for (let i2 = 0; i2 < groupsByIndex[g2]!.length; i2++) {
             const idx1 = groupsByIndex[g1]![i1]!;
             const idx2 = groupsByIndex[g2]![i2]!;
+            if (
+              pinOf &&
+              (pinOf[idx1] !== undefined || pinOf[idx2] !== undefined)
+            ) {
+              continue;
+            }
             const cap1 = items[idx1]!.capacity;
             const cap2 = items[idx2]!.capacity;
 
@@ -130,7 +283,7 @@ function localOptimizeOneOne(
             const temp = [...sums];
             temp[g1] = newSum1;
             temp[g2] = newSum2;
-            const newDelta = Math.max(...temp) - Math.min(...temp);
+            const newDelta = normalizedSpread(temp, shares);
             if (newDelta < currentDelta) {
               // apply swap
               groupsByIndex[g1]![i1] = idx2;
@@ -151,64 +304,314 @@ function localOptimizeOneOne(
   return iters;
 }
 
+// Largest group count the complete search branches over (k! pairings)
+const MAX_COMPLETE_GROUPS = 6;
+
 /**
- * KK-inspired k-way partition: build k partitions via recursive 2-way splits, then repair sizes
+ * Partial k-way partition of the differencing methods: slot sums shifted so
+ * the smallest is 0 and sorted descending, with the item count and the items
+ * of every slot
  */
-export function kk(
+interface Tuple {
+  sums: number[];
+  counts: number[];
+  members: number[][];
+}
+
+function tupleSpread(tuple: Tuple): number {
+  return tuple.sums[0]! - tuple.sums[tuple.sums.length - 1]!;
+}
+
+function normalizeTuple(
+  sums: number[],
+  counts: number[],
+  members: number[][]
+): Tuple {
+  const order = sums
+    .map((_, s) => s)
+    .sort((a, b) => sums[b]! - sums[a]! || counts[a]! - counts[b]!);
+  const min = sums[order[order.length - 1]!]!;
+  return {
+    sums: order.map(s => sums[s]! - min),
+    counts: order.map(s => counts[s]!),
+    members: order.map(s => members[s]!),
+  };
+}
+
+/**
+ * Joins slot s of `a` with slot pairing[s] of `b`
+ */
+function combineTuples(a: Tuple, b: Tuple, pairing: number[]): Tuple {
+  return normalizeTuple(
+    a.sums.map((sum, s) => sum + b.sums[pairing[s]!]!),
+    a.counts.map((count, s) => count + b.counts[pairing[s]!]!),
+    a.members.map((m, s) => m.concat(b.members[pairing[s]!]!))
+  );
+}
+
+function byCapacity(items: Item[]): number[] {
+  return items
+    .map((_, idx) => idx)
+    .sort((a, b) => items[b]!.capacity - items[a]!.capacity || a - b);
+}
+
+/**
+ * Inserts a tuple into a list kept in descending spread order
+ */
+function insertBySpread(list: Tuple[], tuple: Tuple): void {
+  const spread = tupleSpread(tuple);
+  let lo = 0;
+  let hi = list.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (tupleSpread(list[mid]!) >= spread) lo = mid + 1;
+    else hi = mid;
+  }
+  list.splice(lo, 0, tuple);
+}
+
+/**
+ * Balanced largest differencing method (BLDM) for k groups of equal size.
+ * Every block of k consecutive items by descending capacity starts as one
+ * tuple with an item per slot; the two tuples of largest spread are joined,
+ * the largest slot of one with the smallest of the other, until one is left.
+ * Each group so takes exactly one item of every block.
+ */
+function bldm(items: Item[], groups: number): number[][] {
+  const order = byCapacity(items);
+  const list: Tuple[] = [];
+  for (let start = 0; start < order.length; start += groups) {
+    const block = order.slice(start, start + groups);
+    insertBySpread(
+      list,
+      normalizeTuple(
+        block.map(idx => items[idx]!.capacity),
+        block.map(() => 1),
+        block.map(idx => [idx])
+      )
+    );
+  }
+  const reversed = Array.from({ length: groups }, (_, s) => groups - 1 - s);
+  while (list.length > 1) {
+    const a = list.shift()!;
+    const b = list.shift()!;
+    insertBySpread(list, combineTuples(a, b, reversed));
+  }
+  return list[0]!.members;
+}
+
+/**
+ * Every pairing of the slots of `b` with those of `a` that keeps each slot
+ * within `groupSize` items, skipping pairings that give the same slots,
+ * ordered by the spread they leave
+ */
+function pairingsOf(a: Tuple, b: Tuple, groupSize: number): number[][] {
+  const k = a.sums.length;
+  const seen = new Set<string>();
+  const found: { pairing: number[]; spread: number }[] = [];
+  const pairing: number[] = [];
+  const used = new Array<boolean>(k).fill(false);
+  const visit = (s: number): void => {
+    if (s === k) {
+      const slots = a.sums
+        .map((sum, i) => [
+          sum + b.sums[pairing[i]!]!,
+          a.counts[i]! + b.counts[pairing[i]!]!,
+        ])
+        .sort((x, y) => y[0]! - x[0]! || x[1]! - y[1]!);
+      const key = slots.join(';');
+      if (seen.has(key)) return;
+      seen.add(key);
+      found.push({
+        pairing: [...pairing],
+        spread: slots[0]![0]! - slots[k - 1]![0]!,
+      });
+      return;
+    }
+    for (let j = 0; j < k; j++) {
+      if (used[j] || a.counts[s]! + b.counts[j]! > groupSize) continue;
+      used[j] = true;
+      pairing.push(j);
+      visit(s + 1);
+      pairing.pop();
+      used[j] = false;
+    }
+  };
+  visit(0);
+  return found.sort((x, y) => x.spread - y.spread).map(f => f.pairing);
+}
+
+/**
+ * Complete Karmarkar–Karp (CKK) search for k groups of `groupSize` items.
+ * Every item starts as its own tuple; the two tuples of largest spread are
+ * joined in every distinct pairing that keeps slot counts within
+ * `groupSize`, best pairing first, so every partition is reachable. A node
+ * is pruned when its largest spread minus the others' total cannot beat the
+ * incumbent. Anytime: stops at the time or node limit and reports the best
+ * proven lower bound.
+ */
+function completeKK(
   items: Item[],
   groups: number,
   groupSize: number,
-  options: { maxRepairIters?: number; maxLocalIters?: number } = {}
-): Grouping {
+  incumbent: number[][],
+  timeLimitMs: number,
+  maxNodes: number
+): { groupsByIndex: number[][]; bound: number; proven: boolean } {
   const startTime = performance.now();
-  const { maxRepairIters = 1000, maxLocalIters = 300 } = options;
+  const capacities = items.map(item => item.capacity);
+  const sumsOf = (groupsByIndex: number[][]): number[] =>
+    groupsByIndex.map(g => g.reduce((acc, idx) => acc + capacities[idx]!, 0));
+  const incumbentSums = sumsOf(incumbent);
+  const total = capacities.reduce((acc, c) => acc + c, 0);
+  // Integer sums that cannot split evenly differ by at least 1
+  const floorBound =
+    capacities.every(c => Number.isInteger(c)) && total % groups !== 0 ? 1 : 0;
+  const boundOf = (list: Tuple[]): number => {
+    let rest = 0;
+    for (let t = 1; t < list.length; t++) rest += tupleSpread(list[t]!);
+    return Math.max(floorBound, tupleSpread(list[0]!) - rest);
+  };
 
-  try {
-    // Build initial set with all indices
-    const allIndices = items.map((_, i) => i);
-    const initial: PartitionSet = {
-      indices: allIndices,
-      sum: items.reduce((acc, it) => acc + it.capacity, 0),
-    };
+  let best = incumbent;
+  let bestValue = Math.max(...incumbentSums) - Math.min(...incumbentSums);
+  let nodes = 0;
+  let stopped = false;
+  // Smallest bound of the subtrees left unexplored when the search stopped
+  let openBound = Infinity;
 
-    // Priority of sets to split: always split the largest-sum set next
-    const partitions: PartitionSet[] = [initial];
-
-    while (partitions.length < groups) {
-      // Pick the set with largest sum to split
-      partitions.sort((a, b) => b.sum - a.sum);
-      const top = partitions.shift()!;
-      if (!top || top.indices.length <= 1) {
-        // Cannot split further meaningfully; break to avoid infinite loop
-        break;
+  const search = (list: Tuple[]): void => {
+    nodes++;
+    if (list.length === 1) {
+      const value = tupleSpread(list[0]!);
+      if (value < bestValue - 1e-9) {
+        bestValue = value;
+        best = list[0]!.members.map(m => [...m]);
       }
-      const [left, right] = splitIntoTwo(items, top.indices);
-      const sumL = left.reduce((acc, idx) => acc + items[idx]!.capacity, 0);
-      const sumR = right.reduce((acc, idx) => acc + items[idx]!.capacity, 0);
-      partitions.push({ indices: left, sum: sumL });
-      partitions.push({ indices: right, sum: sumR });
+      return;
     }
-
-    // If we have more than needed due to degeneracy, merge smallest sets until exactly groups
-    while (partitions.length > groups) {
-      partitions.sort((a, b) => a.sum - b.sum);
-      const a = partitions.shift()!;
-      const b = partitions.shift()!;
-      const merged = {
-        indices: a.indices.concat(b.indices),
-        sum: a.sum + b.sum,
-      };
-      partitions.push(merged);
+    const [a, b] = list as [Tuple, Tuple];
+    const rest = list.slice(2);
+    for (const pairing of pairingsOf(a, b, groupSize)) {
+      if (bestValue <= floorBound + 1e-9) return;
+      const child = [...rest];
+      insertBySpread(child, combineTuples(a, b, pairing));
+      const bound = boundOf(child);
+      if (bound >= bestValue - 1e-9) continue;
+      if (
+        !stopped &&
+        (nodes >= maxNodes || performance.now() - startTime > timeLimitMs)
+      ) {
+        stopped = true;
+      }
+      if (stopped) {
+        openBound = Math.min(openBound, bound);
+        continue;
+      }
+      search(child);
     }
+  };
 
-    // Convert to groupsByIndex
-    const groupsByIndex = partitions.map(p => [...p.indices]);
+  const list: Tuple[] = [];
+  for (const idx of byCapacity(items)) {
+    const sums = new Array<number>(groups).fill(0);
+    const counts = new Array<number>(groups).fill(0);
+    const members: number[][] = Array.from({ length: groups }, () => []);
+    sums[0] = capacities[idx]!;
+    counts[0] = 1;
+    members[0]!.push(idx);
+    insertBySpread(list, normalizeTuple(sums, counts, members));
+  }
+  search(list);
+
+  const bound = Math.min(bestValue, openBound);
+  return {
+    groupsByIndex: best,
+    bound,
+    proven: bound >= bestValue - 1e-9,
+  };
+}
+
+/**
+ * Karmarkar–Karp k-way partition. Equal group sizes use the balanced largest
+ * differencing method (BLDM), which keeps every size exact; with `complete`
+ * the complete search (CKK, up to 6 groups, no pins) then improves on it
+ * until `timeLimitMs` and can prove the result optimal. Uneven sizes build
+ * k partitions via recursive 2-way splits, then repair sizes.
+ * With groupTargets, splits are proportional to the targets and refinement
+ * minimizes the normalized deviation. Pinned items are swapped into their
+ * group after the split and never moved afterwards.
+ */
+export function kk(
+  items: Item[],
+  groups: number,
+  groupSize: number,
+  options: {
+    maxRepairIters?: number;
+    maxLocalIters?: number;
+    groupSizes?: number[];
+    groupTargets?: number[];
+    pinned?: PinnedItems;
+    complete?: boolean; // Run the anytime complete search after BLDM
+    timeLimitMs?: number; // Budget of the complete search (default: 1000)
+    maxNodes?: number; // Cap on complete search nodes (default: 1000000)
+  } = {}
+): Grouping {
+  const startTime = performance.now();
+  const {
+    maxRepairIters = 1000,
+    maxLocalIters = 300,
+    groupTargets,
+    timeLimitMs = 1000,
+    maxNodes = 1000000,
+  } = options;
+  const sizes = resolveGroupSizes(groups, groupSize, options.groupSizes);
+  const shares = targetShares(groupTargets);
+  const equalSizes = sizes.every(size => size === sizes[0]);
+
+  try {
+    let groupsByIndex: number[][] = Array.from({ length: groups }, () => []);
+    const pinOf = resolvePinned(items, options.pinned);
+    let search: ReturnType<typeof completeKK> | undefined;
+    if (groupTargets) {
+      splitByTargets(
+        items,
+        items.map((_, i) => i),
+        Array.from({ length: groups }, (_, g) => g),
+        groupTargets,
+        groupsByIndex
+      );
+    } else if (equalSizes) {
+      groupsByIndex = bldm(items, groups);
+      if (options.complete && !pinOf && groups <= MAX_COMPLETE_GROUPS) {
+        search = completeKK(
+          items,
+          groups,
+          sizes[0]!,
+          groupsByIndex,
+          timeLimitMs,
+          maxNodes
+        );
+        groupsByIndex = search.groupsByIndex;
+      }
+    } else {
+      splitEvenly(items, sizes, groupsByIndex);
+    }
 
     // Repair to exact sizes
-    repairToExactSizes(items, groupsByIndex, groupSize, maxRepairIters);
+    repairToExactSizes(items, groupsByIndex, sizes, maxRepairIters, shares);
+
+    // Move pinned items into their groups
+    if (pinOf) applyPins(items, groupsByIndex, pinOf, shares);
 
     // Local 1-1 swap optimization to reduce delta further
-    const localIters = localOptimizeOneOne(items, groupsByIndex, maxLocalIters);
+    const localIters = localOptimizeOneOne(
+      items,
+      groupsByIndex,
+      maxLocalIters,
+      shares,
+      pinOf
+    );
 
     // Final sums and metrics
     const groupSums = groupsByIndex.map(g =>
@@ -225,15 +628,22 @@ export function kk(
     // Build groupsById
     const groupsById = groupsByIndex.map(g => g.map(idx => items[idx]!.id));
 
-    return {
+    const result: Grouping = {
       groupsById,
       groupsByIndex,
       groupSums,
       delta,
       stdev,
       iterations: 1 + localIters,
-      methodUsed: 'kk',
+      methodUsed: search ? 'ckk' : 'kk',
     };
+    if (search) {
+      result.isOptimal = search.proven && delta <= search.bound + 1e-9;
+      result.bound = search.bound;
+      result.mipGap =
+        delta > 0 ? Math.max(0, (delta - search.bound) / delta) : 0;
+    }
+    return result;
   } catch (error) {
     const endTime = performance.now();
     throw createAlgorithmError(
@@ -0,0 +1,140 @@
+import { Grouping, Item } from '../types.js';
+import { createAlgorithmError } from '../errors.js';
+import { resolveGroupSizes } from '../utils/groupSizes.js';
+import { centroid, distance } from '../utils/spatial.js';
+import { localRefine } from './localRefine.js';
+
+export interface BalancedKMeansOptions {
+  groupSizes?: number[]; // Uneven group sizes (default: groupSize each)
+  seed?: number; // Picks the first center
+  maxIters?: number; // Assignment / center update rounds (default: 20)
+  compactnessWeight?: number; // Weight of compactness against balance (default: 1)
+  useRefinement?: boolean; // Swap refinement of balance + compactness (default: true)
+  maxRefinementIters?: number; // Cap on refinement iterations (default: 100)
+  timeLimitMs?: number; // Budget shared by clustering and refinement (default: unlimited)
+}
+
+/**
+ * Capacitated nearest-center assignment: (item, center) pairs are taken in
+ * order of increasing distance while the center's group has room
+ */
+function assignToCenters(
+  positions: number[][],
+  centers: number[][],
+  sizes: number[]
+): number[][] {
+  const pairs: [number, number, number][] = [];
+  positions.forEach((p, idx) => {
+    centers.forEach((c, g) => pairs.push([distance(p, c), idx, g]));
+  });
+  pairs.sort((a, b) => a[0] - b[0] || a[1] - b[1] || a[2] - b[2]);
+
+  const groupsByIndex: number[][] = sizes.map(() => []);
+  const assigned = new Array<boolean>(positions.length).fill(false);
+  for (const [, idx, g] of pairs) {
+    if (assigned[idx] || groupsByIndex[g]!.length >= sizes[g]!) continue;
+    groupsByIndex[g]!.push(idx);
+    assigned[idx] = true;
+  }
+  return groupsByIndex;
+}
+
+/**
+ * Balanced k-means for spatially compact groups: items carrying `position`
+ * are clustered around `groups` centers (farthest-point seeding from a seeded
+ * first center), each group filled to its exact size with the nearest
+ * remaining items, and centers moved to their group centroids until the
+ * assignment is stable. Swap refinement then balances group sums against
+ * compactness (sum of member distances to the group centroid). Both stop at
+ * `timeLimitMs`, keeping the grouping reached so far.
+ */
+export function balancedKMeans(
+  items: Item[],
+  groups: number,
+  groupSize: number,
+  options: BalancedKMeansOptions = {}
+): Grouping {
+  const {
+    seed,
+    maxIters = 20,
+    compactnessWeight = 1,
+    useRefinement = true,
+    maxRefinementIters = 100,
+    timeLimitMs = Infinity,
+  } = options;
+  const deadline = performance.now() + timeLimitMs;
+  try {
+    if (!items.every(item => item.position)) {
+      throw new Error('Every item needs a position');
+    }
+    const positions = items.map(item => item.position!);
+    const sizes = resolveGroupSizes(groups, groupSize, options.groupSizes);
+
+    // Farthest-point seeding
+    const first = ((seed ?? 0) >>> 0) % items.length;
+    const centers = [positions[first]!.slice()];
+    const nearest = positions.map(p => distance(p, centers[0]!));
+    while (centers.length < groups) {
+      let far = 0;
+      nearest.forEach((d, idx) => {
+        if (d > nearest[far]!) far = idx;
+      });
+      centers.push(positions[far]!.slice());
+      positions.forEach((p, idx) => {
+        nearest[idx] = Math.min(nearest[idx]!, distance(p, positions[far]!));
+      });
+    }
+
+    let groupsByIndex = assignToCenters(positions, centers, sizes);
+    let iterations = 1;
+    while (iterations < maxIters && performance.now() < deadline) {
+      groupsByIndex.forEach((members, g) => {
+        centers[g] = centroid(positions, members);
+      });
+      const next = assignToCenters(positions, centers, sizes);
+      iterations++;
+      const stable = next.every(
+        (members, g) =>
+          members.length === groupsByIndex[g]!.length &&
+          members.every(idx => groupsByIndex[g]!.includes(idx))
+      );
+      groupsByIndex = next;
+      if (stable) break;
+    }
+
+    let refinementApplied = false;
+    if (useRefinement) {
+      const refined = localRefine(items, groupsByIndex, {
+        maxIters: maxRefinementIters,
+        timeLimitMs: Math.max(0, deadline - performance.now()),
+        enable22: items.length <= 40,
+        compactnessWeight,
+      });
+      refinementApplied = refined.improvements > 0;
+    }
+
+    const groupSums = groupsByIndex.map(g =>
+      g.reduce((acc, idx) => acc + items[idx]!.capacity, 0)
+    );
+    const mean = groupSums.reduce((acc, s) => acc + s, 0) / groupSums.length;
+    const variance =
+      groupSums.reduce((acc, s) => acc + Math.pow(s - mean, 2), 0) /
+      groupSums.length;
+    return {
+      groupsById: groupsByIndex.map(g => g.map(idx => items[idx]!.id)),
+      groupsByIndex,
+      groupSums,
+      delta: Math.max(...groupSums) - Math.min(...groupSums),
+      stdev: Math.sqrt(variance),
+      iterations,
+      methodUsed: refinementApplied ? 'kmeans-refined' : 'kmeans',
+    };
+  } catch (error) {
+    throw createAlgorithmError(
+      'kmeans',
+      'balanced clustering',
+      error instanceof Error ? error.message : 'Unknown error',
+      { itemCount: items.length, groups, groupSize }
+    );
+  }
+}
@@ -1,14 +1,68 @@
-import { Item } from '../types.js';
+import {
+  Affinity,
+  DimensionObjective,
+  Item,
+  ItemAssignment,
+  ItemConstraints,
+  Objective,
+  PinnedItems,
+} from '../types.js';
+import {
+  dimensionScore,
+  getCapacityVectors,
+  getDimensionCount,
+  computeGroupLoads,
+  loadPeak,
+  resolveDimensionObjective,
+} from '../utils/dimensions.js';
+import { objectiveScore } from '../utils/objective.js';
+import { targetShares } from '../utils/targets.js';
+import { buildConstraintModel, canSwap } from '../utils/constraints.js';
+import { itemStrata, sameStrata } from '../utils/strata.js';
+import {
+  buildMigrationModel,
+  migrationCost,
+  moveCostDelta,
+} from '../utils/migration.js';
+import { assignmentCost, buildAffinityModel } from '../utils/affinity.js';
+import { capOverflow, resolveCaps } from '../utils/caps.js';
+import {
+  buildFeatureModel,
+  centroidSpread,
+  featureSums,
+} from '../utils/features.js';
+import {
+  buildSpatialModel,
+  compactnessOf,
+  groupCompactness,
+} from '../utils/spatial.js';
 
 export type SwapStrategy = 'best' | 'stochastic';
 
 export interface LocalRefineOptions {
   maxIters?: number;
+  timeLimitMs?: number; // Stop scanning once exceeded, keeping the swaps made (default: unlimited)
   strategy?: SwapStrategy;
   enable11?: boolean;
   enable12?: boolean; // Declared but skipped when strict group sizes are required
   enable22?: boolean;
   seed?: number; // Used for stochastic strategy
+  dimensionWeights?: number[]; // Used when items carry capacity vectors
+  dimensionObjective?: DimensionObjective;
+  groupTargets?: number[]; // Balance sums relative to per-group targets
+  constraints?: ItemConstraints; // Swaps never break must-link / cannot-link pairs
+  pinned?: PinnedItems; // Pinned items are excluded from every swap
+  stratify?: boolean; // Only swap items of the same category (keeps quotas)
+  objective?: Objective; // Accept swaps that lower this score (scalar items)
+  baseline?: ItemAssignment; // Moving items off the baseline adds a penalty
+  moveCost?: number | Record<string | number, number>; // Per-move cost (default: 1)
+  moveCostWeight?: number; // Weight λ of the total move cost (default: 1)
+  affinity?: Affinity; // Per item and group placement cost
+  affinityWeight?: number; // Weight of the total placement cost (default: 1)
+  maxGroupSum?: number | number[]; // Swaps never push a group further over its cap
+  featureWeight?: number; // Weight of the feature centroid spread under 'anticlustering'
+  pairCost?: number[][]; // Symmetric cost of two items (by index) sharing a group
+  compactnessWeight?: number; // Weight of the distances to group centroids (items with `position`)
 }
 
 export interface LocalRefineResult {
@@ -20,7 +74,25 @@ export interface LocalRefineResult {
 
 /**
  * Local refinement of an existing grouping using swap operations preserving exact group sizes.
+ * Groups may have different sizes; every swap keeps each group's cardinality unchanged.
+ * Items carrying `capacities` (or a `profile`) are balanced on every
+ * dimension at once; under 'peak', cached group peaks keep swaps cheap.
+ * With groupTargets, the spread of sums divided by each group's share is minimized.
+ * With constraints, swaps that would split a must-link cluster or join a
+ * cannot-link pair are never made; pinned items never move.
+ * With stratify, only items of the same category are exchanged, so every
+ * group keeps its category counts.
+ * For scalar items, an `objective` replaces delta as the acceptance score.
+ * With a baseline, λ × (cost of the items off their baseline group) is added
+ * to the score, trading balance against migrations. Likewise, an affinity
+ * adds its weighted total placement cost, and the 'anticlustering' objective
+ * adds the weighted spread of the group feature centroids. A `pairCost`
+ * matrix adds the cost of every pair of items sharing a group. Items carrying
+ * `position` add the weighted compactness (distances to group centroids).
+ * With maxGroupSum, the total excess over the caps is minimized first and the
+ * score only breaks ties, so feasible groupings stay feasible.
  * Currently supports 1↔1 and 2↔2 swaps. 1↔2 swaps are skipped under strict group-size constraints.
+ * At `timeLimitMs` the scan stops; the best swap found so far is still made.
  */
 export function localRefine(
   items: Item[],
@@ -29,21 +101,39 @@ export function localRefine(
 ): LocalRefineResult {
   const {
     maxIters = 200,
+    timeLimitMs = Infinity,
     strategy = 'best',
     enable11 = true,
     enable12 = false, // Skipped under strict size constraints
     enable22 = true,
     seed,
   } = options;
+  const dimensionOptions = {
+    weights: options.dimensionWeights,
+    objective: resolveDimensionObjective(items, options.dimensionObjective),
+    shares: targetShares(options.groupTargets),
+  };
+
+  const model = buildConstraintModel(
+    items,
+    options.constraints,
+    options.pinned
+  );
+  const strata = options.stratify ? itemStrata(items) : undefined;
+  const migration = buildMigrationModel(items, options);
 
   const groups = groupsByIndex.length;
-  const groupSize = groupsByIndex[0]?.length ?? 0;
-  // Ensure all groups have same size
-  for (let g = 1; g < groups; g++) {
-    if ((groupsByIndex[g]?.length ?? 0) !== groupSize) {
-      throw new Error('localRefine requires equal-sized groups');
-    }
-  }
+  const affinity = buildAffinityModel(items, options, groups);
+  const features = buildFeatureModel(items, options);
+  const spatial = buildSpatialModel(items, options);
+  const caps = resolveCaps(options.maxGroupSum, groups);
+  const sizes = groupsByIndex.map(g => g.length);
+  const totalSlots = sizes.reduce((acc, n) => acc + n, 0);
+
+  // Per-group load vectors; scalar items are balanced as a single dimension
+  const vectors = getCapacityVectors(items);
+  const dims = vectors[0]?.length ?? 1;
+  const loads = computeGroupLoads(vectors, groupsByIndex);
 
   const groupSums: number[] = new Array(groups);
   for (let g = 0; g < groups; g++) {
@@ -53,10 +143,37 @@ export function localRefine(
     }
     groupSums[g] = s;
   }
+  let overflow = caps ? capOverflow(groupSums, caps) : 0;
+  const groupFeatures = features
+    ? featureSums(features.vectors, groupsByIndex)
+    : [];
+  const compactness = spatial
+    ? groupCompactness(spatial.positions, groupsByIndex)
+    : [];
+  // pairToGroup[idx][g]: total pair cost of item idx with the members of g
+  const { pairCost } = options;
+  const pairToGroup = pairCost
+    ? items.map((_, idx) =>
+        groupsByIndex.map(members =>
+          members.reduce((acc, j) => acc + pairCost[idx]![j]!, 0)
+        )
+      )
+    : [];
 
   let iterations = 0;
   let improvements = 0;
 
+  // The clock is read once every 256 evaluated swaps
+  const deadline = performance.now() + timeLimitMs;
+  let evaluations = 0;
+  let timedOut = false;
+  const expired = (): boolean => {
+    if (!timedOut && ++evaluations % 256 === 0) {
+      timedOut = performance.now() > deadline;
+    }
+    return timedOut;
+  };
+
   // Simple LCG for deterministic randomness
   let randState = (seed ?? 123456789) >>> 0;
   const rand = (): number => {
@@ -64,76 +181,235 @@ export function localRefine(
     return randState / 0xffffffff;
   };
 
-  const getDelta = (): number =>
-    Math.max(...groupSums) - Math.min(...groupSums);
+  const { objective } = options;
+  const scalarObjective =
+    objective !== undefined && getDimensionCount(items) === 0;
+  const balanceScore = (): number =>
+    scalarObjective
+      ? objectiveScore(
+          loads.map(load => load[0]!),
+          objective,
+          dimensionOptions.shares
+        )
+      : dimensionScore(loads, dimensionOptions);
+  // Weighted migration, placement and feature costs of the current grouping
+  let penalty =
+    (migration
+      ? migration.weight * migrationCost(migration, groupsByIndex)
+      : 0) +
+    (affinity ? affinity.weight * assignmentCost(affinity, groupsByIndex) : 0) +
+    (features
+      ? features.weight * centroidSpread(features.vectors, groupsByIndex)
+      : 0);
+  if (spatial) {
+    penalty += spatial.weight * compactness.reduce((acc, c) => acc + c, 0);
+  }
+  if (pairCost) {
+    for (const members of groupsByIndex) {
+      for (let a = 0; a < members.length; a++) {
+        for (let b = a + 1; b < members.length; b++) {
+          penalty += pairCost[members[a]!]![members[b]!]!;
+        }
+      }
+    }
+  }
+  const getScore = (): number => balanceScore() + penalty;
+
+  // Load vector of a group after removing `out` and adding `incoming`
+  function loadAfter(g: number, out: number[], incoming: number[]): number[] {
+    const load = loads[g]!.slice();
+    for (let d = 0; d < dims; d++) {
+      for (const idx of out) load[d]! -= vectors[idx]![d]!;
+      for (const idx of incoming) load[d]! += vectors[idx]![d]!;
+    }
+    return load;
+  }
+
+  // Under 'peak' (e.g. load profiles) each group's peak is cached, so a swap
+  // only rescans the periods of the two groups it changes
+  const peakObjective =
+    !scalarObjective && dimensionOptions.objective === 'peak';
+  const peaks = peakObjective
+    ? loads.map((load, g) => loadPeak(load, g, dimensionOptions))
+    : [];
 
-  function apply11IfBetter(
+  // Score of the grouping if groups g1 and g2 had the given loads
+  function scoreWith(
     g1: number,
-    i1: number,
+    load1: number[],
     g2: number,
-    i2: number
-  ): boolean {
-    const idx1 = groupsByIndex[g1]![i1]!;
-    const idx2 = groupsByIndex[g2]![i2]!;
-    const cap1 = items[idx1]!.capacity;
-    const cap2 = items[idx2]!.capacity;
-    const currentDelta = getDelta();
-    const newSum1 = groupSums[g1]! - cap1 + cap2;
-    const newSum2 = groupSums[g2]! - cap2 + cap1;
-    const maxOther = Math.max(
-      ...groupSums.filter((_, gg) => gg !== g1 && gg !== g2)
-    );
-    const minOther = Math.min(
-      ...groupSums.filter((_, gg) => gg !== g1 && gg !== g2)
-    );
-    const newDelta =
-      Math.max(maxOther, newSum1, newSum2) -
-      Math.min(minOther, newSum1, newSum2);
-    if (newDelta < currentDelta) {
-      groupsByIndex[g1]![i1] = idx2;
-      groupsByIndex[g2]![i2] = idx1;
-      groupSums[g1] = newSum1;
-      groupSums[g2] = newSum2;
-      return true;
+    load2: number[]
+  ): number {
+    if (peakObjective) {
+      let score = Math.max(
+        loadPeak(load1, g1, dimensionOptions),
+        loadPeak(load2, g2, dimensionOptions)
+      );
+      for (let g = 0; g < groups; g++) {
+        if (g !== g1 && g !== g2 && peaks[g]! > score) score = peaks[g]!;
+      }
+      return score;
     }
-    return false;
+    const saved1 = loads[g1]!;
+    const saved2 = loads[g2]!;
+    loads[g1] = load1;
+    loads[g2] = load2;
+    const score = balanceScore();
+    loads[g1] = saved1;
+    loads[g2] = saved2;
+    return score;
+  }
+
+  // Whether a move with the given overflow and score beats the reference
+  const isBetter = (
+    move: { score: number; overflow: number },
+    score: number,
+    refOverflow: number
+  ): boolean =>
+    move.overflow < refOverflow ||
+    (move.overflow === refOverflow && move.score < score);
+
+  // Evaluates exchanging `out1` (positions in g1) with `out2` (positions in g2)
+  function evaluateSwap(
+    g1: number,
+    pos1: number[],
+    g2: number,
+    pos2: number[]
+  ): { score: number; overflow: number; apply: () => void } {
+    const idx1 = pos1.map(p => groupsByIndex[g1]![p]!);
+    const idx2 = pos2.map(p => groupsByIndex[g2]![p]!);
+    if (
+      (model && !canSwap(model, groupsByIndex, g1, idx1, g2, idx2)) ||
+      (strata && !sameStrata(strata, idx1, idx2))
+    ) {
+      return { score: Infinity, overflow: Infinity, apply: () => {} };
+    }
+    const load1 = loadAfter(g1, idx1, idx2);
+    const load2 = loadAfter(g2, idx2, idx1);
+    let moved = 0;
+    for (const idx of idx1) moved -= items[idx]!.capacity;
+    for (const idx of idx2) moved += items[idx]!.capacity;
+    let penaltyChange = 0;
+    if (migration) {
+      for (const idx of idx1)
+        penaltyChange += moveCostDelta(migration, idx, g1, g2);
+      for (const idx of idx2)
+        penaltyChange += moveCostDelta(migration, idx, g2, g1);
+      penaltyChange *= migration.weight;
+    }
+    if (affinity) {
+      let costChange = 0;
+      for (const idx of idx1) {
+        costChange += affinity.cost[idx]![g2]! - affinity.cost[idx]![g1]!;
+      }
+      for (const idx of idx2) {
+        costChange += affinity.cost[idx]![g1]! - affinity.cost[idx]![g2]!;
+      }
+      penaltyChange += affinity.weight * costChange;
+    }
+    // Centroid spread is Σ‖featureSum_g‖² / |g| minus a constant
+    let features1: number[] = [];
+    let features2: number[] = [];
+    if (features) {
+      features1 = groupFeatures[g1]!.slice();
+      features2 = groupFeatures[g2]!.slice();
+      let spreadChange = 0;
+      for (let d = 0; d < features1.length; d++) {
+        let shift = 0;
+        for (const idx of idx2) shift += features.vectors[idx]![d]!;
+        for (const idx of idx1) shift -= features.vectors[idx]![d]!;
+        const before1 = features1[d]!;
+        const before2 = features2[d]!;
+        features1[d] = before1 + shift;
+        features2[d] = before2 - shift;
+        spreadChange +=
+          (features1[d]! ** 2 - before1 ** 2) / sizes[g1]! +
+          (features2[d]! ** 2 - before2 ** 2) / sizes[g2]!;
+      }
+      penaltyChange += features.weight * spreadChange;
+    }
+    // Centroids move with the swap, so both groups are measured again
+    let compact1 = 0;
+    let compact2 = 0;
+    if (spatial) {
+      const members1 = groupsByIndex[g1]!.filter((_, p) => !pos1.includes(p));
+      const members2 = groupsByIndex[g2]!.filter((_, p) => !pos2.includes(p));
+      compact1 = compactnessOf(spatial.positions, [...members1, ...idx2]);
+      compact2 = compactnessOf(spatial.positions, [...members2, ...idx1]);
+      penaltyChange +=
+        spatial.weight *
+        (compact1 + compact2 - compactness[g1]! - compactness[g2]!);
+    }
+    // Each moved item leaves the rest of its group and joins the rest of the
+    // other one; pairs among the moved items stay split or together
+    if (pairCost) {
+      const costWith = (idx: number, g: number, leaving: number[]): number =>
+        pairToGroup[idx]![g]! -
+        leaving.reduce((acc, j) => acc + pairCost[idx]![j]!, 0);
+      for (const idx of idx1) {
+        penaltyChange += costWith(idx, g2, idx2) - costWith(idx, g1, idx1);
+      }
+      for (const idx of idx2) {
+        penaltyChange += costWith(idx, g1, idx1) - costWith(idx, g2, idx2);
+      }
+    }
+    const score = scoreWith(g1, load1, g2, load2) + penalty + penaltyChange;
+    let nextOverflow = 0;
+    if (caps) {
+      const sums = groupSums.slice();
+      sums[g1] = sums[g1]! + moved;
+      sums[g2] = sums[g2]! - moved;
+      nextOverflow = capOverflow(sums, caps);
+    }
+    return {
+      score,
+      overflow: nextOverflow,
+      apply: () => {
+        for (let k = 0; k < pos1.length; k++) {
+          groupsByIndex[g1]![pos1[k]!] = idx2[k]!;
+          groupsByIndex[g2]![pos2[k]!] = idx1[k]!;
+        }
+        loads[g1] = load1;
+        loads[g2] = load2;
+        if (peakObjective) {
+          peaks[g1] = loadPeak(load1, g1, dimensionOptions);
+          peaks[g2] = loadPeak(load2, g2, dimensionOptions);
+        }
+        groupSums[g1] = groupSums[g1]! + moved;
+        groupSums[g2] = groupSums[g2]! - moved;
+        if (features) {
+          groupFeatures[g1] = features1;
+          groupFeatures[g2] = features2;
+        }
+        if (spatial) {
+          compactness[g1] = compact1;
+          compactness[g2] = compact2;
+        }
+        if (pairCost) {
+          pairToGroup.forEach((row, idx) => {
+            let shift = 0;
+            for (const j of idx2) shift += pairCost[idx]![j]!;
+            for (const j of idx1) shift -= pairCost[idx]![j]!;
+            row[g1] = row[g1]! + shift;
+            row[g2] = row[g2]! - shift;
+          });
+        }
+        penalty += penaltyChange;
+        overflow = nextOverflow;
+      },
+    };
   }
 
-  function apply22IfBetter(
+  function applyIfBetter(
     g1: number,
-    i1a: number,
-    i1b: number,
+    pos1: number[],
     g2: number,
-    i2a: number,
-    i2b: number
+    pos2: number[]
   ): boolean {
-    const idx1a = groupsByIndex[g1]![i1a]!;
-    const idx1b = groupsByIndex[g1]![i1b]!;
-    const idx2a = groupsByIndex[g2]![i2a]!;
-    const idx2b = groupsByIndex[g2]![i2b]!;
-    const c1a = items[idx1a]!.capacity;
-    const c1b = items[idx1b]!.capacity;
-    const c2a = items[idx2a]!.capacity;
-    const c2b = items[idx2b]!.capacity;
-    const currentDelta = getDelta();
-    const newSum1 = groupSums[g1]! - c1a - c1b + c2a + c2b;
-    const newSum2 = groupSums[g2]! - c2a - c2b + c1a + c1b;
-    const maxOther = Math.max(
-      ...groupSums.filter((_, gg) => gg !== g1 && gg !== g2)
-    );
-    const minOther = Math.min(
-      ...groupSums.filter((_, gg) => gg !== g1 && gg !== g2)
-    );
-    const newDelta =
-      Math.max(maxOther, newSum1, newSum2) -
-      Math.min(minOther, newSum1, newSum2);
-    if (newDelta < currentDelta) {
-      groupsByIndex[g1]![i1a] = idx2a;
-      groupsByIndex[g1]![i1b] = idx2b;
-      groupsByIndex[g2]![i2a] = idx1a;
-      groupsByIndex[g2]![i2b] = idx1b;
-      groupSums[g1] = newSum1;
-      groupSums[g2] = newSum2;
+    const currentScore = getScore();
+    const move = evaluateSwap(g1, pos1, g2, pos2);
+    if (isBetter(move, currentScore, overflow)) {
+      move.apply();
       return true;
     }
     return false;
@@ -141,36 +417,19 @@ export function localRefine(
 
   function iterateBest(): boolean {
     let bestMove: (() => void) | null = null;
-    let bestDelta = getDelta();
+    let bestScore = getScore();
+    let bestOverflow = overflow;
 
     if (enable11) {
-      for (let g1 = 0; g1 < groups; g1++) {
-        for (let g2 = g1 + 1; g2 < groups; g2++) {
-          for (let i1 = 0; i1 < groupSize; i1++) {
-            for (let i2 = 0; i2 < groupSize; i2++) {
-              const idx1 = groupsByIndex[g1]![i1]!;
-              const idx2 = groupsByIndex[g2]![i2]!;
-              const c1 = items[idx1]!.capacity;
-              const c2 = items[idx2]!.capacity;
-              const newSum1 = groupSums[g1]! - c1 + c2;
-              const newSum2 = groupSums[g2]! - c2 + c1;
-              const maxOther = Math.max(
-                ...groupSums.filter((_, gg) => gg !== g1 && gg !== g2)
-              );
-              const minOther = Math.min(
-                ...groupSums.filter((_, gg) => gg !== g1 && gg !== g2)
-              );
-              const newDelta =
-                Math.max(maxOther, newSum1, newSum2) -
-                Math.min(minOther, newSum1, newSum2);
-              if (newDelta < bestDelta) {
-                bestDelta = newDelta;
-                bestMove = (() => {
-                  groupsByIndex[g1]![i1] = idx2;
-                  groupsByIndex[g2]![i2] = idx1;
-                  groupSums[g1] = newSum1;
-                  groupSums[g2] = newSum2;
-                }) as () => void;
+      for (let g1 = 0; g1 < groups && !timedOut; g1++) {
+        for (let g2 = g1 + 1; g2 < groups && !timedOut; g2++) {
+          for (let i1 = 0; i1 < sizes[g1]! && !timedOut; i1++) {
+            for (let i2 = 0; i2 < sizes[g2]! && !expired(); i2++) {
+              const move = evaluateSwap(g1, [i1], g2, [i2]);
+              if (isBetter(move, bestScore, bestOverflow)) {
+                bestScore = move.score;
+                bestOverflow = move.overflow;
+                bestMove = move.apply;
               }
             }
           }
@@ -179,41 +438,17 @@ export function localRefine(
     }
 
     if (enable22) {
-      for (let g1 = 0; g1 < groups; g1++) {
-        for (let g2 = g1 + 1; g2 < groups; g2++) {
-          for (let i1a = 0; i1a < groupSize; i1a++) {
-            for (let i1b = i1a + 1; i1b < groupSize; i1b++) {
-              for (let i2a = 0; i2a < groupSize; i2a++) {
-                for (let i2b = i2a + 1; i2b < groupSize; i2b++) {
-                  const idx1a = groupsByIndex[g1]![i1a]!;
-                  const idx1b = groupsByIndex[g1]![i1b]!;
-                  const idx2a = groupsByIndex[g2]![i2a]!;
-                  const idx2b = groupsByIndex[g2]![i2b]!;
-                  const c1a = items[idx1a]!.capacity;
-                  const c1b = items[idx1b]!.capacity;
-                  const c2a = items[idx2a]!.capacity;
-                  const c2b = items[idx2b]!.capacity;
-                  const newSum1 = groupSums[g1]! - c1a - c1b + c2a + c2b;
-                  const newSum2 = groupSums[g2]! - c2a - c2b + c1a + c1b;
-                  const maxOther = Math.max(
-                    ...groupSums.filter((_, gg) => gg !== g1 && gg !== g2)
-                  );
-                  const minOther = Math.min(
-                    ...groupSums.filter((_, gg) => gg !== g1 && gg !== g2)
-                  );
-                  const newDelta =
-                    Math.max(maxOther, newSum1, newSum2) -
-                    Math.min(minOther, newSum1, newSum2);
-                  if (newDelta < bestDelta) {
-                    bestDelta = newDelta;
-                    bestMove = (() => {
-                      groupsByIndex[g1]![i1a] = idx2a;
-                      groupsByIndex[g1]![i1b] = idx2b;
-                      groupsByIndex[g2]![i2a] = idx1a;
-                      groupsByIndex[g2]![i2b] = idx1b;
-                      groupSums[g1] = newSum1;
-                      groupSums[g2] = newSum2;
-                    }) as () => void;
+      for (let g1 = 0; g1 < groups && !timedOut; g1++) {
+        for (let g2 = g1 + 1; g2 < groups && !timedOut; g2++) {
+          for (let i1a = 0; i1a < sizes[g1]! && !timedOut; i1a++) {
+            for (let i1b = i1a + 1; i1b < sizes[g1]! && !timedOut; i1b++) {
+              for (let i2a = 0; i2a < sizes[g2]! && !timedOut; i2a++) {
+                for (let i2b = i2a + 1; i2b < sizes[g2]! && !expired(); i2b++) {
+                  const move = evaluateSwap(g1, [i1a, i1b], g2, [i2a, i2b]);
+                  if (isBetter(move, bestScore, bestOverflow)) {
+                    bestScore = move.score;
+                    bestOverflow = move.overflow;
+                    bestMove = move.apply;
                   }
                 }
               }
@@ -235,16 +470,17 @@ export function localRefine(
   }
 
   function iterateStochastic(): boolean {
-    const attempts = Math.max(100, groups * groupSize * 2);
+    const attempts = Math.max(100, totalSlots * 2);
 
     if (enable11) {
-      for (let t = 0; t < attempts; t++) {
+      for (let t = 0; t < attempts && !expired(); t++) {
         const g1 = Math.floor(rand() * groups);
         let g2 = Math.floor(rand() * groups);
         if (g2 === g1) g2 = (g2 + 1) % groups;
-        const i1 = Math.floor(rand() * groupSize);
-        const i2 = Math.floor(rand() * groupSize);
-        if (apply11IfBetter(g1, i1, g2, i2)) {
+        if (sizes[g1]! === 0 || sizes[g2]! === 0) continue;
+        const i1 = Math.floor(rand() * sizes[g1]!);
+        const i2 = Math.floor(rand() * sizes[g2]!);
+        if (applyIfBetter(g1, [i1], g2, [i2])) {
           improvements++;
           return true;
         }
@@ -252,17 +488,20 @@ export function localRefine(
     }
 
     if (enable22) {
-      for (let t = 0; t < attempts; t++) {
+      for (let t = 0; t < attempts && !expired(); t++) {
         const g1 = Math.floor(rand() * groups);
         let g2 = Math.floor(rand() * groups);
         if (g2 === g1) g2 = (g2 + 1) % groups;
-        const i1a = Math.floor(rand() * groupSize);
-        let i1b = Math.floor(rand() * groupSize);
-        if (i1b === i1a) i1b = (i1b + 1) % groupSize;
-        const i2a = Math.floor(rand() * groupSize);
-        let i2b = Math.floor(rand() * groupSize);
-        if (i2b === i2a) i2b = (i2b + 1) % groupSize;
-        if (apply22IfBetter(g1, i1a, i1b, g2, i2a, i2b)) {
+        const n1 = sizes[g1]!;
+        const n2 = sizes[g2]!;
+        if (n1 < 2 || n2 < 2) continue;
+        const i1a = Math.floor(rand() * n1);
+        let i1b = Math.floor(rand() * n1);
+        if (i1b === i1a) i1b = (i1b + 1) % n1;
+        const i2a = Math.floor(rand() * n2);
+        let i2b = Math.floor(rand() * n2);
+        if (i2b === i2a) i2b = (i2b + 1) % n2;
+        if (applyIfBetter(g1, [i1a, i1b], g2, [i2a, i2b])) {
           improvements++;
           return true;
         }
@@ -275,7 +514,8 @@ export function localRefine(
   }
 
   let improved = true;
-  while (improved && iterations < maxIters) {
+  while (improved && iterations < maxIters && !timedOut) {
+    if (performance.now() > deadline) break;
     iterations++;
     improved = strategy === 'best' ? iterateBest() : iterateStochastic();
   }
@@ -1,12 +1,67 @@
-import { Item, Grouping } from '../types.js';
+import {
+  Affinity,
+  Item,
+  Grouping,
+  DimensionObjective,
+  ItemConstraints,
+  PinnedItems,
+} from '../types.js';
 import { createAlgorithmError } from '../errors.js';
-import { compareItemsByCapacity } from '../utils/comparators.js';
+import { compareIds, compareItemsByCapacity } from '../utils/comparators.js';
+import { resolveGroupSizes } from '../utils/groupSizes.js';
+import { normalizedSpread, targetShares } from '../utils/targets.js';
+import {
+  ConstraintModel,
+  buildConstraintModel,
+  canSwap,
+  clusterOrder,
+  placeClusters,
+} from '../utils/constraints.js';
+import { itemStrata, placeStratified, sameStrata } from '../utils/strata.js';
+import { AffinityModel, buildAffinityModel } from '../utils/affinity.js';
+import { capExcess, resolveCaps } from '../utils/caps.js';
+import {
+  dimensionScore,
+  getCapacityVectors,
+  getDimensionCount,
+  loadPeak,
+  proxyCapacities,
+  resolveDimensionObjective,
+} from '../utils/dimensions.js';
+import { localRefine } from './localRefine.js';
+import { evaluateDimensions } from './evaluate.js';
 
 const MAX_22_COMBINATIONS = 200000; // Skip 2-2 when C(n1,2)*C(n2,2) exceeds this
 
+/**
+ * Weighted cost of placing the given item indices in group g
+ */
+function placementCost(
+  affinity: AffinityModel | undefined,
+  indices: number[],
+  g: number
+): number {
+  if (!affinity) return 0;
+  let total = 0;
+  for (const idx of indices) total += affinity.cost[idx]![g]!;
+  return affinity.weight * total;
+}
+
 /**
  * LPT (Longest Processing Time) algorithm implementation
- * Greedy assignment by descending capacity with group-size constraint
+ * Greedy assignment by descending capacity with group-size constraint.
+ * When groupSizes is given, group g accepts exactly groupSizes[g] items.
+ * When groupTargets is given, each item goes to the group with the least
+ * normalized load (sum / target share) after placement.
+ * With constraints, must-linked items are placed together as one super-item
+ * and never into a group holding a cannot-linked item; pinned items start in
+ * their group (seeding its sum) and are never swapped.
+ * With stratify, each item only goes to groups with remaining quota for its
+ * category, and refinement only swaps items of the same category.
+ * With an affinity, each item goes to the group minimizing load plus
+ * weighted placement cost, and refinement runs localRefine on the same score.
+ * With maxGroupSum, items only go to groups they fit in (when any) and
+ * refinement runs localRefine, which never increases the excess over caps.
  */
 export function lptPartition(
   items: Item[],
@@ -17,6 +72,14 @@ export function lptPartition(
     maxRefinementIters?: number;
     maxGroupsForRefinement?: number;
     maxGroupSizeForRefinement?: number;
+    groupSizes?: number[];
+    groupTargets?: number[];
+    constraints?: ItemConstraints;
+    pinned?: PinnedItems;
+    stratify?: boolean;
+    affinity?: Affinity;
+    affinityWeight?: number;
+    maxGroupSum?: number | number[];
   } = {}
 ): Grouping {
   const startTime = performance.now();
@@ -26,8 +89,16 @@ export function lptPartition(
     maxGroupsForRefinement = 20,
     maxGroupSizeForRefinement = 50,
   } = options;
+  const sizes = resolveGroupSizes(groups, groupSize, options.groupSizes);
+  const shares = targetShares(options.groupTargets);
 
   try {
+    const model = buildConstraintModel(
+      items,
+      options.constraints,
+      options.pinned
+    );
+
     // Initialize result structures
     const groupsById: (string | number)[][] = Array.from(
       { length: groups },
@@ -36,41 +107,115 @@ export function lptPartition(
     const groupsByIndex: number[][] = Array.from({ length: groups }, () => []);
     const groupSums: number[] = new Array(groups).fill(0);
     const groupCounts: number[] = new Array(groups).fill(0);
+    const strata = options.stratify ? itemStrata(items) : undefined;
+    const affinity = buildAffinityModel(items, options, groups);
+    const caps = resolveCaps(options.maxGroupSum, groups);
+    // Whether adding `load` keeps group g within its cap
+    const fits = (g: number, load: number): boolean =>
+      !caps || capExcess(groupSums[g]! + load, caps[g]!) === 0;
+
+    // Least (normalized) loaded group among `feasible` after adding `load`,
+    // counting the placement cost of `indices`; groups the load fits in
+    // are preferred
+    const leastLoaded = (
+      feasible: number[],
+      load: number,
+      indices: number[]
+    ): number => {
+      const fitting = feasible.filter(g => fits(g, load));
+      let best = feasible[0]!;
+      let bestLoad = Infinity;
+      for (const g of fitting.length > 0 ? fitting : feasible) {
+        const after =
+          (shares ? (groupSums[g]! + load) / shares[g]! : groupSums[g]!) +
+          placementCost(affinity, indices, g);
+        if (after < bestLoad) {
+          best = g;
+          bestLoad = after;
+        }
+      }
+      groupSums[best]! += load;
+      return best;
+    };
 
-    // Create array of items with their original indices
-    const indexedItems = items.map((item, index) => ({ item, index }));
-
-    // Sort items by capacity in descending order (LPT principle)
-    indexedItems.sort((a, b) => compareItemsByCapacity(a.item, b.item));
-
-    // Phase 1: Greedy assignment with group-size constraints
-    for (const { item, index } of indexedItems) {
-      // Find the group with minimum sum that still has space
-      let bestGroup = -1;
-      let bestSum = Infinity;
+    let placed: number[][] | undefined;
+    if (model) {
+      // Phase 1 (constrained): place must-link clusters as super-items
+      const clusterSums = model.clusters.map(c =>
+        c.reduce((acc, idx) => acc + items[idx]!.capacity, 0)
+      );
+      placed = placeClusters(
+        model,
+        sizes,
+        clusterOrder(items, model),
+        (cluster, feasible) =>
+          leastLoaded(feasible, clusterSums[cluster]!, model.clusters[cluster]!)
+      );
+    } else if (options.stratify) {
+      // Phase 1 (stratified): respect each group's category quotas
+      const order = items
+        .map((_, index) => index)
+        .sort((a, b) => compareItemsByCapacity(items[a]!, items[b]!));
+      placed = placeStratified(items, sizes, order, (feasible, index) =>
+        leastLoaded(feasible, items[index]!.capacity, [index])
+      );
+    }
 
+    if (placed) {
       for (let g = 0; g < groups; g++) {
-        if (groupCounts[g]! < groupSize && groupSums[g]! < bestSum) {
-          bestGroup = g;
-          bestSum = groupSums[g]!;
+        groupSums[g] = 0;
+        for (const index of placed[g]!) {
+          groupsById[g]!.push(items[index]!.id);
+          groupsByIndex[g]!.push(index);
+          groupSums[g]! += items[index]!.capacity;
+          groupCounts[g]!++;
         }
       }
+    } else {
+      // Create array of items with their original indices
+      const indexedItems = items.map((item, index) => ({ item, index }));
+
+      // Sort items by capacity in descending order (LPT principle)
+      indexedItems.sort((a, b) => compareItemsByCapacity(a.item, b.item));
+
+      // Phase 1: Greedy assignment with group-size constraints
+      for (const { item, index } of indexedItems) {
+        // Find the group with minimum (normalized) sum that still has space,
+        // among the groups the item fits in when there are any
+        let bestGroup = -1;
+        let bestSum = Infinity;
+
+        for (const requireFit of caps ? [true, false] : [false]) {
+          for (let g = 0; g < groups; g++) {
+            if (requireFit && !fits(g, item.capacity)) continue;
+            const load =
+              (shares
+                ? (groupSums[g]! + item.capacity) / shares[g]!
+                : groupSums[g]!) + placementCost(affinity, [index], g);
+            if (groupCounts[g]! < sizes[g]! && load < bestSum) {
+              bestGroup = g;
+              bestSum = load;
+            }
+          }
+          if (bestGroup !== -1) break;
+        }
 
-      // If no group has space, find the group with minimum sum (this shouldn't happen with correct input)
-      if (bestGroup === -1) {
-        bestGroup = 0;
-        for (let g = 1; g < groups; g++) {
-          if (groupSums[g]! < groupSums[bestGroup]!) {
-            bestGroup = g;
+        // If no group has space, find the group with minimum sum (this shouldn't happen with correct input)
+        if (bestGroup === -1) {
+          bestGroup = 0;
+          for (let g = 1; g < groups; g++) {
+            if (groupSums[g]! < groupSums[bestGroup]!) {
+              bestGroup = g;
+            }
           }
         }
-      }
 
-      // Add item to selected group
-      groupsById[bestGroup]!.push(item.id);
-      groupsByIndex[bestGroup]!.push(index);
-      groupSums[bestGroup]! += item.capacity;
-      groupCounts[bestGroup]!++;
+        // Add item to selected group
+        groupsById[bestGroup]!.push(item.id);
+        groupsByIndex[bestGroup]!.push(index);
+        groupSums[bestGroup]! += item.capacity;
+        groupCounts[bestGroup]!++;
+      }
     }
 
     let iterations = 1;
@@ -83,13 +228,36 @@ export function lptPartition(
         groups <= maxGroupsForRefinement &&
         groupSize <= maxGroupSizeForRefinement
       ) {
-        iterations += performLocalRefinement(
-          items,
-          groupsById,
-          groupsByIndex,
-          groupSums,
-          maxRefinementIters
-        );
+        if (affinity || caps) {
+          // Swap gains must include the placement cost and cap excess
+          const refined = localRefine(items, groupsByIndex, {
+            maxIters: maxRefinementIters,
+            strategy: 'best',
+            groupTargets: options.groupTargets,
+            constraints: options.constraints,
+            pinned: options.pinned,
+            stratify: options.stratify,
+            affinity: options.affinity,
+            affinityWeight: options.affinityWeight,
+            maxGroupSum: options.maxGroupSum,
+          });
+          for (let g = 0; g < groups; g++) {
+            groupsById[g] = groupsByIndex[g]!.map(idx => items[idx]!.id);
+            groupSums[g] = refined.groupSums[g]!;
+          }
+          iterations += refined.iterations;
+        } else {
+          iterations += performLocalRefinement(
+            items,
+            groupsById,
+            groupsByIndex,
+            groupSums,
+            maxRefinementIters,
+            shares,
+            model,
+            strata
+          );
+        }
         refinementApplied = true;
       }
       // For large problems, use basic LPT without refinement
@@ -132,14 +300,20 @@ export function lptPartition(
 }
 
 /**
- * Performs local refinement using swap operations (CPU-only)
+ * Performs local refinement using swap operations (CPU-only).
+ * With target shares, swaps minimize the spread of normalized sums.
+ * With a constraint model, only constraint-preserving swaps are made.
+ * With strata, only items of the same category are exchanged.
  */
 function performLocalRefinement(
   items: Item[],
   groupsById: (string | number)[][],
   groupsByIndex: number[][],
   groupSums: number[],
-  maxIters: number
+  maxIters: number,
+  shares?: number[],
+  model?: ConstraintModel,
+  strata?: (string | undefined)[]
 ): number {
   let iterations = 0;
   let improved = true;
@@ -149,7 +323,17 @@ function performLocalRefinement(
     iterations++;
 
     // Try 1-1 swaps (swap single items between groups)
-    if (try11Swaps(items, groupsById, groupsByIndex, groupSums)) {
+    if (
+      try11Swaps(
+        items,
+        groupsById,
+        groupsByIndex,
+        groupSums,
+        shares,
+        model,
+        strata
+      )
+    ) {
       improved = true;
       continue;
     }
@@ -157,7 +341,17 @@ function performLocalRefinement(
     // Try 1-2 swaps (skipped; would violate fixed group sizes)
 
     // Try 2-2 swaps (swap two items between groups)
-    if (try22Swaps(items, groupsById, groupsByIndex, groupSums)) {
+    if (
+      try22Swaps(
+        items,
+        groupsById,
+        groupsByIndex,
+        groupSums,
+        shares,
+        model,
+        strata
+      )
+    ) {
       improved = true;
       continue;
     }
@@ -173,7 +367,10 @@ function try11Swaps(
   items: Item[],
   groupsById: (string | number)[][],
   groupsByIndex: number[][],
-  groupSums: number[]
+  groupSums: number[],
+  shares?: number[],
+  model?: ConstraintModel,
+  strata?: (string | undefined)[]
 ): boolean {
   const groups = groupsById.length;
 
@@ -183,11 +380,15 @@ function try11Swaps(
         for (let i2 = 0; i2 < groupsByIndex[g2]!.length; i2++) {
           const idx1 = groupsByIndex[g1]![i1]!;
           const idx2 = groupsByIndex[g2]![i2]!;
+          if (model && !canSwap(model, groupsByIndex, g1, [idx1], g2, [idx2])) {
+            continue;
+          }
+          if (strata && strata[idx1] !== strata[idx2]) continue;
           const cap1 = items[idx1]!.capacity;
           const cap2 = items[idx2]!.capacity;
 
           // Calculate current delta
-          const currentDelta = Math.max(...groupSums) - Math.min(...groupSums);
+          const currentDelta = normalizedSpread(groupSums, shares);
 
           // Calculate new sums after swap
           const newSum1 = groupSums[g1]! - cap1 + cap2;
@@ -198,7 +399,7 @@ function try11Swaps(
           tempSums[g1] = newSum1;
           tempSums[g2] = newSum2;
 
-          const newDelta = Math.max(...tempSums) - Math.min(...tempSums);
+          const newDelta = normalizedSpread(tempSums, shares);
 
           // If this swap improves the balance, perform it
           if (newDelta < currentDelta) {
@@ -231,7 +432,10 @@ function try22Swaps(
   items: Item[],
   groupsById: (string | number)[][],
   groupsByIndex: number[][],
-  groupSums: number[]
+  groupSums: number[],
+  shares?: number[],
+  model?: ConstraintModel,
+  strata?: (string | undefined)[]
 ): boolean {
   const groups = groupsById.length;
 
@@ -252,6 +456,21 @@ function try22Swaps(
               const idx1b = groupsByIndex[g1]![i1b]!;
               const idx2a = groupsByIndex[g2]![i2a]!;
               const idx2b = groupsByIndex[g2]![i2b]!;
+              if (
+                model &&
+                !canSwap(model, groupsByIndex, g1, [idx1a, idx1b], g2, [
+                  idx2a,
+                  idx2b,
+                ])
+              ) {
+                continue;
+              }
+              if (
+                strata &&
+                !sameStrata(strata, [idx1a, idx1b], [idx2a, idx2b])
+              ) {
+                continue;
+              }
 
               const cap1a = items[idx1a]!.capacity;
               const cap1b = items[idx1b]!.capacity;
@@ -259,8 +478,7 @@ function try22Swaps(
               const cap2b = items[idx2b]!.capacity;
 
               // Calculate current delta
-              const currentDelta =
-                Math.max(...groupSums) - Math.min(...groupSums);
+              const currentDelta = normalizedSpread(groupSums, shares);
 
               // Calculate new sums after 2-2 swap
               const newSum1 = groupSums[g1]! - cap1a - cap1b + cap2a + cap2b;
@@ -271,7 +489,7 @@ function try22Swaps(
               tempSums[g1] = newSum1;
               tempSums[g2] = newSum2;
 
-              const newDelta = Math.max(...tempSums) - Math.min(...tempSums);
+              const newDelta = normalizedSpread(tempSums, shares);
 
               // If this swap improves the balance, perform it
               if (newDelta < currentDelta) {
@@ -302,7 +520,217 @@ function try22Swaps(
 }
 
 /**
- * Advanced LPT with multiple phases and sophisticated refinement
+ * Vector LPT for items carrying `capacities` (or a `profile`, one dimension
+ * per period): items are taken in descending
+ * order of their normalized size and each one goes to the group (with space)
+ * that keeps the combined per-dimension spread lowest. Refinement then runs
+ * multi-dimensional swaps via localRefine. Must-link clusters are placed as
+ * super-items and cannot-linked items kept apart. An affinity adds the
+ * weighted placement cost to the spread.
+ */
+export function lptVectorPartition(
+  items: Item[],
+  groups: number,
+  groupSize: number,
+  options: {
+    useRefinement?: boolean;
+    maxRefinementIters?: number;
+    groupSizes?: number[];
+    groupTargets?: number[];
+    dimensionWeights?: number[];
+    dimensionObjective?: DimensionObjective;
+    constraints?: ItemConstraints;
+    pinned?: PinnedItems;
+    affinity?: Affinity;
+    affinityWeight?: number;
+  } = {}
+): Grouping {
+  const startTime = performance.now();
+  const { useRefinement = true, maxRefinementIters = 100 } = options;
+  const sizes = resolveGroupSizes(groups, groupSize, options.groupSizes);
+  const dimensionOptions = {
+    weights: options.dimensionWeights,
+    objective: resolveDimensionObjective(items, options.dimensionObjective),
+    shares: targetShares(options.groupTargets),
+  };
+
+  try {
+    const vectors = getCapacityVectors(items);
+    const dims = vectors[0]!.length;
+    const proxies = proxyCapacities(vectors);
+    const model = buildConstraintModel(
+      items,
+      options.constraints,
+      options.pinned
+    );
+    const affinity = buildAffinityModel(items, options, groups);
+
+    let groupsByIndex: number[][] = Array.from({ length: groups }, () => []);
+    const loads: number[][] = Array.from({ length: groups }, () =>
+      new Array<number>(dims).fill(0)
+    );
+    const proxyLoads: number[] = new Array(groups).fill(0);
+
+    // Under 'peak' only the receiving group's periods change: the score is
+    // its new peak or the largest peak elsewhere, ties going to the group
+    // whose own peak stays lowest
+    const peakObjective = dimensionOptions.objective === 'peak';
+    const peaks = new Array<number>(groups).fill(0);
+
+    // Picks the group whose load after adding `vector` (of the items
+    // `indices`) keeps the spread plus placement cost lowest
+    const pickGroup = (
+      vector: number[],
+      indices: number[],
+      candidates: number[]
+    ): number => {
+      let bestGroup = -1;
+      let bestScore = Infinity;
+      let bestPeak = Infinity;
+      let top = -1;
+      let second = -Infinity;
+      if (peakObjective) {
+        peaks.forEach((peak, g) => {
+          if (top === -1 || peak > peaks[top]!) {
+            second = top === -1 ? second : peaks[top]!;
+            top = g;
+          } else if (peak > second) {
+            second = peak;
+          }
+        });
+      }
+      for (const g of candidates) {
+        const load = loads[g]!.map((v, d) => v + vector[d]!);
+        let score: number;
+        let peak = 0;
+        if (peakObjective) {
+          peak = loadPeak(load, g, dimensionOptions);
+          score = Math.max(peak, g === top ? second : peaks[top]!);
+        } else {
+          const saved = loads[g]!;
+          loads[g] = load;
+          score = dimensionScore(loads, dimensionOptions);
+          loads[g] = saved;
+        }
+        score += placementCost(affinity, indices, g);
+        if (
+          score < bestScore ||
+          (score === bestScore &&
+            (peak < bestPeak ||
+              (peak === bestPeak && proxyLoads[g]! < proxyLoads[bestGroup]!)))
+        ) {
+          bestGroup = g;
+          bestScore = score;
+          bestPeak = peak;
+        }
+      }
+      return bestGroup;
+    };
+    // Adds `vector` to the load (and cached peak) of group g
+    const addLoad = (g: number, vector: number[]): void => {
+      loads[g] = loads[g]!.map((v, d) => v + vector[d]!);
+      if (peakObjective) peaks[g] = loadPeak(loads[g]!, g, dimensionOptions);
+    };
+
+    if (model) {
+      const clusterVectors = model.clusters.map(c =>
+        vectors[c[0]!]!.map((_, d) =>
+          c.reduce((acc, idx) => acc + vectors[idx]![d]!, 0)
+        )
+      );
+      groupsByIndex = placeClusters(
+        model,
+        sizes,
+        clusterOrder(items, model),
+        (cluster, feasible) => {
+          const g = pickGroup(
+            clusterVectors[cluster]!,
+            model.clusters[cluster]!,
+            feasible
+          );
+          addLoad(g, clusterVectors[cluster]!);
+          for (const idx of model.clusters[cluster]!) {
+            proxyLoads[g]! += proxies[idx]!;
+          }
+          return g;
+        }
+      );
+    } else {
+      const order = items
+        .map((_, index) => index)
+        .sort(
+          (a, b) =>
+            proxies[b]! - proxies[a]! || compareIds(items[a]!.id, items[b]!.id)
+        );
+
+      for (const index of order) {
+        const vector = vectors[index]!;
+        const open = groupsByIndex
+          .map((_, g) => g)
+          .filter(g => groupsByIndex[g]!.length < sizes[g]!);
+        let bestGroup = pickGroup(vector, [index], open);
+
+        if (bestGroup === -1) bestGroup = 0;
+        groupsByIndex[bestGroup]!.push(index);
+        addLoad(bestGroup, vector);
+        proxyLoads[bestGroup]! += proxies[index]!;
+      }
+    }
+
+    let iterations = 1;
+    if (useRefinement) {
+      const refined = localRefine(items, groupsByIndex, {
+        maxIters: maxRefinementIters,
+        strategy: 'best',
+        dimensionWeights: options.dimensionWeights,
+        dimensionObjective: dimensionOptions.objective,
+        groupTargets: options.groupTargets,
+        constraints: options.constraints,
+        pinned: options.pinned,
+        affinity: options.affinity,
+        affinityWeight: options.affinityWeight,
+      });
+      groupsByIndex = refined.groupsByIndex;
+      iterations += refined.iterations;
+    }
+
+    const groupSums = groupsByIndex.map(g =>
+      g.reduce((acc, idx) => acc + items[idx]!.capacity, 0)
+    );
+    const mean = groupSums.reduce((sum, val) => sum + val, 0) / groups;
+    const variance =
+      groupSums.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / groups;
+
+    return {
+      groupsById: groupsByIndex.map(g => g.map(idx => items[idx]!.id)),
+      groupsByIndex,
+      groupSums,
+      delta: Math.max(...groupSums) - Math.min(...groupSums),
+      stdev: Math.sqrt(variance),
+      iterations,
+      methodUsed: useRefinement ? 'lpt-vector-refined' : 'lpt-vector',
+      dimensions: evaluateDimensions(items, groupsByIndex),
+    };
+  } catch (error) {
+    const endTime = performance.now();
+    throw createAlgorithmError(
+      'lpt',
+      'vector partition',
+      error instanceof Error ? error.message : 'Unknown error',
+      {
+        executionTimeMs: endTime - startTime,
+        itemCount: items.length,
+        groups,
+        groupSize,
+      }
+    );
+  }
+}
+
+/**
+ * Advanced LPT with multiple phases and sophisticated refinement.
+ * With an affinity or caps, the single-phase path (refined by localRefine)
+ * is used.
  */
 export function advancedLptPartition(
   items: Item[],
@@ -312,25 +740,56 @@ export function advancedLptPartition(
     useRefinement?: boolean;
     maxRefinementIters?: number;
     useMultiPhase?: boolean;
+    groupSizes?: number[];
+    groupTargets?: number[];
+    constraints?: ItemConstraints;
+    pinned?: PinnedItems;
+    stratify?: boolean;
+    affinity?: Affinity;
+    affinityWeight?: number;
+    maxGroupSum?: number | number[];
   } = {}
 ): Grouping {
   const {
     useRefinement = true,
     maxRefinementIters = 100,
     useMultiPhase = true,
+    groupSizes,
+    groupTargets,
+    constraints,
+    pinned,
+    stratify,
+    affinity,
+    affinityWeight,
+    maxGroupSum,
   } = options;
 
-  if (!useMultiPhase) {
+  if (!useMultiPhase || affinity || maxGroupSum !== undefined) {
     return lptPartition(items, groups, groupSize, {
       useRefinement,
       maxRefinementIters,
+      groupSizes,
+      groupTargets,
+      constraints,
+      pinned,
+      stratify,
+      affinity,
+      affinityWeight,
+      maxGroupSum,
     });
   }
 
   // Phase 1: Initial LPT assignment
   const result = lptPartition(items, groups, groupSize, {
     useRefinement: false,
+    groupSizes,
+    groupTargets,
+    constraints,
+    pinned,
+    stratify,
   });
+  const model = buildConstraintModel(items, constraints, pinned);
+  const strata = stratify ? itemStrata(items) : undefined;
 
   // Phase 2: Multiple refinement rounds with different strategies
   if (useRefinement) {
@@ -343,7 +802,10 @@ export function advancedLptPartition(
         result.groupsById,
         result.groupsByIndex,
         result.groupSums,
-        roundIters
+        roundIters,
+        targetShares(groupTargets),
+        model,
+        strata
       );
 
       result.iterations = (result.iterations || 1) + additionalIters;
@@ -377,10 +839,25 @@ export function lpt(
     useRefinement?: boolean;
     maxRefinementIters?: number;
     useAdvanced?: boolean;
+    groupSizes?: number[];
+    groupTargets?: number[];
+    dimensionWeights?: number[];
+    dimensionObjective?: DimensionObjective;
+    constraints?: ItemConstraints;
+    pinned?: PinnedItems;
+    stratify?: boolean;
+    affinity?: Affinity;
+    affinityWeight?: number;
+    maxGroupSum?: number | number[];
   } = {}
 ): Grouping {
   const { useAdvanced = false } = options;
 
+  // Items with capacity vectors are balanced on every dimension
+  if (getDimensionCount(items) > 0) {
+    return lptVectorPartition(items, groups, groupSize, options);
+  }
+
   if (useAdvanced) {
     return advancedLptPartition(items, groups, groupSize, options);
   }
@@ -0,0 +1,252 @@
+import { Item } from '../types.js';
+import { kk } from './kk.js';
+
+// Largest item count split by default; 2^(n/4) subset sums per quarter
+const DEFAULT_MAX_ITEMS = 64;
+
+export interface MeetInMiddleOptions {
+  timeLimitMs?: number;
+  maxItems?: number; // Largest supported item count (default: 64)
+}
+
+export interface MeetInMiddleResult {
+  groupsByIndex: number[][];
+  groupSums: number[];
+  iterations: number;
+  method: string;
+  isOptimal: boolean;
+  /** Best proven lower bound on max − min */
+  bound: number;
+  /** Relative gap (delta − bound) / delta, 0 when proven */
+  mipGap: number;
+}
+
+// Offset added to every weight so that subsets of the wrong size can never
+// come closer to the target than any split of the right size
+function cardinalityOffset(total: number): number {
+  return 2 ** Math.ceil(Math.log2(2 * total + 2));
+}
+
+/**
+ * Whether meetInMiddle can split these items: two groups of equal size, at
+ * most `maxItems` items and weights small enough for exact sums
+ */
+export function canMeetInMiddle(
+  items: Item[],
+  groups: number,
+  groupSize: number,
+  maxItems: number = DEFAULT_MAX_ITEMS
+): boolean {
+  const totalItems = items.length;
+  if (groups !== 2 || totalItems !== 2 * groupSize || totalItems > maxItems) {
+    return false;
+  }
+  const total = items.reduce((acc, item) => acc + item.capacity, 0);
+  return cardinalityOffset(total) * (totalItems + 1) <= Number.MAX_SAFE_INTEGER;
+}
+
+/**
+ * Subset sums of one quarter of the items in ascending order, with the
+ * subset (as a bit mask over the quarter) behind each
+ */
+interface SubsetSums {
+  sums: Float64Array;
+  masks: Int32Array;
+}
+
+function subsetSums(weights: number[]): SubsetSums {
+  const count = 1 << weights.length;
+  const raw = new Float64Array(count);
+  for (let mask = 1; mask < count; mask++) {
+    const low = mask & -mask;
+    raw[mask] = raw[mask ^ low]! + weights[31 - Math.clz32(low)]!;
+  }
+  const order = Array.from({ length: count }, (_, mask) => mask).sort(
+    (a, b) => raw[a]! - raw[b]!
+  );
+  return {
+    sums: Float64Array.from(order, mask => raw[mask]!),
+    masks: Int32Array.from(order),
+  };
+}
+
+/**
+ * Emits every x[i] + y[j] in ascending order using a heap of one pointer
+ * per entry of x, so memory stays at |x| + |y|
+ */
+class SumStream {
+  private readonly heapI: Int32Array;
+  private readonly heapJ: Int32Array;
+  private size: number;
+
+  constructor(
+    private readonly x: Float64Array,
+    private readonly y: Float64Array
+  ) {
+    this.heapI = Int32Array.from({ length: x.length }, (_, i) => i);
+    this.heapJ = new Int32Array(x.length);
+    // x is sorted, so pairing every x[i] with y[0] is already a heap
+    this.size = y.length > 0 ? x.length : 0;
+  }
+
+  get done(): boolean {
+    return this.size === 0;
+  }
+
+  get value(): number {
+    return this.key(0);
+  }
+
+  /** Indices into x and y of the current value */
+  get pair(): [number, number] {
+    return [this.heapI[0]!, this.heapJ[0]!];
+  }
+
+  next(): void {
+    if (this.heapJ[0]! + 1 < this.y.length) {
+      this.heapJ[0]!++;
+    } else {
+      this.size--;
+      this.heapI[0] = this.heapI[this.size]!;
+      this.heapJ[0] = this.heapJ[this.size]!;
+    }
+    // Sift the root down
+    let at = 0;
+    for (;;) {
+      const left = 2 * at + 1;
+      if (left >= this.size) break;
+      const right = left + 1;
+      const child =
+        right < this.size && this.key(right) < this.key(left) ? right : left;
+      if (this.key(child) >= this.key(at)) break;
+      [this.heapI[at], this.heapI[child]] = [
+        this.heapI[child]!,
+        this.heapI[at]!,
+      ];
+      [this.heapJ[at], this.heapJ[child]] = [
+        this.heapJ[child]!,
+        this.heapJ[at]!,
+      ];
+      at = child;
+    }
+  }
+
+  private key(at: number): number {
+    return this.x[this.heapI[at]!]! + this.y[this.heapJ[at]!]!;
+  }
+}
+
+/**
+ * Exact equal-cardinality 2-way partitioning by Schroeppel–Shamir meet in
+ * the middle. Every item weighs its capacity plus a constant K larger than
+ * twice the total, so the subset whose weight is closest to K·groupSize +
+ * total / 2 is the best split with exactly `groupSize` items. The items are
+ * dealt into four quarters; the subset sums of the first two are streamed in
+ * ascending order and those of the last two in descending order (each
+ * through a heap holding one pointer per subset of a quarter), and a
+ * two-pointer walk over both streams finds the closest weight in
+ * O(2^(n/2) log 2^(n/4)) time and O(2^(n/4)) memory. The walk starts from
+ * the Karmarkar–Karp split and stops early once the integer floor is met;
+ * at `timeLimitMs` it returns the best split found without proof.
+ */
+export function meetInMiddle(
+  items: Item[],
+  groups: number,
+  groupSize: number,
+  options: MeetInMiddleOptions = {}
+): MeetInMiddleResult {
+  const { timeLimitMs = 5000, maxItems = DEFAULT_MAX_ITEMS } = options;
+  const startTime = performance.now();
+
+  const totalItems = items.length;
+  if (groups !== 2 || totalItems !== 2 * groupSize) {
+    throw new Error('Meet in the middle requires two groups of equal size');
+  }
+  if (totalItems > maxItems) {
+    throw new Error(
+      `Meet in the middle restricted to problems with ≤${maxItems} items. Use heuristic algorithms for larger problems.`
+    );
+  }
+
+  const capacities = items.map(item => item.capacity);
+  const total = capacities.reduce((acc, c) => acc + c, 0);
+  // Integer sums of an odd total differ by at least 1
+  const floorBound =
+    capacities.every(c => Number.isInteger(c)) && total % 2 !== 0 ? 1 : 0;
+  const sumOf = (members: number[]): number =>
+    members.reduce((acc, idx) => acc + capacities[idx]!, 0);
+
+  let groupsByIndex = kk(items, 2, groupSize).groupsByIndex;
+  let bestDelta = Math.abs(sumOf(groupsByIndex[0]!) - sumOf(groupsByIndex[1]!));
+
+  // Items dealt into quarters by descending capacity
+  const order = capacities
+    .map((_, idx) => idx)
+    .sort((a, b) => capacities[b]! - capacities[a]! || a - b);
+  const quarters: number[][] = [[], [], [], []];
+  order.forEach((idx, rank) => quarters[rank % 4]!.push(idx));
+  const K = cardinalityOffset(total);
+  if (K * (totalItems + 1) > Number.MAX_SAFE_INTEGER) {
+    throw new Error(
+      'Meet in the middle requires a total capacity small enough for exact sums'
+    );
+  }
+  const weightsOf = (quarter: number[], sign: number): number[] =>
+    quarter.map(idx => sign * (capacities[idx]! + K));
+  const a = subsetSums(weightsOf(quarters[0]!, 1));
+  const b = subsetSums(weightsOf(quarters[1]!, 1));
+  // Negated weights stream the second half in descending order
+  const c = subsetSums(weightsOf(quarters[2]!, -1));
+  const d = subsetSums(weightsOf(quarters[3]!, -1));
+  const low = new SumStream(a.sums, b.sums);
+  const high = new SumStream(c.sums, d.sums);
+  const target = K * groupSize + total / 2;
+
+  let steps = 0;
+  let closed = true;
+  let best: [number, number, number, number] | null = null;
+  while (!low.done && !high.done && bestDelta > floorBound + 1e-9) {
+    const gap = low.value - high.value - target;
+    // Splits of the wrong size miss the target by more than any real delta
+    if (2 * Math.abs(gap) < bestDelta - 1e-9) {
+      bestDelta = 2 * Math.abs(gap);
+      best = [...low.pair, ...high.pair];
+    }
+    if (gap < 0) low.next();
+    else high.next();
+    steps++;
+    if (steps % 4096 === 0 && performance.now() - startTime > timeLimitMs) {
+      closed = false;
+      break;
+    }
+  }
+
+  if (best) {
+    const [ia, ib, ic, id] = best;
+    const chosen = new Set<number>();
+    const masks = [a.masks[ia]!, b.masks[ib]!, c.masks[ic]!, d.masks[id]!];
+    masks.forEach((mask, q) => {
+      quarters[q]!.forEach((idx, bit) => {
+        if (mask & (1 << bit)) chosen.add(idx);
+      });
+    });
+    groupsByIndex = [
+      order.filter(idx => chosen.has(idx)),
+      order.filter(idx => !chosen.has(idx)),
+    ];
+  }
+
+  const groupSums = groupsByIndex.map(sumOf);
+  const delta = Math.abs(groupSums[0]! - groupSums[1]!);
+  const isOptimal = closed || delta <= floorBound + 1e-9;
+  const bound = isOptimal ? delta : floorBound;
+  return {
+    groupsByIndex,
+    groupSums,
+    iterations: Math.max(1, steps),
+    method: 'dp-meet-in-middle',
+    isOptimal,
+    bound,
+    mipGap: delta > 0 ? (delta - bound) / delta : 0,
+  };
+}
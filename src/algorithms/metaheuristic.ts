@@ -1,4 +1,39 @@
-import { Item } from '../types.js';
+import {
+  Affinity,
+  DimensionObjective,
+  Edge,
+  Item,
+  ItemAssignment,
+  ItemConstraints,
+  Objective,
+  PinnedItems,
+} from '../types.js';
+import {
+  computeGroupLoads,
+  dimensionScore,
+  getCapacityVectors,
+  getDimensionCount,
+  resolveDimensionObjective,
+} from '../utils/dimensions.js';
+import { targetShares } from '../utils/targets.js';
+import { objectiveScore, toFitness } from '../utils/objective.js';
+import {
+  baselineGrouping,
+  buildMigrationModel,
+  migrationCost,
+} from '../utils/migration.js';
+import { assignmentCost, buildAffinityModel } from '../utils/affinity.js';
+import { buildFeatureModel, centroidSpread } from '../utils/features.js';
+import { buildSpatialModel, groupCompactness } from '../utils/spatial.js';
+import { buildGraphModel, cutWeight } from '../utils/graph.js';
+import { capOverflow, resolveCaps } from '../utils/caps.js';
+import {
+  buildConstraintModel,
+  canSwap,
+  clusterOrder,
+  placeClusters,
+  satisfiesConstraints,
+} from '../utils/constraints.js';
 
 export type MetaheuristicType =
   | 'genetic'
@@ -22,6 +57,34 @@ export interface MetaheuristicOptions {
   // Tabu Search parameters
   tabuSize?: number;
   aspirationCriteria?: boolean;
+  // Multi-dimensional balancing (items with `capacities`)
+  dimensionWeights?: number[];
+  dimensionObjective?: DimensionObjective;
+  // Heterogeneous groups: fitness uses the normalized deviation from targets
+  groupTargets?: number[];
+  // Must-link / cannot-link pairs respected by every solution and move
+  constraints?: ItemConstraints;
+  // Pinned items stay in their group and are excluded from mutations
+  pinned?: PinnedItems;
+  // Objective scored by the fitness of scalar items (default: 'delta')
+  objective?: Objective;
+  // Moving items off the baseline adds λ × moveCost to the score; a
+  // complete baseline also seeds the search
+  baseline?: ItemAssignment;
+  moveCost?: number | Record<string | number, number>;
+  moveCostWeight?: number;
+  // Placement cost of each item per group, weighted into the score
+  affinity?: Affinity;
+  affinityWeight?: number;
+  // Excess over the caps outweighs any balance gain in the fitness
+  maxGroupSum?: number | number[];
+  // Weight of the feature centroid spread under 'anticlustering'
+  featureWeight?: number;
+  // Weight of the distances to group centroids for items with `position`
+  compactnessWeight?: number;
+  // Weighted edges whose cut (edges joining different groups) is penalized
+  edges?: Edge[];
+  edgeCutWeight?: number;
 }
 
 export interface MetaheuristicResult {
@@ -76,7 +139,32 @@ export function metaheuristic(
     throw new Error('Metaheuristic requires exact group size constraints');
   }
 
-  // Fitness function: lower delta is better
+  // Capacity vectors when items carry multiple dimensions
+  const vectors =
+    getDimensionCount(items) > 0 ? getCapacityVectors(items) : null;
+  const model = buildConstraintModel(
+    items,
+    options.constraints,
+    options.pinned
+  );
+  const shares = targetShares(options.groupTargets);
+  const dimensionOptions = {
+    weights: options.dimensionWeights,
+    objective: resolveDimensionObjective(items, options.dimensionObjective),
+    shares,
+  };
+  const migration = buildMigrationModel(items, options, groups);
+  const affinity = buildAffinityModel(items, options, groups);
+  const features = buildFeatureModel(items, options);
+  const spatial = buildSpatialModel(items, options);
+  const graph = buildGraphModel(items, options);
+  const caps = resolveCaps(options.maxGroupSum, groups);
+  const capWeight =
+    1 + items.reduce((acc, item) => acc + Math.abs(item.capacity), 0);
+
+  // Fitness function: lower (normalized) objective score plus migration,
+  // placement, feature spread, compactness, edge cut and cap penalties is
+  // better
   function calculateFitness(groupsByIndex: number[][]): number {
     const groupSums: number[] = [];
     for (let g = 0; g < targetGroups; g++) {
@@ -86,12 +174,63 @@ export function metaheuristic(
       }
       groupSums[g] = sum;
     }
-    const delta = Math.max(...groupSums) - Math.min(...groupSums);
-    return 1 / (1 + delta); // Higher fitness for lower delta
+    const penalty =
+      (migration
+        ? migration.weight * migrationCost(migration, groupsByIndex)
+        : 0) +
+      (affinity
+        ? affinity.weight * assignmentCost(affinity, groupsByIndex)
+        : 0) +
+      (features
+        ? features.weight * centroidSpread(features.vectors, groupsByIndex)
+        : 0) +
+      (spatial
+        ? spatial.weight *
+          groupCompactness(spatial.positions, groupsByIndex).reduce(
+            (acc, c) => acc + c,
+            0
+          )
+        : 0) +
+      (graph ? graph.weight * cutWeight(graph, groupsByIndex) : 0) +
+      (caps ? capWeight * capOverflow(groupSums, caps) : 0);
+    if (vectors) {
+      const loads = computeGroupLoads(vectors, groupsByIndex);
+      return toFitness(dimensionScore(loads, dimensionOptions) + penalty);
+    }
+    // Higher fitness for a lower score
+    return toFitness(
+      objectiveScore(groupSums, options.objective, shares) + penalty
+    );
+  }
+
+  // Whether swapping solution[g1][i1] with solution[g2][i2] keeps constraints
+  function swapAllowed(
+    solution: number[][],
+    g1: number,
+    i1: number,
+    g2: number,
+    i2: number
+  ): boolean {
+    return (
+      !model ||
+      canSwap(model, solution, g1, [solution[g1]![i1]!], g2, [
+        solution[g2]![i2]!,
+      ])
+    );
   }
 
   // Generate random solution
   function generateRandomSolution(): number[][] {
+    // Constrained: place clusters into random feasible groups
+    if (model) {
+      return placeClusters(
+        model,
+        new Array<number>(targetGroups).fill(targetGroupSize),
+        clusterOrder(items, model),
+        (_, feasible) => feasible[Math.floor(rand() * feasible.length)]!
+      );
+    }
+
     const groupsByIndex: number[][] = [];
     for (let g = 0; g < targetGroups; g++) {
       groupsByIndex[g] = [];
@@ -115,12 +254,30 @@ export function metaheuristic(
     return groupsByIndex;
   }
 
+  // Starting solution: the baseline when it is a complete, feasible grouping
+  const baselineStart = migration
+    ? baselineGrouping(
+        migration,
+        new Array<number>(targetGroups).fill(targetGroupSize)
+      )
+    : undefined;
+  function generateInitialSolution(): number[][] {
+    if (
+      baselineStart &&
+      (!model || satisfiesConstraints(model, baselineStart))
+    ) {
+      return baselineStart.map(g => [...g]);
+    }
+    return generateRandomSolution();
+  }
+
   // Genetic Algorithm
   function geneticAlgorithm(): MetaheuristicResult {
     // Initialize population
     const population: number[][][] = [];
     for (let i = 0; i < populationSize; i++) {
-      population[i] = generateRandomSolution();
+      population[i] =
+        i === 0 ? generateInitialSolution() : generateRandomSolution();
     }
 
     let bestSolution = population[0]!;
@@ -232,6 +389,11 @@ export function metaheuristic(
       }
     }
 
+    // Children breaking a constraint are replaced by the first parent
+    if (model && !satisfiesConstraints(model, child)) {
+      return parent1.map(g => [...g]);
+    }
+
     return child;
   }
 
@@ -245,10 +407,12 @@ export function metaheuristic(
     if (g1 !== g2) {
       const i1 = Math.floor(rand() * targetGroupSize);
       const i2 = Math.floor(rand() * targetGroupSize);
-      [mutated[g1]![i1]!, mutated[g2]![i2]!] = [
-        mutated[g2]![i2]!,
-        mutated[g1]![i1]!,
-      ];
+      if (swapAllowed(mutated, g1, i1, g2, i2)) {
+        [mutated[g1]![i1]!, mutated[g2]![i2]!] = [
+          mutated[g2]![i2]!,
+          mutated[g1]![i1]!,
+        ];
+      }
     }
 
     return mutated;
@@ -256,7 +420,7 @@ export function metaheuristic(
 
   // Simulated Annealing
   function simulatedAnnealing(): MetaheuristicResult {
-    let currentSolution = generateRandomSolution();
+    let currentSolution = generateInitialSolution();
     let currentFitness = calculateFitness(currentSolution);
     let bestSolution = currentSolution.map(g => [...g]);
     let bestFitness = currentFitness;
@@ -300,7 +464,7 @@ export function metaheuristic(
 
   // Tabu Search
   function tabuSearch(): MetaheuristicResult {
-    let currentSolution = generateRandomSolution();
+    let currentSolution = generateInitialSolution();
     let currentFitness = calculateFitness(currentSolution);
     let bestSolution = currentSolution.map(g => [...g]);
     let bestFitness = currentFitness;
@@ -319,6 +483,7 @@ export function metaheuristic(
         for (let g2 = g1 + 1; g2 < targetGroups; g2++) {
           for (let i1 = 0; i1 < targetGroupSize; i1++) {
             for (let i2 = 0; i2 < targetGroupSize; i2++) {
+              if (!swapAllowed(currentSolution, g1, i1, g2, i2)) continue;
               const neighbor = generateSwapNeighbor(
                 currentSolution,
                 g1,
@@ -384,10 +549,12 @@ export function metaheuristic(
     if (g1 !== g2) {
       const i1 = Math.floor(rand() * targetGroupSize);
       const i2 = Math.floor(rand() * targetGroupSize);
-      [neighbor[g1]![i1]!, neighbor[g2]![i2]!] = [
-        neighbor[g2]![i2]!,
-        neighbor[g1]![i1]!,
-      ];
+      if (swapAllowed(neighbor, g1, i1, g2, i2)) {
+        [neighbor[g1]![i1]!, neighbor[g2]![i2]!] = [
+          neighbor[g2]![i2]!,
+          neighbor[g1]![i1]!,
+        ];
+      }
     }
     return neighbor;
   }
@@ -1,20 +1,135 @@
-import { Item, Grouping } from '../types.js';
+import { Item, Grouping, ItemConstraints, PinnedItems } from '../types.js';
 import { createAlgorithmError } from '../errors.js';
 import { compareItemsByCapacity } from '../utils/comparators.js';
+import { resolveGroupSizes } from '../utils/groupSizes.js';
+import {
+  buildConstraintModel,
+  clusterOrder,
+  placeClusters,
+} from '../utils/constraints.js';
+import { placeStratified } from '../utils/strata.js';
+
+/**
+ * Constrained construction shared by both variants: pinned clusters go to
+ * their group first, then must-link clusters are placed as super-items, in
+ * descending order, into the group picked by `pick` among those with room and
+ * no cannot-link conflict
+ */
+function placeConstrained(
+  items: Item[],
+  sizes: number[],
+  constraints: ItemConstraints | undefined,
+  pinned: PinnedItems | undefined,
+  pick: (feasible: number[], clusterSum: number) => number
+): number[][] | undefined {
+  const model = buildConstraintModel(items, constraints, pinned);
+  if (!model) return undefined;
+  return placeClusters(
+    model,
+    sizes,
+    clusterOrder(items, model),
+    (cluster, feasible) =>
+      pick(
+        feasible,
+        model.clusters[cluster]!.reduce(
+          (acc, idx) => acc + items[idx]!.capacity,
+          0
+        )
+      )
+  );
+}
+
+/**
+ * Items sorted by capacity in descending order, as indices
+ */
+function descendingOrder(items: Item[]): number[] {
+  return items
+    .map((_, index) => index)
+    .sort((a, b) => compareItemsByCapacity(items[a]!, items[b]!));
+}
+
+/**
+ * Builds a Grouping from a finished index assignment
+ */
+function fromIndices(
+  items: Item[],
+  groupsByIndex: number[][],
+  methodUsed: string
+): Grouping {
+  const groupSums = groupsByIndex.map(g =>
+    g.reduce((acc, idx) => acc + items[idx]!.capacity, 0)
+  );
+  const mean = groupSums.reduce((sum, val) => sum + val, 0) / groupSums.length;
+  const variance =
+    groupSums.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) /
+    groupSums.length;
+  return {
+    groupsById: groupsByIndex.map(g => g.map(idx => items[idx]!.id)),
+    groupsByIndex,
+    groupSums,
+    delta: Math.max(...groupSums) - Math.min(...groupSums),
+    stdev: Math.sqrt(variance),
+    iterations: 1,
+    methodUsed,
+  };
+}
 
 /**
  * Round-robin greedy algorithm implementation
- * Sorts items by capacity (descending) and distributes them cyclically across groups
+ * Sorts items by capacity (descending) and distributes them cyclically across groups,
+ * skipping groups that already hold their required number of items
+ * (or, with constraints, groups holding a cannot-linked item; pinned items
+ * are placed in their group first; with stratify, groups whose quota for the
+ * item's category is used up)
  */
 export function roundRobinPartition(
   items: Item[],
   groups: number,
   groupSize: number,
-  _seed?: number
+  _seed?: number,
+  groupSizes?: number[],
+  constraints?: ItemConstraints,
+  pinned?: PinnedItems,
+  stratify?: boolean
 ): Grouping {
   const startTime = performance.now();
+  const sizes = resolveGroupSizes(groups, groupSize, groupSizes);
 
   try {
+    if (constraints || pinned) {
+      let next = 0;
+      const constrained = placeConstrained(
+        items,
+        sizes,
+        constraints,
+        pinned,
+        feasible => {
+          // First feasible group at or after the rotation pointer
+          const g =
+            feasible.find(candidate => candidate >= next) ?? feasible[0]!;
+          next = (g + 1) % groups;
+          return g;
+        }
+      );
+      if (constrained) return fromIndices(items, constrained, 'roundrobin');
+    }
+
+    if (stratify) {
+      let next = 0;
+      const stratified = placeStratified(
+        items,
+        sizes,
+        descendingOrder(items),
+        feasible => {
+          const g =
+            feasible.find(candidate => candidate >= next) ?? feasible[0]!;
+          next = (g + 1) % groups;
+          return g;
+        }
+      );
+      return fromIndices(items, stratified, 'roundrobin');
+    }
+
     // Initialize result structures
     const groupsById: (string | number)[][] = Array.from(
       { length: groups },
@@ -22,6 +137,7 @@ export function roundRobinPartition(
     );
     const groupsByIndex: number[][] = Array.from({ length: groups }, () => []);
     const groupSums: number[] = new Array(groups).fill(0);
+    const groupCounts: number[] = new Array(groups).fill(0);
 
     // Create array of items with their original indices
     const indexedItems = items.map((item, index) => ({ item, index }));
@@ -32,10 +148,20 @@ export function roundRobinPartition(
     // Distribute items round-robin across groups
     let currentGroup = 0;
     for (const { item, index } of indexedItems) {
+      // Skip groups that are already full (only happens with uneven sizes)
+      for (
+        let tries = 0;
+        tries < groups && groupCounts[currentGroup]! >= sizes[currentGroup]!;
+        tries++
+      ) {
+        currentGroup = (currentGroup + 1) % groups;
+      }
+
       // Add item to current group
       groupsById[currentGroup]!.push(item.id);
       groupsByIndex[currentGroup]!.push(index);
       groupSums[currentGroup]! += item.capacity;
+      groupCounts[currentGroup]!++;
 
       // Move to next group (round-robin)
       currentGroup = (currentGroup + 1) % groups;
@@ -82,16 +208,61 @@ export function roundRobinPartition(
 /**
  * Optimized round-robin with capacity-aware distribution
  * Attempts to balance groups better by considering current group sums
+ * (among the groups with remaining quota for the item's category when
+ * stratified)
  */
 export function optimizedRoundRobinPartition(
   items: Item[],
   groups: number,
   groupSize: number,
-  _seed?: number
+  _seed?: number,
+  groupSizes?: number[],
+  constraints?: ItemConstraints,
+  pinned?: PinnedItems,
+  stratify?: boolean
 ): Grouping {
   const startTime = performance.now();
+  const sizes = resolveGroupSizes(groups, groupSize, groupSizes);
 
   try {
+    if (constraints || pinned) {
+      const sums: number[] = new Array(groups).fill(0);
+      const constrained = placeConstrained(
+        items,
+        sizes,
+        constraints,
+        pinned,
+        (feasible, clusterSum) => {
+          // Smallest current sum among the feasible groups
+          const g = feasible.reduce((best, candidate) =>
+            sums[candidate]! < sums[best]! ? candidate : best
+          );
+          sums[g]! += clusterSum;
+          return g;
+        }
+      );
+      if (constrained) {
+        return fromIndices(items, constrained, 'roundrobin-optimized');
+      }
+    }
+
+    if (stratify) {
+      const sums: number[] = new Array(groups).fill(0);
+      const stratified = placeStratified(
+        items,
+        sizes,
+        descendingOrder(items),
+        (feasible, index) => {
+          const g = feasible.reduce((best, candidate) =>
+            sums[candidate]! < sums[best]! ? candidate : best
+          );
+          sums[g]! += items[index]!.capacity;
+          return g;
+        }
+      );
+      return fromIndices(items, stratified, 'roundrobin-optimized');
+    }
+
     // Initialize result structures
     const groupsById: (string | number)[][] = Array.from(
       { length: groups },
@@ -114,17 +285,17 @@ export function optimizedRoundRobinPartition(
       let bestSum = groupSums[0]!;
 
       for (let g = 1; g < groups; g++) {
-        if (groupCounts[g]! < groupSize && groupSums[g]! < bestSum) {
+        if (groupCounts[g]! < sizes[g]! && groupSums[g]! < bestSum) {
           bestGroup = g;
           bestSum = groupSums[g]!;
         }
       }
 
       // If all groups are full at this level, use round-robin
-      if (groupCounts[bestGroup]! >= groupSize) {
+      if (groupCounts[bestGroup]! >= sizes[bestGroup]!) {
         // Find first group with space
         for (let g = 0; g < groups; g++) {
-          if (groupCounts[g]! < groupSize) {
+          if (groupCounts[g]! < sizes[g]!) {
             bestGroup = g;
             break;
           }
@@ -184,15 +355,47 @@ export function roundRobin(
   items: Item[],
   groups: number,
   groupSize: number,
-  options: { seed?: number; optimized?: boolean } = {}
+  options: {
+    seed?: number;
+    optimized?: boolean;
+    groupSizes?: number[];
+    constraints?: ItemConstraints;
+    pinned?: PinnedItems;
+    stratify?: boolean;
+  } = {}
 ): Grouping {
-  const { seed, optimized = true } = options;
+  const {
+    seed,
+    optimized = true,
+    groupSizes,
+    constraints,
+    pinned,
+    stratify,
+  } = options;
 
   // For small problems or when explicitly requested, use basic round-robin
   if (!optimized || items.length <= 20) {
-    return roundRobinPartition(items, groups, groupSize, seed);
+    return roundRobinPartition(
+      items,
+      groups,
+      groupSize,
+      seed,
+      groupSizes,
+      constraints,
+      pinned,
+      stratify
+    );
   }
 
   // For larger problems, use optimized version
-  return optimizedRoundRobinPartition(items, groups, groupSize, seed);
+  return optimizedRoundRobinPartition(
+    items,
+    groups,
+    groupSize,
+    seed,
+    groupSizes,
+    constraints,
+    pinned,
+    stratify
+  );
 }
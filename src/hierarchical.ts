@@ -0,0 +1,261 @@
+import {
+  Grouping,
+  HierarchicalOptions,
+  HierarchicalResult,
+  HierarchyLevel,
+  HierarchyNode,
+  Item,
+} from './types.js';
+import { createValidationError, ValidationError } from './errors.js';
+import { partitionBalanced } from './index.js';
+
+/**
+ * Checks that each level exactly groups the units of the level below
+ */
+function validateLevels(itemCount: number, levels: HierarchyLevel[]): void {
+  if (!Array.isArray(levels) || levels.length === 0) {
+    throw createValidationError('levels', levels, 'non-empty array of levels');
+  }
+  let units = itemCount;
+  levels.forEach((level, l) => {
+    const { groups, groupSize } = level ?? {};
+    if (
+      !Number.isInteger(groups) ||
+      !Number.isInteger(groupSize) ||
+      groups < 1 ||
+      groupSize < 1
+    ) {
+      throw createValidationError(
+        `levels[${l}]`,
+        level,
+        '{ groups: positive integer; groupSize: positive integer }'
+      );
+    }
+    if (groups * groupSize !== units) {
+      throw new ValidationError(
+        `Level ${l} holds ${groups} × ${groupSize} units, but the level below provides ${units}`,
+        { level: l, groups, groupSize, units }
+      );
+    }
+    units = groups;
+  });
+}
+
+/**
+ * Grouping of the items at one level of the hierarchy
+ */
+function toLevelGrouping(
+  items: Item[],
+  groupsByIndex: number[][],
+  methodUsed: string
+): Grouping {
+  const groupSums = groupsByIndex.map(g =>
+    g.reduce((acc, idx) => acc + items[idx]!.capacity, 0)
+  );
+  const mean = groupSums.reduce((acc, s) => acc + s, 0) / groupSums.length;
+  const variance =
+    groupSums.reduce((acc, s) => acc + Math.pow(s - mean, 2), 0) /
+    groupSums.length;
+  return {
+    groupsById: groupsByIndex.map(g => g.map(idx => items[idx]!.id)),
+    groupsByIndex,
+    groupSums,
+    delta: Math.max(...groupSums) - Math.min(...groupSums),
+    stdev: Math.sqrt(variance),
+    methodUsed,
+  };
+}
+
+/**
+ * Partitions items into nested groups, e.g. cells → modules → packs.
+ * `levels` lists the levels leaves first: level 0 groups the items, and
+ * each further level groups the groups of the level below. Groups are split
+ * top-down with `partitionBalanced` (the root into the top-level groups,
+ * each of those into its children, and so on), then 1↔1 swaps between
+ * items of different leaves lower the sum of every level's delta, so
+ * sibling subtrees are balanced against each other as well. The swaps stop
+ * at `refineIters`, once a full scan finds none, or when `timeLimitMs`
+ * (counted from the call) runs out.
+ * @param items Items to partition
+ * @param levels Group count and size of every level, leaves first
+ * @returns Tree of nested groups and the item grouping at every level
+ * @throws ValidationError when a level does not exactly group the level below
+ * @example
+ * // 48 cells → 12 modules of 4 cells → 3 packs of 4 modules
+ * partitionHierarchical(cells, [
+ *   { groups: 12, groupSize: 4 },
+ *   { groups: 3, groupSize: 4 },
+ * ]);
+ */
+export function partitionHierarchical(
+  items: Item[],
+  levels: HierarchyLevel[],
+  options: HierarchicalOptions = {}
+): HierarchicalResult {
+  const startTime = performance.now();
+  validateLevels(items.length, levels);
+  const { refine = true, refineIters = 200, ...partitionOptions } = options;
+  const depth = levels.length;
+  const deadline = startTime + (partitionOptions.timeLimitMs ?? Infinity);
+
+  // Splits the given item indices into `count` balanced parts
+  const split = (indices: number[], count: number): number[][] => {
+    if (count === 1) return [indices];
+    const result = partitionBalanced(
+      indices.map(idx => items[idx]!),
+      count,
+      indices.length / count,
+      partitionOptions
+    );
+    return result.groupsByIndex.map(g => g.map(j => indices[j]!));
+  };
+
+  // groupsAt[l]: item indices of every group at level l;
+  // parentOf[l][g]: index of the group at level l + 1 holding group g
+  const groupsAt: number[][][] = new Array(depth);
+  const parentOf: number[][] = new Array(depth);
+  groupsAt[depth - 1] = split(
+    items.map((_, idx) => idx),
+    levels[depth - 1]!.groups
+  );
+  parentOf[depth - 1] = groupsAt[depth - 1]!.map(() => 0);
+  for (let l = depth - 2; l >= 0; l--) {
+    groupsAt[l] = [];
+    parentOf[l] = [];
+    groupsAt[l + 1]!.forEach((members, p) => {
+      for (const part of split(members, levels[l + 1]!.groupSize)) {
+        groupsAt[l]!.push(part);
+        parentOf[l]!.push(p);
+      }
+    });
+  }
+
+  // Ancestor group of every leaf at every level
+  const leaves = groupsAt[0]!;
+  const ancestors = leaves.map((_, leaf) => {
+    const chain = [leaf];
+    for (let l = 1; l < depth; l++) {
+      chain.push(parentOf[l - 1]![chain[l - 1]!]!);
+    }
+    return chain;
+  });
+  const sumsAt = groupsAt.map(groups =>
+    groups.map(g => g.reduce((acc, idx) => acc + items[idx]!.capacity, 0))
+  );
+  // Three largest and three smallest groups of every level: the spread after
+  // two sums change follows from them without a scan over all groups
+  const extremesOf = (sums: number[]) => {
+    const order = sums.map((_, g) => g).sort((x, y) => sums[y]! - sums[x]!);
+    return { top: order.slice(0, 3), bottom: order.slice(-3).reverse() };
+  };
+  const extremesAt = sumsAt.map(extremesOf);
+  const spreadAfter = (
+    l: number,
+    ga: number,
+    sumA: number,
+    gb: number,
+    sumB: number
+  ): number => {
+    const sums = sumsAt[l]!;
+    const { top, bottom } = extremesAt[l]!;
+    const high = top.find(g => g !== ga && g !== gb);
+    const low = bottom.find(g => g !== ga && g !== gb);
+    return (
+      Math.max(sumA, sumB, high === undefined ? -Infinity : sums[high]!) -
+      Math.min(sumA, sumB, low === undefined ? Infinity : sums[low]!)
+    );
+  };
+
+  // Refinement: first-improvement 1↔1 swaps across leaves; each scan goes
+  // on past a swap with the updated sums, reading the clock every 256 pairs
+  let iterations = 0;
+  let evaluations = 0;
+  let improved = refine && leaves.length > 1;
+  while (improved && iterations < refineIters) {
+    improved = false;
+    if (performance.now() > deadline) break;
+    search: for (let a = 0; a < leaves.length; a++) {
+      for (let b = a + 1; b < leaves.length; b++) {
+        // Levels where the two leaves belong to different groups
+        const differing: number[] = [];
+        for (let l = 0; l < depth; l++) {
+          if (ancestors[a]![l] !== ancestors[b]![l]) differing.push(l);
+        }
+        for (let pa = 0; pa < leaves[a]!.length; pa++) {
+          for (let pb = 0; pb < leaves[b]!.length; pb++) {
+            const ia = leaves[a]![pa]!;
+            const ib = leaves[b]![pb]!;
+            if (++evaluations % 256 === 0 && performance.now() > deadline) {
+              break search;
+            }
+            const diff = items[ib]!.capacity - items[ia]!.capacity;
+            if (diff === 0) continue;
+
+            let change = 0;
+            for (const l of differing) {
+              const sums = sumsAt[l]!;
+              const ga = ancestors[a]![l]!;
+              const gb = ancestors[b]![l]!;
+              const { top, bottom } = extremesAt[l]!;
+              change +=
+                spreadAfter(l, ga, sums[ga]! + diff, gb, sums[gb]! - diff) -
+                (sums[top[0]!]! - sums[bottom[0]!]!);
+            }
+            if (change >= 0) continue;
+
+            for (const l of differing) {
+              sumsAt[l]![ancestors[a]![l]!]! += diff;
+              sumsAt[l]![ancestors[b]![l]!]! -= diff;
+              extremesAt[l] = extremesOf(sumsAt[l]!);
+            }
+            leaves[a]![pa] = ib;
+            leaves[b]![pb] = ia;
+            iterations++;
+            improved = true;
+            if (iterations >= refineIters) break search;
+          }
+        }
+      }
+    }
+  }
+
+  // Rebuild the item sets of the upper levels from the refined leaves
+  for (let l = 1; l < depth; l++) {
+    groupsAt[l] = groupsAt[l]!.map(() => []);
+    groupsAt[l - 1]!.forEach((members, g) => {
+      groupsAt[l]![parentOf[l - 1]![g]!]!.push(...members);
+    });
+  }
+
+  const methodUsed = iterations > 0 ? 'hierarchical-refined' : 'hierarchical';
+  const levelGroupings = groupsAt.map(groups =>
+    toLevelGrouping(items, groups, methodUsed)
+  );
+
+  const buildNode = (level: number, index: number): HierarchyNode => {
+    const members =
+      level === depth ? items.map((_, idx) => idx) : groupsAt[level]![index]!;
+    const children: HierarchyNode[] = [];
+    if (level > 0) {
+      const below = level - 1;
+      groupsAt[below]!.forEach((_, child) => {
+        if (parentOf[below]![child] === index) {
+          children.push(buildNode(below, child));
+        }
+      });
+    }
+    return {
+      level,
+      index,
+      sum: members.reduce((acc, idx) => acc + items[idx]!.capacity, 0),
+      itemIds: members.map(idx => items[idx]!.id),
+      children,
+    };
+  };
+
+  return {
+    root: buildNode(depth, 0),
+    levels: levelGroupings,
+    iterations,
+  };
+}
@@ -1,23 +1,137 @@
-import { Item, PartitionOptions, Grouping, NormalizedOptions } from './types.js';
+import {
+  Item,
+  ItemConstraints,
+  Objective,
+  PinnedItems,
+  PartitionOptions,
+  Grouping,
+  NormalizedOptions,
+  ItemAssignment,
+  MigrationTradeoffOptions,
+  MigrationTradeoffPoint,
+  Affinity,
+  Edge,
+} from './types.js';
 import {
   validatePartitionInputs,
   validatePartitionOptions,
+  validateGroupTargets,
+  validatePinned,
   ensureInputImmutability,
 } from './validation.js';
 import { evaluateGrouping, validateGrouping } from './algorithms/evaluate.js';
 import { roundRobin } from './algorithms/roundrobin.js';
 import { lpt } from './algorithms/lpt.js';
 import { kk } from './algorithms/kk.js';
+import { localRefine } from './algorithms/localRefine.js';
 import {
   defaultRecoveryManager,
   createGracefulDegradation,
 } from './recovery.js';
-import { createAlgorithmError, isBalancedKGroupsError } from './errors.js';
+import {
+  createAlgorithmError,
+  isBalancedKGroupsError,
+  UnsupportedError,
+  createValidationError,
+} from './errors.js';
 import { dp } from './algorithms/dp.js';
 import { backtracking } from './algorithms/backtracking.js';
 import { flow } from './algorithms/flow.js';
 import { metaheuristic } from './algorithms/metaheuristic.js';
+import { ilp } from './algorithms/ilp.js';
+import { homogeneous } from './algorithms/homogeneous.js';
+import { balancedKMeans } from './algorithms/kmeans.js';
+import { kernighanLin } from './algorithms/kernighanLin.js';
 import { globalPerformanceHistoryTracker } from './performanceHistory.js';
+import { hasUniformSizes, resolveGroupSizes } from './utils/groupSizes.js';
+import {
+  computeGroupLoads,
+  dimensionScore,
+  DimensionOptions,
+  getCapacityVectors,
+  getDimensionCount,
+  proxyCapacities,
+  resolveDimensionObjective,
+} from './utils/dimensions.js';
+import { resolveGroupTargets, targetShares } from './utils/targets.js';
+import { objectiveScore } from './utils/objective.js';
+import {
+  assertConstraintsFeasible,
+  buildConstraintModel,
+  hasConstraints,
+} from './utils/constraints.js';
+import {
+  baselineGrouping,
+  buildMigrationModel,
+  countMoves,
+  migrationCost,
+} from './utils/migration.js';
+import { assignmentCost, buildAffinityModel } from './utils/affinity.js';
+import { buildFeatureModel, centroidSpread } from './utils/features.js';
+import { buildSpatialModel, groupCompactness } from './utils/spatial.js';
+import { buildGraphModel, cutWeight } from './utils/graph.js';
+import { assertCapsFeasible, capOverflow, resolveCaps } from './utils/caps.js';
+import { resolveScaleFactor, scaleItems } from './utils/scale.js';
+
+/**
+ * Methods able to produce groups of different sizes
+ */
+const UNEVEN_SIZE_METHODS = ['auto', 'roundrobin', 'lpt', 'kk'];
+
+/**
+ * Methods able to balance items carrying capacity vectors
+ */
+const VECTOR_METHODS = ['auto', 'lpt', 'metaheuristic'];
+
+/**
+ * Methods able to balance against per-group targets or weights
+ */
+const TARGET_METHODS = ['auto', 'lpt', 'kk', 'metaheuristic'];
+
+/**
+ * Methods able to honour must-link / cannot-link constraints
+ */
+const CONSTRAINT_METHODS = ['auto', 'roundrobin', 'lpt', 'metaheuristic'];
+
+/**
+ * Methods able to keep pinned items in their assigned group
+ */
+const PINNED_METHODS = ['auto', 'roundrobin', 'lpt', 'kk', 'metaheuristic'];
+
+/**
+ * Methods able to fill per-category quotas (stratify)
+ */
+const STRATIFY_METHODS = ['auto', 'roundrobin', 'lpt'];
+
+/**
+ * Methods able to trade balance against moves off a baseline
+ */
+const MIGRATION_METHODS = ['auto', 'metaheuristic'];
+
+/**
+ * Methods able to weigh item-to-group placement costs (affinity)
+ */
+const AFFINITY_METHODS = ['auto', 'lpt', 'metaheuristic'];
+
+/**
+ * Methods able to even out feature centroids ('anticlustering')
+ */
+const ANTICLUSTERING_METHODS = ['auto', 'metaheuristic'];
+
+/**
+ * Methods able to keep groups spatially compact (items with `position`)
+ */
+const SPATIAL_METHODS = ['auto', 'metaheuristic'];
+
+/**
+ * Methods able to weigh the edge cut against balance (edges)
+ */
+const GRAPH_METHODS = ['auto', 'metaheuristic'];
+
+/**
+ * Methods able to keep group sums within hard caps (maxGroupSum)
+ */
+const CAP_METHODS = ['auto', 'lpt', 'metaheuristic'];
 
 /**
  * Normalizes and validates partition options with defaults
@@ -35,9 +149,67 @@ function normalizeOptions(options: PartitionOptions = {}): NormalizedOptions {
     selectionStrategy: options.selectionStrategy,
     hybrid: options.hybrid,
     allowPlaceholderAlgorithms: options.allowPlaceholderAlgorithms ?? false,
+    algorithmConfig: options.algorithmConfig,
+    dimensionWeights: options.dimensionWeights,
+    dimensionObjective: options.dimensionObjective,
+    groupTargets: options.groupTargets,
+    groupWeights: options.groupWeights,
+    constraints: options.constraints,
+    pinned: options.pinned,
+    stratify: options.stratify,
+    objective: options.objective,
+    baseline: options.baseline,
+    moveCost: options.moveCost,
+    moveCostWeight: options.moveCostWeight,
+    affinity: options.affinity,
+    affinityWeight: options.affinityWeight,
+    maxGroupSum: options.maxGroupSum,
+    featureWeight: options.featureWeight,
+    homogeneity: options.homogeneity,
+    compactnessWeight: options.compactnessWeight,
+    edges: options.edges,
+    edgeCutWeight: options.edgeCutWeight,
   };
 }
 
+/**
+ * Converts the raw result of an index-based algorithm (dp, backtracking,
+ * flow, metaheuristic, ilp) into a Grouping
+ */
+function toGrouping(
+  items: Item[],
+  res: {
+    groupsByIndex: number[][];
+    groupSums: number[];
+    iterations: number;
+    method: string;
+    isOptimal?: boolean;
+    bound?: number;
+    mipGap?: number;
+    objectiveValue?: number;
+  }
+): Grouping {
+  const grouping: Grouping = {
+    groupsById: res.groupsByIndex.map(g => g.map(i => items[i]!.id)),
+    groupsByIndex: res.groupsByIndex,
+    groupSums: res.groupSums,
+    delta: Math.max(...res.groupSums) - Math.min(...res.groupSums),
+    stdev: 0,
+    iterations: res.iterations,
+    methodUsed: res.method,
+  };
+  // Optimality proof of exact solvers
+  if (res.isOptimal !== undefined) {
+    grouping.isOptimal = res.isOptimal;
+    grouping.bound = res.bound;
+    grouping.mipGap = res.mipGap;
+  }
+  if (res.objectiveValue !== undefined) {
+    grouping.objectiveValue = res.objectiveValue;
+  }
+  return grouping;
+}
+
 /**
  * Main function to partition items into balanced groups
  * @param items Array of items to partition
@@ -54,21 +226,316 @@ export function partitionBalanced(
   items: Item[],
   groups: number,
   groupSize: number,
-  options: PartitionOptions = {}
+  options?: PartitionOptions
+): Grouping;
+/**
+ * Partition items into balanced groups with an explicit size per group
+ * @param items Array of items to partition
+ * @param groupSizes Number of items in each group (must sum to items.length)
+ * @param options Configuration options
+ * @returns Partitioning result with groups and metrics
+ * @example
+ * const items = fromCapacities([10, 8, 6, 4, 2, 1, 1]);
+ * const result = partitionBalanced(items, [3, 4], { method: 'lpt' });
+ * console.log(result.groupsById, result.delta);
+ */
+export function partitionBalanced(
+  items: Item[],
+  groupSizes: number[],
+  options?: PartitionOptions
+): Grouping;
+export function partitionBalanced(
+  items: Item[],
+  groupsOrSizes: number | number[],
+  groupSizeOrOptions?: number | PartitionOptions,
+  maybeOptions?: PartitionOptions
 ): Grouping {
   const startTime = performance.now();
+  const explicitSizes = Array.isArray(groupsOrSizes)
+    ? groupsOrSizes
+    : undefined;
+  const groups = explicitSizes
+    ? explicitSizes.length
+    : (groupsOrSizes as number);
+  const groupSize = explicitSizes
+    ? Math.max(0, ...explicitSizes)
+    : (groupSizeOrOptions as number);
+  const options: PartitionOptions =
+    (explicitSizes
+      ? (groupSizeOrOptions as PartitionOptions | undefined)
+      : maybeOptions) ?? {};
 
   try {
     // Validate inputs
-    validatePartitionInputs(items, groups, groupSize);
+    validatePartitionInputs(items, groups, groupSize, explicitSizes);
     validatePartitionOptions(options as Record<string, unknown>);
 
+    // Uniform size vectors reduce to the classic N×M problem
+    const groupSizes =
+      explicitSizes && !hasUniformSizes(explicitSizes)
+        ? explicitSizes
+        : undefined;
+    const method = options.method ?? 'auto';
+    if (groupSizes && !UNEVEN_SIZE_METHODS.includes(method)) {
+      throw new UnsupportedError(
+        `Method '${method}' does not support uneven group sizes; use one of: ${UNEVEN_SIZE_METHODS.join(', ')}`,
+        { method, groupSizes }
+      );
+    }
+    const isVector = getDimensionCount(items) > 0;
+    if (isVector && !VECTOR_METHODS.includes(method)) {
+      throw new UnsupportedError(
+        `Method '${method}' does not support capacity vectors; use one of: ${VECTOR_METHODS.join(', ')}`,
+        { method, dimensions: getDimensionCount(items) }
+      );
+    }
+    validateGroupTargets(options, groups);
+    if (
+      (options.groupTargets || options.groupWeights) &&
+      !TARGET_METHODS.includes(method)
+    ) {
+      throw new UnsupportedError(
+        `Method '${method}' does not support per-group targets; use one of: ${TARGET_METHODS.join(', ')}`,
+        { method }
+      );
+    }
+
+    validatePinned(options.pinned, groups);
+    const pinned = hasConstraints(undefined, options.pinned)
+      ? options.pinned
+      : undefined;
+    if (pinned && !PINNED_METHODS.includes(method)) {
+      throw new UnsupportedError(
+        `Method '${method}' does not support pinned items; use one of: ${PINNED_METHODS.join(', ')}`,
+        { method }
+      );
+    }
+
+    // Collapse must-links and reject constraint sets no grouping can satisfy
+    const constraintModel = buildConstraintModel(
+      items,
+      options.constraints,
+      pinned
+    );
+    const constraints = hasConstraints(options.constraints)
+      ? options.constraints
+      : undefined;
+    if (constraints && !CONSTRAINT_METHODS.includes(method)) {
+      throw new UnsupportedError(
+        `Method '${method}' does not support item constraints; use one of: ${CONSTRAINT_METHODS.join(', ')}`,
+        { method }
+      );
+    }
+    if (constraintModel) {
+      assertConstraintsFeasible(
+        items,
+        constraintModel,
+        resolveGroupSizes(groups, groupSize, groupSizes)
+      );
+    }
+
+    // Per-category quotas are filled by dedicated construction paths
+    const stratify = options.stratify === true;
+    if (stratify && !STRATIFY_METHODS.includes(method)) {
+      throw new UnsupportedError(
+        `Method '${method}' does not support stratify; use one of: ${STRATIFY_METHODS.join(', ')}`,
+        { method }
+      );
+    }
+    if (stratify && (isVector || constraintModel)) {
+      throw new UnsupportedError(
+        'stratify cannot be combined with capacity vectors, constraints or pinned items',
+        { method }
+      );
+    }
+
+    // Moves off the baseline are penalized by λ × moveCost
+    const migration = buildMigrationModel(items, options, groups);
+    if (migration && !MIGRATION_METHODS.includes(method)) {
+      throw new UnsupportedError(
+        `Method '${method}' does not support a migration baseline; use one of: ${MIGRATION_METHODS.join(', ')}`,
+        { method }
+      );
+    }
+    let migrationOptions = migration
+      ? {
+          baseline: options.baseline,
+          moveCost: options.moveCost,
+          moveCostWeight: options.moveCostWeight,
+        }
+      : undefined;
+
+    // Placement costs are weighed against balance
+    const affinity = buildAffinityModel(items, options, groups);
+    if (affinity && !AFFINITY_METHODS.includes(method)) {
+      throw new UnsupportedError(
+        `Method '${method}' does not support affinity; use one of: ${AFFINITY_METHODS.join(', ')}`,
+        { method }
+      );
+    }
+    let affinityOptions = affinity
+      ? { affinity: options.affinity, affinityWeight: options.affinityWeight }
+      : undefined;
+
+    // Anticlustering weighs the spread of the group feature centroids
+    const features = buildFeatureModel(items, options);
+    if (features && !ANTICLUSTERING_METHODS.includes(method)) {
+      throw new UnsupportedError(
+        `Method '${method}' does not support the 'anticlustering' objective; use one of: ${ANTICLUSTERING_METHODS.join(', ')}`,
+        { method }
+      );
+    }
+    let featureOptions = features
+      ? { featureWeight: options.featureWeight }
+      : undefined;
+
+    // Items with positions are kept close to their group centroid
+    const spatial = buildSpatialModel(items, options);
+    if (spatial && !SPATIAL_METHODS.includes(method)) {
+      throw new UnsupportedError(
+        `Method '${method}' does not support item positions (compactness); use one of: ${SPATIAL_METHODS.join(', ')}, or set compactnessWeight to 0`,
+        { method }
+      );
+    }
+    let spatialOptions = spatial
+      ? { compactnessWeight: options.compactnessWeight }
+      : undefined;
+
+    // Edges joining different groups are weighed against balance; the cut
+    // is still reported when its weight is 0
+    const graph = buildGraphModel(items, options);
+    const weighsCut = graph !== undefined && graph.weight > 0;
+    if (weighsCut && !GRAPH_METHODS.includes(method)) {
+      throw new UnsupportedError(
+        `Method '${method}' does not support edges; use one of: ${GRAPH_METHODS.join(', ')}, or set edgeCutWeight to 0`,
+        { method }
+      );
+    }
+    let graphOptions = weighsCut
+      ? { edges: options.edges, edgeCutWeight: options.edgeCutWeight }
+      : undefined;
+
+    // Hard caps on group sums, rejected up front when provably infeasible
+    const caps = resolveCaps(options.maxGroupSum, groups);
+    if (caps && !CAP_METHODS.includes(method)) {
+      throw new UnsupportedError(
+        `Method '${method}' does not support maxGroupSum; use one of: ${CAP_METHODS.join(', ')}`,
+        { method }
+      );
+    }
+    if (caps && isVector) {
+      throw new UnsupportedError(
+        'maxGroupSum caps scalar capacities and cannot be combined with capacity vectors',
+        { method }
+      );
+    }
+    if (caps) {
+      assertCapsFeasible(
+        items,
+        caps,
+        resolveGroupSizes(groups, groupSize, groupSizes),
+        pinned
+      );
+    }
+    let maxGroupSum = caps ? options.maxGroupSum : undefined;
+    if (options.scale !== undefined && isVector) {
+      throw new UnsupportedError(
+        'scale applies to scalar capacities and cannot be combined with capacity vectors',
+        { method }
+      );
+    }
+
+    // Homogeneous groups ignore sums and are built by a dedicated solver
+    const homogeneousObjective = options.objective === 'homogeneous';
+    if (homogeneousObjective && method !== 'auto') {
+      throw new UnsupportedError(
+        `Method '${method}' does not support the 'homogeneous' objective; use 'auto'`,
+        { method }
+      );
+    }
+    if (
+      homogeneousObjective &&
+      (isVector ||
+        constraintModel ||
+        stratify ||
+        migration ||
+        affinity ||
+        caps ||
+        spatial ||
+        weighsCut ||
+        options.groupTargets ||
+        options.groupWeights)
+    ) {
+      throw new UnsupportedError(
+        "The 'homogeneous' objective cannot be combined with capacity vectors, constraints, pinned items, stratify, a baseline, affinity, caps, positions, edges or group targets",
+        { method }
+      );
+    }
+
     // Ensure input immutability
     const itemsCopy = ensureInputImmutability(items);
 
     // Normalize options with defaults
     const normalizedOptions = normalizeOptions(options);
 
+    // Per-group target sums (undefined when every group gets an equal share)
+    const groupTargets = resolveGroupTargets(
+      itemsCopy.reduce((sum, item) => sum + item.capacity, 0),
+      normalizedOptions
+    );
+
+    // Exact arithmetic: algorithms run on integer capacities (×factor), and
+    // every score and option in capacity units is scaled alike
+    const scaleFactor =
+      options.scale !== undefined
+        ? resolveScaleFactor(itemsCopy, options.scale)
+        : undefined;
+    const algorithmItems = scaleFactor
+      ? scaleItems(itemsCopy, scaleFactor)
+      : itemsCopy;
+    if (scaleFactor) {
+      const factor = scaleFactor;
+      normalizedOptions.earlyStopDelta *= factor;
+      const { objective } = normalizedOptions;
+      if (typeof objective === 'function') {
+        normalizedOptions.objective = sums =>
+          objective(sums.map(s => s / factor)) * factor;
+      }
+      if (migrationOptions) {
+        migrationOptions = {
+          ...migrationOptions,
+          moveCostWeight: (migrationOptions.moveCostWeight ?? 1) * factor,
+        };
+      }
+      if (affinityOptions) {
+        affinityOptions = {
+          ...affinityOptions,
+          affinityWeight: (affinityOptions.affinityWeight ?? 1) * factor,
+        };
+      }
+      if (featureOptions) {
+        featureOptions = {
+          featureWeight: (featureOptions.featureWeight ?? 1) * factor,
+        };
+      }
+      if (spatialOptions) {
+        spatialOptions = {
+          compactnessWeight: (spatialOptions.compactnessWeight ?? 1) * factor,
+        };
+      }
+      if (graphOptions) {
+        graphOptions = {
+          ...graphOptions,
+          edgeCutWeight: (graphOptions.edgeCutWeight ?? 1) * factor,
+        };
+      }
+      if (typeof maxGroupSum === 'number') {
+        maxGroupSum *= factor;
+      } else if (maxGroupSum) {
+        maxGroupSum = maxGroupSum.map(cap => cap * factor);
+      }
+    }
+
     // Global pre-checks for recursion/iteration-heavy algorithms
     const totalItems = itemsCopy.length;
     const isLargeProblem = totalItems > 50 || groups > 10 || groupSize > 20;
@@ -85,27 +552,149 @@ export function partitionBalanced(
     let result: Grouping;
 
     try {
+      const config = normalizedOptions.algorithmConfig ?? {};
+
       switch (normalizedOptions.method) {
         case 'roundrobin':
-          result = roundRobin(itemsCopy, groups, groupSize, { 
-            seed: normalizedOptions.seed 
+          result = roundRobin(algorithmItems, groups, groupSize, {
+            seed: normalizedOptions.seed,
+            groupSizes,
+            constraints,
+            pinned,
+            stratify,
           });
           break;
 
         case 'lpt':
-          result = lpt(itemsCopy, groups, groupSize, {
-            useRefinement: !isLargeProblem, // Skip refinement for large problems
-            maxRefinementIters: Math.floor(normalizedOptions.maxIters / 10),
+          result = lpt(algorithmItems, groups, groupSize, {
+            useRefinement: config.lpt?.useRefinement ?? !isLargeProblem, // Skip refinement for large problems
+            maxRefinementIters:
+              config.lpt?.maxRefinementIters ??
+              Math.floor(normalizedOptions.maxIters / 10),
+            groupSizes,
+            groupTargets,
+            dimensionWeights: normalizedOptions.dimensionWeights,
+            dimensionObjective: normalizedOptions.dimensionObjective,
+            constraints,
+            pinned,
+            stratify,
+            ...affinityOptions,
+            maxGroupSum,
           });
           break;
 
         case 'kk':
-          result = kk(itemsCopy, groups, groupSize);
+          result = kk(algorithmItems, groups, groupSize, {
+            maxLocalIters:
+              config.kk?.useLocalOptimization === false
+                ? 0
+                : config.kk?.maxOptimizationIters,
+            groupSizes,
+            groupTargets,
+            pinned,
+            complete: config.kk?.complete,
+            timeLimitMs: normalizedOptions.timeLimitMs,
+            maxNodes: config.kk?.maxNodes,
+          });
+          break;
+
+        case 'dp':
+          result = toGrouping(
+            algorithmItems,
+            dp(algorithmItems, groups, groupSize, {
+              timeLimitMs: normalizedOptions.timeLimitMs,
+              maxIters: normalizedOptions.maxIters,
+              enableScaling: true,
+              enableMeetInMiddle: config.dp?.useMeetInMiddle ?? true,
+              enableBranchAndBound: true,
+              seed: normalizedOptions.seed,
+              maxStateSize: config.dp?.maxStateSize,
+            })
+          );
+          break;
+
+        case 'backtracking':
+          result = toGrouping(
+            algorithmItems,
+            backtracking(algorithmItems, groups, groupSize, {
+              timeLimitMs: normalizedOptions.timeLimitMs,
+              enablePruning: config.backtracking?.usePruning ?? true,
+              enableEarlyTermination: true,
+              enableBoundCalculation: true,
+              seed: normalizedOptions.seed,
+              maxRecursionDepth:
+                config.backtracking?.maxDepth ?? (isLargeProblem ? 20 : 50),
+              objective: normalizedOptions.objective,
+            })
+          );
+          break;
+
+        case 'flow':
+          result = toGrouping(
+            algorithmItems,
+            flow(algorithmItems, groups, groupSize, {
+              timeLimitMs: normalizedOptions.timeLimitMs,
+              maxIters: normalizedOptions.maxIters,
+            })
+          );
+          break;
+
+        case 'metaheuristic': {
+          const mh = config.metaheuristic ?? {};
+          result = toGrouping(
+            algorithmItems,
+            metaheuristic(algorithmItems, groups, groupSize, {
+              type: mh.type ?? 'genetic',
+              timeLimitMs: normalizedOptions.timeLimitMs,
+              maxIters: normalizedOptions.maxIters,
+              seed: normalizedOptions.seed,
+              populationSize: mh.populationSize,
+              mutationRate: mh.mutationRate,
+              crossoverRate: mh.crossoverRate,
+              coolingRate: mh.coolingRate,
+              tabuSize: mh.tabuListSize,
+              dimensionWeights: normalizedOptions.dimensionWeights,
+              dimensionObjective: normalizedOptions.dimensionObjective,
+              groupTargets,
+              constraints,
+              pinned,
+              objective: normalizedOptions.objective,
+              ...migrationOptions,
+              ...affinityOptions,
+              ...featureOptions,
+              ...spatialOptions,
+              ...graphOptions,
+              maxGroupSum,
+            })
+          );
+          break;
+        }
+
+        case 'ilp':
+          result = toGrouping(
+            algorithmItems,
+            ilp(algorithmItems, groups, groupSize, {
+              timeLimitMs:
+                config.ilp?.timeLimit ?? normalizedOptions.timeLimitMs,
+              maxIters: config.ilp?.maxNodes,
+              solverType: config.ilp?.solver === 'glpk' ? 'glpk' : undefined,
+              mipGap: config.ilp?.mipGap,
+              seed: normalizedOptions.seed,
+            })
+          );
           break;
 
         case 'auto':
         default:
-          result = executeAutoStrategy(itemsCopy, groups, groupSize, {
+          if (homogeneousObjective) {
+            result = homogeneous(algorithmItems, groups, groupSize, {
+              groupSizes,
+              measure: normalizedOptions.homogeneity,
+              maxIters: normalizedOptions.maxIters,
+            });
+            break;
+          }
+          result = executeAutoStrategy(algorithmItems, groups, groupSize, {
             timeLimitMs: normalizedOptions.timeLimitMs,
             seed: normalizedOptions.seed,
             maxIters: normalizedOptions.maxIters,
@@ -117,6 +706,30 @@ export function partitionBalanced(
             hybrid: normalizedOptions.hybrid,
             isLargeProblem,
             isVeryLargeProblem,
+            allowPlaceholderAlgorithms:
+              normalizedOptions.allowPlaceholderAlgorithms,
+            groupSizes,
+            groupTargets,
+            constraints,
+            pinned,
+            stratify,
+            objective: normalizedOptions.objective,
+            migrationOptions,
+            affinityOptions,
+            featureOptions,
+            spatialOptions,
+            graphOptions,
+            maxGroupSum,
+            dimensionOptions: isVector
+              ? {
+                  weights: normalizedOptions.dimensionWeights,
+                  objective: resolveDimensionObjective(
+                    itemsCopy,
+                    normalizedOptions.dimensionObjective
+                  ),
+                  shares: targetShares(groupTargets),
+                }
+              : undefined,
           });
           break;
       }
@@ -125,7 +738,11 @@ export function partitionBalanced(
       const validation = validateGrouping(
         itemsCopy,
         result.groupsByIndex,
-        groupSize
+        groupSizes ?? groupSize,
+        constraints,
+        pinned,
+        stratify,
+        caps
       );
       if (!validation.valid) {
         throw createAlgorithmError(
@@ -140,10 +757,57 @@ export function partitionBalanced(
         maxCacheItems: isLargeProblem ? 500 : 1000,
         maxCacheGroups: isLargeProblem ? 25 : 50,
         maxCacheGroupSize: isLargeProblem ? 50 : 100,
+        scale: scaleFactor,
       });
       result.groupSums = evalResult.groupSums;
       result.delta = evalResult.delta;
       result.stdev = evalResult.stdev;
+      if (evalResult.dimensions) {
+        result.dimensions = evalResult.dimensions;
+      }
+      if (evalResult.categoryCounts) {
+        result.categoryCounts = evalResult.categoryCounts;
+      }
+      if (homogeneousObjective) {
+        result.groupMins = evalResult.groupMins;
+        result.groupMaxes = evalResult.groupMaxes;
+        result.groupRanges = evalResult.groupRanges;
+      }
+      if (evalResult.groupPeaks) {
+        result.peakLoad = evalResult.peakLoad;
+        result.groupPeaks = evalResult.groupPeaks;
+        result.groupPeakTimes = evalResult.groupPeakTimes;
+      }
+      if (evalResult.groupCompactness) {
+        result.compactness = evalResult.compactness;
+        result.groupCompactness = evalResult.groupCompactness;
+      }
+      if (evalResult.featureDiversity) {
+        result.centroidSpread = evalResult.centroidSpread;
+        result.featureDiversity = evalResult.featureDiversity;
+      }
+      if (migration) {
+        result.migrationCost = migrationCost(migration, result.groupsByIndex);
+        result.moveCount = countMoves(migration, result.groupsByIndex);
+      }
+      if (affinity) {
+        result.assignmentCost = assignmentCost(affinity, result.groupsByIndex);
+      }
+      if (graph) {
+        result.cutWeight = cutWeight(graph, result.groupsByIndex);
+      }
+      if (result.bound !== undefined && scaleFactor) {
+        result.bound /= scaleFactor;
+      }
+      if (result.objectiveValue !== undefined && scaleFactor) {
+        result.objectiveValue /= scaleFactor;
+      }
+      if (groupTargets) {
+        result.groupTargets = groupTargets;
+        result.targetDeviations = result.groupSums.map(
+          (sum, g) => sum - groupTargets[g]!
+        );
+      }
 
       return result;
     } catch (algorithmError) {
@@ -152,6 +816,12 @@ export function partitionBalanced(
         algorithmError instanceof Error
           ? algorithmError
           : new Error(String(algorithmError));
+
+      // Fallback groupings ignore constraints, pins, quotas and caps, so
+      // never return one
+      if (constraints || pinned || stratify || maxGroupSum !== undefined) {
+        throw error;
+      }
       const recoveredResult = defaultRecoveryManager.recover(
         itemsCopy,
         groups,
@@ -165,7 +835,13 @@ export function partitionBalanced(
       }
 
       // If recovery fails, create graceful degradation
-      return createGracefulDegradation(itemsCopy, groups, groupSize, error);
+      return createGracefulDegradation(
+        itemsCopy,
+        groups,
+        groupSize,
+        error,
+        groupSizes
+      );
     }
   } catch (error) {
     const endTime = performance.now();
@@ -208,8 +884,62 @@ function executeAutoStrategy(
     isLargeProblem?: boolean;
     isVeryLargeProblem?: boolean;
     allowPlaceholderAlgorithms?: boolean;
+    groupSizes?: number[];
+    groupTargets?: number[];
+    constraints?: ItemConstraints;
+    pinned?: PinnedItems;
+    stratify?: boolean;
+    objective?: Objective;
+    /** Set when moves off a baseline are penalized */
+    migrationOptions?: {
+      baseline?: ItemAssignment;
+      moveCost?: number | Record<string | number, number>;
+      moveCostWeight?: number;
+    };
+    /** Set when items carry placement costs */
+    affinityOptions?: { affinity?: Affinity; affinityWeight?: number };
+    /** Set under the 'anticlustering' objective */
+    featureOptions?: { featureWeight?: number };
+    /** Set when items carry positions */
+    spatialOptions?: { compactnessWeight?: number };
+    /** Set when edges are weighed against balance */
+    graphOptions?: { edges?: Edge[]; edgeCutWeight?: number };
+    maxGroupSum?: number | number[];
+    /** Set when items carry capacity vectors */
+    dimensionOptions?: DimensionOptions;
   }
 ): Grouping {
+  const {
+    groupSizes,
+    groupTargets,
+    constraints,
+    pinned,
+    stratify,
+    objective,
+    migrationOptions,
+    affinityOptions,
+    featureOptions,
+    spatialOptions,
+    graphOptions,
+    maxGroupSum,
+    dimensionOptions,
+  } = options;
+  const shares = targetShares(groupTargets);
+  const migration = migrationOptions
+    ? buildMigrationModel(items, migrationOptions)
+    : undefined;
+  const affinity = affinityOptions
+    ? buildAffinityModel(items, affinityOptions, groups)
+    : undefined;
+  const features = featureOptions
+    ? buildFeatureModel(items, { objective, ...featureOptions })
+    : undefined;
+  const spatial = spatialOptions
+    ? buildSpatialModel(items, spatialOptions)
+    : undefined;
+  const graph = graphOptions ? buildGraphModel(items, graphOptions) : undefined;
+  const caps = resolveCaps(maxGroupSum, groups);
+  const vectors = dimensionOptions ? getCapacityVectors(items) : null;
   const startTime = performance.now();
   let bestResult: Grouping | null = null;
 
@@ -221,6 +951,54 @@ function executeAutoStrategy(
     options.allowPlaceholderAlgorithms ?? false
   );
 
+  // Only vector-aware heuristics can balance capacity vectors
+  if (vectors) {
+    baseCandidates = VECTOR_METHODS.filter(a => a !== 'auto');
+  }
+
+  // Only size-aware heuristics can handle uneven group sizes
+  if (groupSizes) {
+    baseCandidates = baseCandidates.filter(a =>
+      UNEVEN_SIZE_METHODS.includes(a)
+    );
+  }
+
+  // Only target-aware heuristics can balance heterogeneous groups
+  if (groupTargets) {
+    baseCandidates = baseCandidates.filter(a => TARGET_METHODS.includes(a));
+  }
+
+  // Only constraint-aware heuristics may place constrained items
+  if (constraints) {
+    baseCandidates = baseCandidates.filter(a => CONSTRAINT_METHODS.includes(a));
+  }
+
+  // Only pin-aware heuristics may place pinned items
+  if (pinned) {
+    baseCandidates = baseCandidates.filter(a => PINNED_METHODS.includes(a));
+  }
+
+  // Only quota-aware heuristics may place stratified items
+  if (stratify) {
+    baseCandidates = baseCandidates.filter(a => STRATIFY_METHODS.includes(a));
+  }
+
+  // Only affinity-aware heuristics weigh placement costs
+  if (affinity) {
+    baseCandidates = baseCandidates.filter(a => AFFINITY_METHODS.includes(a));
+  }
+
+  // Only cap-aware heuristics keep group sums within their caps
+  if (caps) {
+    baseCandidates = baseCandidates.filter(a => CAP_METHODS.includes(a));
+  }
+
+  // Positions add the balanced k-means constructor, which places every
+  // item freely
+  if (spatial && !constraints && !pinned && !stratify) {
+    baseCandidates = ['kmeans', ...baseCandidates];
+  }
+
   // Apply disallowed filter
   if (options.disallowedAlgorithms && options.disallowedAlgorithms.length) {
     const disallowed = new Set(
@@ -284,9 +1062,56 @@ function executeAutoStrategy(
     5,
     Math.floor(options.timeLimitMs / Math.max(1, candidates.length))
   );
+  // Time left for the refinement steps after the candidates
+  const remainingMs = (): number =>
+    Math.max(0, options.timeLimitMs - (performance.now() - startTime));
+
+  // Candidates are ranked by the (target-normalized) objective, delta by
+  // default, or by the combined per-dimension spread, plus the weighted
+  // migration, placement, feature, compactness and edge cut costs
+  const scoreOf = (candidate: Grouping): number =>
+    (vectors
+      ? dimensionScore(
+          computeGroupLoads(vectors, candidate.groupsByIndex),
+          dimensionOptions
+        )
+      : objectiveScore(candidate.groupSums, objective, shares)) +
+    (migration
+      ? migration.weight * migrationCost(migration, candidate.groupsByIndex)
+      : 0) +
+    (affinity
+      ? affinity.weight * assignmentCost(affinity, candidate.groupsByIndex)
+      : 0) +
+    (features
+      ? features.weight *
+        centroidSpread(features.vectors, candidate.groupsByIndex)
+      : 0) +
+    (spatial
+      ? spatial.weight *
+        groupCompactness(spatial.positions, candidate.groupsByIndex).reduce(
+          (acc, c) => acc + c,
+          0
+        )
+      : 0) +
+    (graph ? graph.weight * cutWeight(graph, candidate.groupsByIndex) : 0);
+
+  // Built-in scores are 0 for a perfect split, so reaching earlyStopDelta
+  // ends the search; custom objectives may go below 0 and have no such floor
+  const reachedEarlyStop = (candidate: Grouping): boolean =>
+    typeof objective !== 'function' &&
+    scoreOf(candidate) <= options.earlyStopDelta;
+
+  // Excess over the caps ranks before the score
+  const overflowOf = (candidate: Grouping): number =>
+    caps ? capOverflow(candidate.groupSums, caps) : 0;
 
   const tryUpdateBest = (candidate: Grouping) => {
-    if (!bestResult || candidate.delta < bestResult.delta) {
+    if (
+      !bestResult ||
+      overflowOf(candidate) < overflowOf(bestResult) ||
+      (overflowOf(candidate) === overflowOf(bestResult) &&
+        scoreOf(candidate) < scoreOf(bestResult))
+    ) {
       bestResult = candidate;
     }
   };
@@ -302,43 +1127,54 @@ function executeAutoStrategy(
         case 'roundrobin': {
           const rr = roundRobin(items, groups, groupSize, {
             seed: options.seed,
+            groupSizes,
+            constraints,
+            pinned,
+            stratify,
           });
           tryUpdateBest(rr);
-          if (rr.delta <= options.earlyStopDelta) return rr;
+          if (reachedEarlyStop(rr)) return rr;
           break;
         }
         case 'lpt': {
           const lptRes = lpt(items, groups, groupSize, {
             useRefinement: true,
             maxRefinementIters: Math.max(10, Math.floor(options.maxIters / 5)),
+            groupSizes,
+            groupTargets,
+            dimensionWeights: dimensionOptions?.weights,
+            dimensionObjective: dimensionOptions?.objective,
+            constraints,
+            pinned,
+            stratify,
+            ...affinityOptions,
+            maxGroupSum,
           });
           tryUpdateBest(lptRes);
-          if (lptRes.delta <= options.earlyStopDelta) return lptRes;
+          if (overflowOf(lptRes) === 0 && reachedEarlyStop(lptRes)) {
+            return lptRes;
+          }
           break;
         }
         case 'kk': {
-          const kkRes = kk(items, groups, groupSize);
+          const kkRes = kk(items, groups, groupSize, {
+            groupSizes,
+            groupTargets,
+            pinned,
+          });
           tryUpdateBest(kkRes);
-          if (kkRes.delta <= options.earlyStopDelta) return kkRes;
+          if (reachedEarlyStop(kkRes)) return kkRes;
           break;
         }
         case 'dp': {
           const dpRes = dp(items, groups, groupSize, {
             timeLimitMs: perAlgoBudget,
             enableScaling: true,
-            enableMeetInMiddle: items.length >= 8,
-            enableBranchAndBound: items.length <= 10,
+            enableMeetInMiddle: true,
+            enableBranchAndBound: true,
             seed: options.seed,
           });
-          tryUpdateBest({
-            groupsById: dpRes.groupsByIndex.map(g => g.map(i => items[i]!.id)),
-            groupsByIndex: dpRes.groupsByIndex,
-            groupSums: dpRes.groupSums,
-            delta: Math.max(...dpRes.groupSums) - Math.min(...dpRes.groupSums),
-            stdev: 0,
-            iterations: dpRes.iterations,
-            methodUsed: dpRes.method,
-          });
+          tryUpdateBest(toGrouping(items, dpRes));
           break;
         }
         case 'backtracking': {
@@ -349,31 +1185,24 @@ function executeAutoStrategy(
             enableBoundCalculation: true,
             seed: options.seed,
             maxRecursionDepth: options.isLargeProblem ? 20 : 50, // Reduce recursion depth for large problems
+            objective,
           });
-          tryUpdateBest({
-            groupsById: btRes.groupsByIndex.map(g => g.map(i => items[i]!.id)),
-            groupsByIndex: btRes.groupsByIndex,
-            groupSums: btRes.groupSums,
-            delta: Math.max(...btRes.groupSums) - Math.min(...btRes.groupSums),
-            stdev: 0,
-            iterations: btRes.iterations,
-            methodUsed: btRes.method,
-          });
+          tryUpdateBest(toGrouping(items, btRes));
           break;
         }
         case 'flow': {
           const flRes = flow(items, groups, groupSize, {
             timeLimitMs: perAlgoBudget,
           });
-          tryUpdateBest({
-            groupsById: flRes.groupsByIndex.map(g => g.map(i => items[i]!.id)),
-            groupsByIndex: flRes.groupsByIndex,
-            groupSums: flRes.groupSums,
-            delta: Math.max(...flRes.groupSums) - Math.min(...flRes.groupSums),
-            stdev: 0,
-            iterations: flRes.iterations,
-            methodUsed: flRes.method,
+          tryUpdateBest(toGrouping(items, flRes));
+          break;
+        }
+        case 'ilp': {
+          const ilpRes = ilp(items, groups, groupSize, {
+            timeLimitMs: perAlgoBudget,
+            maxIters: options.maxIters,
           });
+          tryUpdateBest(toGrouping(items, ilpRes));
           break;
         }
         case 'metaheuristic': {
@@ -382,16 +1211,31 @@ function executeAutoStrategy(
             timeLimitMs: perAlgoBudget,
             maxIters: Math.max(100, Math.floor(options.maxIters / 2)),
             seed: options.seed,
+            dimensionWeights: dimensionOptions?.weights,
+            dimensionObjective: dimensionOptions?.objective,
+            groupTargets,
+            constraints,
+            pinned,
+            objective,
+            ...migrationOptions,
+            ...affinityOptions,
+            ...featureOptions,
+            ...spatialOptions,
+            ...graphOptions,
+            maxGroupSum,
           });
-          tryUpdateBest({
-            groupsById: mhRes.groupsByIndex.map(g => g.map(i => items[i]!.id)),
-            groupsByIndex: mhRes.groupsByIndex,
-            groupSums: mhRes.groupSums,
-            delta: Math.max(...mhRes.groupSums) - Math.min(...mhRes.groupSums),
-            stdev: 0,
-            iterations: mhRes.iterations,
-            methodUsed: mhRes.method,
+          tryUpdateBest(toGrouping(items, mhRes));
+          break;
+        }
+        case 'kmeans': {
+          const kmRes = balancedKMeans(items, groups, groupSize, {
+            groupSizes,
+            seed: options.seed,
+            maxRefinementIters: Math.max(10, Math.floor(options.maxIters / 5)),
+            timeLimitMs: perAlgoBudget,
+            ...spatialOptions,
           });
+          tryUpdateBest(kmRes);
           break;
         }
         default:
@@ -412,11 +1256,97 @@ function executeAutoStrategy(
       const refined = lpt(items, groups, groupSize, {
         useRefinement: true,
         maxRefinementIters: refineIters,
+        groupSizes,
+        groupTargets,
+        dimensionWeights: dimensionOptions?.weights,
+        dimensionObjective: dimensionOptions?.objective,
+        constraints,
+        pinned,
+        stratify,
+        ...affinityOptions,
+        maxGroupSum,
       });
-      const currentBest = bestResult as Grouping;
-      if (refined.delta < currentBest.delta) {
-        bestResult = refined;
+      tryUpdateBest(refined);
+    } catch {
+      // ignore refinement failure
+    }
+  }
+
+  // Construction heuristics ignore the baseline, item features and
+  // positions: refine the best candidate (and the baseline itself) under
+  // those penalties
+  if (migration || features || spatial) {
+    const starts = bestResult ? [(bestResult as Grouping).groupsByIndex] : [];
+    const fromBaseline = migration
+      ? baselineGrouping(
+          migration,
+          resolveGroupSizes(groups, groupSize, groupSizes)
+        )
+      : undefined;
+    if (
+      fromBaseline &&
+      validateGrouping(
+        items,
+        fromBaseline,
+        groupSizes ?? groupSize,
+        constraints,
+        pinned,
+        stratify
+      ).valid
+    ) {
+      starts.push(fromBaseline);
+    }
+    for (const start of starts) {
+      try {
+        const refined = localRefine(
+          items,
+          start.map(g => [...g]),
+          {
+            maxIters: Math.max(10, Math.floor(options.maxIters / 5)),
+            timeLimitMs: remainingMs(),
+            enable22: !options.isLargeProblem,
+            dimensionWeights: dimensionOptions?.weights,
+            dimensionObjective: dimensionOptions?.objective,
+            groupTargets,
+            constraints,
+            pinned,
+            stratify,
+            objective,
+            ...migrationOptions,
+            ...affinityOptions,
+            ...featureOptions,
+            ...spatialOptions,
+            maxGroupSum,
+          }
+        );
+        tryUpdateBest(toGrouping(items, { ...refined, method: 'localRefine' }));
+      } catch {
+        // ignore refinement failure
       }
+    }
+  }
+
+  // Construction heuristics ignore the edges: Kernighan–Lin passes trade
+  // balance against the cut of the best candidate
+  if (graph && bestResult) {
+    try {
+      const refined = kernighanLin(
+        items,
+        (bestResult as Grouping).groupsByIndex.map(g => [...g]),
+        {
+          ...graphOptions,
+          timeLimitMs: remainingMs(),
+          dimensionWeights: dimensionOptions?.weights,
+          dimensionObjective: dimensionOptions?.objective,
+          groupTargets,
+          constraints,
+          pinned,
+          stratify,
+          objective,
+          maxGroupSum,
+        }
+      );
+      tryUpdateBest(toGrouping(items, { ...refined, method: 'kernighanLin' }));
     } catch {
       // ignore refinement failure
     }
@@ -428,14 +1358,15 @@ function executeAutoStrategy(
       items,
       groups,
       groupSize,
-      new Error('All strategies failed')
+      new Error('All strategies failed'),
+      groupSizes
     )
   );
 }
 
 function determineCandidateAlgorithms(
   problemSize: number,
-  _groups: number,
+  groups: number,
   _groupSize: number,
   timeLimitMs: number,
   allowPlaceholderAlgorithms: boolean = false
@@ -445,31 +1376,32 @@ function determineCandidateAlgorithms(
   // Always include roundrobin as baseline
   candidates.push('roundrobin');
 
-  // Small problems: enable exact/structured approaches
   if (problemSize <= 12) {
-    candidates.push('dp', 'backtracking', 'lpt', 'kk');
-    if (allowPlaceholderAlgorithms) {
-      candidates.push('flow', 'ilp');
+    // Small problems: enable exact/structured approaches
+    candidates.push('dp', 'backtracking', 'lpt', 'kk', 'flow');
+    if (timeLimitMs >= 300) {
+      candidates.push('ilp');
+    }
+  } else if (problemSize <= 60) {
+    // Medium problems
+    candidates.push('lpt', 'kk', 'flow');
+    if (timeLimitMs >= 1000) {
+      candidates.push('ilp');
+    }
+  } else {
+    // Large problems
+    candidates.push('lpt', 'kk', 'flow');
+    if (timeLimitMs >= 300) {
+      candidates.push('metaheuristic');
     }
-    return candidates;
-  }
-
-  // Medium problems
-  if (problemSize <= 60) {
-    candidates.push('lpt', 'kk');
     if (allowPlaceholderAlgorithms) {
-      candidates.push('flow', 'ilp');
+      candidates.push('ilp');
     }
-    return candidates;
   }
 
-  // Large problems
-  candidates.push('lpt', 'kk');
-  if (timeLimitMs >= 300) {
-    candidates.push('metaheuristic');
-  }
-  if (allowPlaceholderAlgorithms) {
-    candidates.push('flow', 'ilp');
+  // Two groups: dp splits exactly by meet in the middle, so it runs first
+  if (groups === 2 && problemSize <= 64) {
+    return ['dp', ...candidates.filter(a => a !== 'dp')];
   }
   return candidates;
 }
@@ -523,6 +1455,93 @@ export function fromCapacities(
   }));
 }
 
+/**
+ * Utility function to create items from per-dimension capacity vectors
+ * @param vectors Capacity vector of each item (same length for every item)
+ * @param idPrefix Optional prefix for generated IDs
+ * @returns Array of Item objects whose scalar `capacity` is the
+ * normalized sum of their dimensions
+ * @example
+ * const items = fromCapacityVectors([[2.1, 30], [1.8, 45]], 'kit_');
+ * // items[0] => { id: 'kit_0', capacity: 1.877, capacities: [2.1, 30] }
+ */
+export function fromCapacityVectors(
+  vectors: number[][],
+  idPrefix: string = 'item'
+): Item[] {
+  const proxies = proxyCapacities(vectors);
+  return vectors.map((capacities, index) => ({
+    id: `${idPrefix}${index}`,
+    capacity: proxies[index]!,
+    capacities: [...capacities],
+  }));
+}
+
+/**
+ * Partitions once per migration weight λ (moveCostWeight) to expose the
+ * trade-off between moves off the baseline and balance
+ * @param items Items to partition
+ * @param groups Number of groups
+ * @param groupSize Items per group
+ * @param options Partition options including the `baseline`; `lambdas`
+ * lists the λ values to evaluate
+ * @returns One point per λ, in the given order, with the Pareto-optimal
+ * points (fewest moves for their delta) flagged
+ * @throws ValidationError when no baseline is given
+ * @example
+ * const points = migrationTradeoff(items, 3, 4, { baseline, lambdas: [0, 1, 5] });
+ * // points[0] => { moveCostWeight: 0, moveCount: 5, delta: 1, ... }
+ */
+export function migrationTradeoff(
+  items: Item[],
+  groups: number,
+  groupSize: number,
+  options: MigrationTradeoffOptions
+): MigrationTradeoffPoint[] {
+  const { lambdas = [0, 0.25, 0.5, 1, 2, 4, 8], ...partitionOptions } = options;
+  if (!options.baseline || Object.keys(options.baseline).length === 0) {
+    throw createValidationError(
+      'options.baseline',
+      options.baseline,
+      'object mapping item IDs to group indices'
+    );
+  }
+  if (
+    !Array.isArray(lambdas) ||
+    !lambdas.every(l => typeof l === 'number' && Number.isFinite(l) && l >= 0)
+  ) {
+    throw createValidationError(
+      'options.lambdas',
+      lambdas,
+      'array of non-negative finite numbers'
+    );
+  }
+
+  const points = lambdas.map(moveCostWeight => {
+    const grouping = partitionBalanced(items, groups, groupSize, {
+      ...partitionOptions,
+      moveCostWeight,
+    });
+    return {
+      moveCostWeight,
+      moveCount: grouping.moveCount ?? 0,
+      migrationCost: grouping.migrationCost ?? 0,
+      delta: grouping.delta,
+      paretoOptimal: true,
+      grouping,
+    };
+  });
+  for (const point of points) {
+    point.paretoOptimal = !points.some(
+      other =>
+        other.moveCount <= point.moveCount &&
+        other.delta <= point.delta &&
+        (other.moveCount < point.moveCount || other.delta < point.delta)
+    );
+  }
+  return points;
+}
+
 /**
  * Re-export key functions and types for public API
  */
@@ -531,6 +1550,29 @@ export type {
   Item,
   PartitionOptions,
   Grouping,
+  DimensionMetrics,
+  DimensionObjective,
+  ItemConstraints,
+  Objective,
+  PinnedItems,
+  ItemChanges,
+  ItemMove,
+  RepartitionOptions,
+  RepartitionResult,
+  ItemAssignment,
+  MigrationTradeoffOptions,
+  MigrationTradeoffPoint,
+  Affinity,
+  CapCheckResult,
+  CapViolation,
+  HierarchyLevel,
+  HierarchicalOptions,
+  HierarchyNode,
+  HierarchicalResult,
+  HomogeneityMeasure,
+  RoundsOptions,
+  RoundsResult,
+  Edge,
 } from './types.js';
 
 export {
@@ -554,5 +1596,17 @@ export {
 // Export individual algorithms for advanced users
 export { roundRobin } from './algorithms/roundrobin.js';
 export { lpt } from './algorithms/lpt.js';
-export { evaluateGrouping } from './algorithms/evaluate.js';
+export { evaluateGrouping, checkCaps } from './algorithms/evaluate.js';
 export { kk } from './algorithms/kk.js';
+export { homogeneous } from './algorithms/homogeneous.js';
+export { balancedKMeans } from './algorithms/kmeans.js';
+export { kernighanLin } from './algorithms/kernighanLin.js';
+
+// Incremental repartitioning of a previous grouping
+export { repartition } from './repartition.js';
+
+// Nested groups (groups of groups)
+export { partitionHierarchical } from './hierarchical.js';
+
+// Repeated rotations that avoid repeat meetings
+export { partitionRounds } from './rounds.js';
@@ -1,4 +1,5 @@
 import { Item, PartitionOptions, Grouping, NormalizedOptions } from './types.js';
+import { resolveGroupSizes } from './utils/groupSizes.js';
 import {
   AlgorithmError,
   TimeoutError,
@@ -261,9 +262,11 @@ export function createGracefulDegradation(
   items: Item[],
   groups: number,
   groupSize: number,
-  originalError: Error
+  originalError: Error,
+  groupSizes?: number[]
 ): Grouping {
   // Create a simple round-robin assignment as last resort
+  const sizes = resolveGroupSizes(groups, groupSize, groupSizes);
   const groupsById: (string | number)[][] = Array.from(
     { length: groups },
     () => []
@@ -276,9 +279,17 @@ export function createGracefulDegradation(
     .map((item, index) => ({ item, index }))
     .sort((a, b) => b.item.capacity - a.item.capacity);
 
-  // Distribute items round-robin
+  // Distribute items round-robin, skipping groups that are already full
+  let groupIndex = groups - 1;
   for (let i = 0; i < sortedItems.length; i++) {
-    const groupIndex = i % groups;
+    groupIndex = (groupIndex + 1) % groups;
+    for (
+      let tries = 0;
+      tries < groups && groupsByIndex[groupIndex]!.length >= sizes[groupIndex]!;
+      tries++
+    ) {
+      groupIndex = (groupIndex + 1) % groups;
+    }
     const { item, index } = sortedItems[i]!;
 
     groupsById[groupIndex]!.push(item.id);
@@ -0,0 +1,266 @@
+import {
+  Grouping,
+  Item,
+  ItemChanges,
+  ItemMove,
+  RepartitionOptions,
+  RepartitionResult,
+} from './types.js';
+import {
+  createValidationError,
+  InfeasibleError,
+  ValidationError,
+} from './errors.js';
+import { validateGroupSizes, validatePartitionInputs } from './validation.js';
+import { compareItemsByCapacity } from './utils/comparators.js';
+import { objectiveScore } from './utils/objective.js';
+
+const SCORE_EPSILON = 1e-9;
+
+/**
+ * Applies removals, capacity updates and additions to the previous items
+ */
+function applyChanges(items: Item[], changes: ItemChanges): Item[] {
+  const known = new Set(items.map(item => item.id));
+  const removed = new Set(changes.removed ?? []);
+  const updated = new Map(
+    (changes.updated ?? []).map(u => [u.id, u.capacity] as const)
+  );
+  for (const id of [...removed, ...updated.keys()]) {
+    if (!known.has(id)) {
+      throw new ValidationError(`Unknown item ID in changes: ${id}`, { id });
+    }
+  }
+
+  const next = items
+    .filter(item => !removed.has(item.id))
+    .map(item => {
+      const copy: Item = { ...item };
+      if (updated.has(item.id)) copy.capacity = updated.get(item.id)!;
+      return copy;
+    });
+  for (const item of changes.added ?? []) next.push({ ...item });
+  return next;
+}
+
+/**
+ * Sizes as even as possible; the larger sizes go to the groups currently
+ * holding the most items so that fewer items have to leave
+ */
+function balancedSizes(counts: number[], total: number): number[] {
+  const groups = counts.length;
+  const base = Math.floor(total / groups);
+  const sizes = new Array<number>(groups).fill(base);
+  const byCount = counts
+    .map((count, g) => ({ count, g }))
+    .sort((a, b) => b.count - a.count || a.g - b.g);
+  for (let k = 0; k < total % groups; k++) sizes[byCount[k]!.g]!++;
+  return sizes;
+}
+
+/**
+ * Incrementally repartitions a previous grouping after items were added,
+ * removed or changed capacity. Existing items keep their group whenever
+ * possible: overfull groups shed the items that bring their sum closest to
+ * its share, new and shed items fill the holes (largest first, into the
+ * least loaded group with room), then 1↔1 swaps refine the objective while
+ * the number of moved items stays within `maxMoves`. Among equally balanced
+ * swaps, those returning items to their original group are preferred.
+ * @param previous Grouping computed for `items`
+ * @param items Items the previous grouping was computed for
+ * @param changes Items to add, remove or update
+ * @returns Grouping of the updated items plus the list of moved items
+ * @throws ValidationError for unknown IDs or a grouping that does not match
+ * the items
+ * @throws InfeasibleError when the group sizes force more than `maxMoves`
+ * moves
+ */
+export function repartition(
+  previous: Grouping,
+  items: Item[],
+  changes: ItemChanges = {},
+  options: RepartitionOptions = {}
+): RepartitionResult {
+  const { maxMoves = Infinity, maxIters = 1000, objective } = options;
+  if (typeof maxMoves !== 'number' || !(maxMoves >= 0)) {
+    throw createValidationError('maxMoves', maxMoves, 'non-negative number');
+  }
+
+  const groups = previous.groupsById.length;
+  const groupOf = new Map<string | number, number>();
+  previous.groupsById.forEach((ids, g) => {
+    for (const id of ids) groupOf.set(id, g);
+  });
+  for (const item of items) {
+    if (!groupOf.has(item.id)) {
+      throw new ValidationError(
+        `Item ${item.id} is not part of the previous grouping`,
+        { id: item.id }
+      );
+    }
+  }
+
+  const nextItems = applyChanges(items, changes);
+  const origin = nextItems.map(item => groupOf.get(item.id) ?? -1);
+  // Added items are new even when they reuse the ID of a removed item
+  const addedIds = new Set((changes.added ?? []).map(item => item.id));
+  nextItems.forEach((item, idx) => {
+    if (addedIds.has(item.id)) origin[idx] = -1;
+  });
+
+  const counts = new Array<number>(groups).fill(0);
+  for (const g of origin) if (g >= 0) counts[g]!++;
+  if (options.groupSizes) validateGroupSizes(options.groupSizes);
+  const sizes = options.groupSizes ?? balancedSizes(counts, nextItems.length);
+  if (sizes.length !== groups) {
+    throw new ValidationError(
+      `groupSizes has ${sizes.length} entries, expected ${groups}`,
+      { groupSizes: sizes, groups }
+    );
+  }
+  validatePartitionInputs(nextItems, groups, sizes[0]!, sizes);
+
+  // Existing items start in their previous group
+  const groupsByIndex: number[][] = Array.from({ length: groups }, () => []);
+  const groupSums = new Array<number>(groups).fill(0);
+  origin.forEach((g, idx) => {
+    if (g < 0) return;
+    groupsByIndex[g]!.push(idx);
+    groupSums[g]! += nextItems[idx]!.capacity;
+  });
+
+  // Overfull groups shed items, which must then move
+  const total = nextItems.reduce((acc, item) => acc + item.capacity, 0);
+  const pool = origin.flatMap((g, idx) => (g < 0 ? [idx] : []));
+  for (let g = 0; g < groups; g++) {
+    const share = (total * sizes[g]!) / nextItems.length;
+    while (groupsByIndex[g]!.length > sizes[g]!) {
+      const members = groupsByIndex[g]!;
+      let bestPos = 0;
+      let bestGap = Infinity;
+      members.forEach((idx, pos) => {
+        const remaining = groupSums[g]! - nextItems[idx]!.capacity;
+        const gap = Math.abs(
+          remaining - (share * (members.length - 1)) / sizes[g]!
+        );
+        if (gap < bestGap) {
+          bestGap = gap;
+          bestPos = pos;
+        }
+      });
+      const [shed] = members.splice(bestPos, 1);
+      groupSums[g]! -= nextItems[shed!]!.capacity;
+      pool.push(shed!);
+    }
+  }
+
+  const requiredMoves = pool.filter(idx => origin[idx]! >= 0).length;
+  if (requiredMoves > maxMoves) {
+    throw new InfeasibleError(
+      `Group sizes force ${requiredMoves} moves, but maxMoves is ${maxMoves}`,
+      { requiredMoves, maxMoves }
+    );
+  }
+
+  // Fill the holes: largest first into the least loaded group with room
+  pool.sort((a, b) => compareItemsByCapacity(nextItems[a]!, nextItems[b]!));
+  for (const idx of pool) {
+    let best = -1;
+    for (let g = 0; g < groups; g++) {
+      if (groupsByIndex[g]!.length >= sizes[g]!) continue;
+      if (best === -1 || groupSums[g]! < groupSums[best]!) best = g;
+    }
+    groupsByIndex[best]!.push(idx);
+    groupSums[best]! += nextItems[idx]!.capacity;
+  }
+
+  // Whether item idx counts as moved when placed in group g
+  const isMoved = (idx: number, g: number): boolean =>
+    origin[idx]! >= 0 && origin[idx] !== g;
+  let moves = 0;
+  groupsByIndex.forEach((members, g) => {
+    for (const idx of members) if (isMoved(idx, g)) moves++;
+  });
+
+  // Refine with 1↔1 swaps within the move budget
+  let score = objectiveScore(groupSums, objective);
+  let iterations = 0;
+  while (iterations < maxIters) {
+    iterations++;
+    let best: { g1: number; p1: number; g2: number; p2: number } | null = null;
+    let bestScore = score;
+    let bestMoves = moves;
+
+    for (let g1 = 0; g1 < groups; g1++) {
+      for (let g2 = g1 + 1; g2 < groups; g2++) {
+        const members1 = groupsByIndex[g1]!;
+        const members2 = groupsByIndex[g2]!;
+        for (let p1 = 0; p1 < members1.length; p1++) {
+          for (let p2 = 0; p2 < members2.length; p2++) {
+            const a = members1[p1]!;
+            const b = members2[p2]!;
+            const diff = nextItems[b]!.capacity - nextItems[a]!.capacity;
+            const nextMoves =
+              moves -
+              Number(isMoved(a, g1)) -
+              Number(isMoved(b, g2)) +
+              Number(isMoved(a, g2)) +
+              Number(isMoved(b, g1));
+            if (nextMoves > maxMoves) continue;
+
+            groupSums[g1]! += diff;
+            groupSums[g2]! -= diff;
+            const nextScore = objectiveScore(groupSums, objective);
+            groupSums[g1]! -= diff;
+            groupSums[g2]! += diff;
+
+            if (
+              nextScore < bestScore - SCORE_EPSILON ||
+              (nextScore <= bestScore + SCORE_EPSILON && nextMoves < bestMoves)
+            ) {
+              best = { g1, p1, g2, p2 };
+              bestScore = nextScore;
+              bestMoves = nextMoves;
+            }
+          }
+        }
+      }
+    }
+
+    if (!best) break;
+    const { g1, p1, g2, p2 } = best;
+    const a = groupsByIndex[g1]![p1]!;
+    const b = groupsByIndex[g2]![p2]!;
+    const diff = nextItems[b]!.capacity - nextItems[a]!.capacity;
+    groupsByIndex[g1]![p1] = b;
+    groupsByIndex[g2]![p2] = a;
+    groupSums[g1]! += diff;
+    groupSums[g2]! -= diff;
+    score = bestScore;
+    moves = bestMoves;
+  }
+
+  const moved: ItemMove[] = [];
+  groupsByIndex.forEach((members, g) => {
+    for (const idx of members) {
+      if (isMoved(idx, g)) {
+        moved.push({ id: nextItems[idx]!.id, from: origin[idx]!, to: g });
+      }
+    }
+  });
+
+  const mean = groupSums.reduce((acc, s) => acc + s, 0) / groups;
+  const variance =
+    groupSums.reduce((acc, s) => acc + Math.pow(s - mean, 2), 0) / groups;
+  return {
+    groupsById: groupsByIndex.map(g => g.map(idx => nextItems[idx]!.id)),
+    groupsByIndex,
+    groupSums,
+    delta: Math.max(...groupSums) - Math.min(...groupSums),
+    stdev: Math.sqrt(variance),
+    iterations,
+    methodUsed: 'repartition',
+    items: nextItems,
+    moves: moved,
+  };
+}
@@ -0,0 +1,179 @@
+import { Grouping, Item, RoundsOptions, RoundsResult } from './types.js';
+import { createValidationError } from './errors.js';
+import { evaluateGrouping } from './algorithms/evaluate.js';
+import { localRefine } from './algorithms/localRefine.js';
+import { partitionBalanced } from './index.js';
+
+/**
+ * Partitions the same items R times (e.g. weekly rotations) so that every
+ * round is capacity-balanced while pairs of items rarely share a group twice.
+ * Each round starts from `partitionBalanced` and from `restarts` random
+ * groupings, whose `localRefine` swaps (1↔1, and 2↔2 for up to 24 items)
+ * minimize the round's imbalance plus the weighted meetings its groups
+ * repeat from earlier rounds; the best refined grouping is kept. Imbalance
+ * is the summed deviation of the group sums from their mean, which is at
+ * least the delta and reflects every group, not just the extremes. Each
+ * repeat costs `meetingWeight` divided by the meetings every item has had
+ * so far, r × (groupSize − 1) in round r + 1, so the growing number of
+ * unavoidable repeats does not outweigh balance in later rounds. The
+ * refinement of all rounds shares `timeLimitMs`.
+ * @param items Items to partition
+ * @param groups Number of groups per round
+ * @param groupSize Number of items per group
+ * @param rounds Number of rounds
+ * @returns Grouping of every round and the pairwise meeting counts
+ * @throws ValidationError for a non-positive round count or meeting weight
+ * @example
+ * const { rounds, maxMeetings } = partitionRounds(people, 4, 5, 6);
+ */
+export function partitionRounds(
+  items: Item[],
+  groups: number,
+  groupSize: number,
+  rounds: number,
+  options: RoundsOptions = {}
+): RoundsResult {
+  if (!Number.isInteger(rounds) || rounds < 1) {
+    throw createValidationError('rounds', rounds, 'positive integer');
+  }
+  const {
+    meetingWeight = items.reduce((acc, item) => acc + item.capacity, 0) /
+      Math.max(1, items.length),
+    refineIters = 200,
+    restarts = 4,
+    seed,
+    ...partitionOptions
+  } = options;
+  if (!Number.isFinite(meetingWeight) || meetingWeight < 0) {
+    throw createValidationError(
+      'options.meetingWeight',
+      meetingWeight,
+      'non-negative finite number'
+    );
+  }
+
+  const n = items.length;
+  const deadline =
+    performance.now() + (partitionOptions.timeLimitMs ?? Infinity);
+  const meetings = items.map(() => new Array<number>(n).fill(0));
+  const results: Grouping[] = [];
+
+  // Simple LCG for deterministic randomness
+  let randState = (seed ?? 123456789) >>> 0;
+  const rand = (): number => {
+    randState = (1664525 * randState + 1013904223) >>> 0;
+    return randState / 0xffffffff;
+  };
+  // Random grouping: shuffled items cut into consecutive groups
+  const shuffled = (): number[][] => {
+    const order = items.map((_, idx) => idx);
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(rand() * (i + 1));
+      [order[i], order[j]] = [order[j]!, order[i]!];
+    }
+    return Array.from({ length: groups }, (_, g) =>
+      order.slice(g * groupSize, (g + 1) * groupSize)
+    );
+  };
+  // Summed deviation of the group sums from their mean
+  const imbalanceOf = (sums: number[]): number => {
+    const mean = sums.reduce((acc, s) => acc + s, 0) / sums.length;
+    return sums.reduce((acc, s) => acc + Math.abs(s - mean), 0);
+  };
+  // Round score: imbalance plus the weighted meetings repeated by its groups
+  const scoreOf = (groupsByIndex: number[][], repeatWeight: number): number => {
+    let repeats = 0;
+    for (const members of groupsByIndex) {
+      for (let a = 0; a < members.length; a++) {
+        for (let b = a + 1; b < members.length; b++) {
+          repeats += meetings[members[a]!]![members[b]!]!;
+        }
+      }
+    }
+    return (
+      imbalanceOf(evaluateGrouping(items, groupsByIndex).groupSums) +
+      repeatWeight * repeats
+    );
+  };
+
+  for (let r = 0; r < rounds; r++) {
+    // Rounds left share the remaining time evenly; a refined round spends
+    // half of its share on the balanced start
+    const refining = r > 0 && meetingWeight > 0;
+    const roundDeadline =
+      performance.now() +
+      Math.max(0, deadline - performance.now()) / (rounds - r);
+    const start = partitionBalanced(items, groups, groupSize, {
+      ...partitionOptions,
+      seed: seed === undefined ? undefined : seed + r,
+      ...(Number.isFinite(deadline)
+        ? {
+            timeLimitMs:
+              Math.max(0, roundDeadline - performance.now()) /
+              (refining ? 2 : 1),
+          }
+        : {}),
+    });
+    let groupsByIndex = start.groupsByIndex;
+    let methodUsed = start.methodUsed;
+
+    // Later rounds trade balance against meeting the same items again,
+    // refining the balanced start and a few random restarts
+    if (refining) {
+      const repeatWeight = meetingWeight / (r * Math.max(1, groupSize - 1));
+      const pairCost = meetings.map(row => row.map(m => m * repeatWeight));
+      let bestScore = scoreOf(groupsByIndex, repeatWeight);
+      const starts = [groupsByIndex];
+      for (let k = 0; k < restarts; k++) starts.push(shuffled());
+      for (const initial of starts) {
+        if (performance.now() > roundDeadline) break;
+        const refined = localRefine(
+          items,
+          initial.map(g => [...g]),
+          {
+            maxIters: refineIters,
+            enable22: n <= 24,
+            pairCost,
+            objective: imbalanceOf,
+            timeLimitMs: Math.max(0, roundDeadline - performance.now()),
+          }
+        );
+        const score = scoreOf(refined.groupsByIndex, repeatWeight);
+        if (score < bestScore) {
+          bestScore = score;
+          groupsByIndex = refined.groupsByIndex;
+          methodUsed = 'rounds-refined';
+        }
+      }
+    }
+
+    for (const members of groupsByIndex) {
+      for (const a of members) {
+        for (const b of members) {
+          if (a !== b) meetings[a]![b]!++;
+        }
+      }
+    }
+    const evaluation = evaluateGrouping(items, groupsByIndex);
+    results.push({
+      groupsById: groupsByIndex.map(g => g.map(idx => items[idx]!.id)),
+      groupsByIndex,
+      groupSums: evaluation.groupSums,
+      delta: evaluation.delta,
+      stdev: evaluation.stdev,
+      methodUsed,
+    });
+  }
+
+  let repeatMeetings = 0;
+  let maxMeetings = 0;
+  for (let a = 0; a < n; a++) {
+    for (let b = a + 1; b < n; b++) {
+      const m = meetings[a]![b]!;
+      repeatMeetings += Math.max(0, m - 1);
+      maxMeetings = Math.max(maxMeetings, m);
+    }
+  }
+
+  return { rounds: results, meetings, repeatMeetings, maxMeetings };
+}
@@ -6,6 +6,116 @@ export interface Item {
   id: string | number;
   /** Positive decimal capacity of the item */
   capacity: number;
+  /**
+   * Optional per-dimension capacities (e.g. weight and volume) for
+   * multi-dimensional balancing. `capacity` is then used as a scalar proxy
+   * by algorithms that only balance a single dimension.
+   */
+  capacities?: number[];
+  /** Optional category (e.g. region or label) used by `stratify` */
+  category?: string | number;
+  /**
+   * Optional feature vector (e.g. grade, age) used by the 'anticlustering'
+   * objective to make groups alike in feature distribution
+   */
+  features?: number[];
+  /**
+   * Optional coordinates (e.g. longitude/latitude) used to keep groups
+   * spatially compact
+   */
+  position?: number[];
+  /**
+   * Optional time-series load (e.g. hourly); groups are balanced on their
+   * aggregated profile like capacity vectors, one dimension per period
+   */
+  profile?: number[];
+}
+
+/**
+ * How per-dimension deltas are combined into a single objective
+ * - 'worst': minimize the largest weighted per-dimension delta
+ * - 'weighted': minimize the weighted sum of per-dimension deltas
+ * - 'peak': minimize the largest weighted group load in any dimension
+ *   (default for items with a `profile`)
+ */
+export type DimensionObjective = 'worst' | 'weighted' | 'peak';
+
+/**
+ * What the algorithms minimize when comparing groupings of scalar items
+ * - 'delta': max − min group sum (default)
+ * - 'stdev': standard deviation of group sums
+ * - 'makespan': the largest group sum
+ * - 'maxmin': maximize the smallest group sum
+ * - 'anticlustering': delta plus `featureWeight` × the spread of the group
+ *   centroids of item `features` (groups alike in feature distribution)
+ * - 'homogeneous': the largest within-group capacity spread (matching
+ *   groups of near-identical items instead of balanced sums)
+ * - a function scoring the group sums (lower is better)
+ */
+export type Objective =
+  | 'delta'
+  | 'stdev'
+  | 'makespan'
+  | 'maxmin'
+  | 'anticlustering'
+  | 'homogeneous'
+  | ((groupSums: number[]) => number);
+
+/**
+ * Within-group spread minimized by the 'homogeneous' objective
+ * - 'range': max − min capacity in the group
+ * - 'variance': variance of the capacities in the group
+ */
+export type HomogeneityMeasure = 'range' | 'variance';
+
+/**
+ * Balance metrics for a single capacity dimension
+ */
+export interface DimensionMetrics {
+  /** Sum of the dimension for each group */
+  groupSums: number[];
+  /** Delta between max and min group sums in this dimension */
+  delta: number;
+  /** Standard deviation of group sums in this dimension */
+  stdev: number;
+}
+
+/**
+ * Pairwise placement constraints between items, referenced by item ID
+ */
+export interface ItemConstraints {
+  /** Pairs of items that must end up in the same group */
+  mustLink?: [string | number, string | number][];
+  /** Pairs of items that must never share a group */
+  cannotLink?: [string | number, string | number][];
+}
+
+/**
+ * Pre-assigned items: item ID → index of the group the item must stay in
+ */
+export type PinnedItems = Record<string | number, number>;
+
+/**
+ * A (possibly partial) assignment of items to groups: item ID → group index
+ */
+export type ItemAssignment = Record<string | number, number>;
+
+/**
+ * Cost of placing an item in a group: a function of item ID and group index,
+ * or a dense matrix indexed by item index then group index
+ */
+export type Affinity =
+  | ((itemId: string | number, groupIndex: number) => number)
+  | number[][];
+
+/**
+ * Weighted edge between two items, referenced by item ID
+ */
+export interface Edge {
+  a: string | number;
+  b: string | number;
+  /** Cost of separating the two items into different groups (default: 1) */
+  weight?: number;
 }
 
 /**
@@ -23,7 +133,10 @@ export interface PartitionOptions {
     | 'metaheuristic'
     | 'flow'
     | 'roundrobin';
-  /** Scaling factor for numerical precision (RESERVED - not yet implemented) */
+  /**
+   * Run on integer capacities for exact sums: 'auto' scales by 10^(decimal
+   * places), a number multiplies capacities before rounding
+   */
   scale?: 'auto' | number;
   /** Maximum time limit in milliseconds */
   timeLimitMs?: number;
@@ -35,7 +148,7 @@ export interface PartitionOptions {
   threads?: number;
   /** Tolerance for convergence */
   tolerance?: number;
-  /** Early stopping delta threshold */
+  /** Early stopping delta threshold (built-in objectives only) */
   earlyStopDelta?: number;
   /** Return intermediate results (RESERVED - not yet implemented) */
   returnIntermediate?: boolean;
@@ -52,8 +165,59 @@ export interface PartitionOptions {
     enable?: boolean;
     refineIters?: number;
   };
-  /** Allow placeholder algorithms (flow, ilp) in auto selection */
+  /** Allow the opt-in ilp beyond 60 items in auto selection */
   allowPlaceholderAlgorithms?: boolean;
+  /** Per-dimension weights for items with `capacities` (default: all 1) */
+  dimensionWeights?: number[];
+  /** How per-dimension deltas are combined (default: 'worst') */
+  dimensionObjective?: DimensionObjective;
+  /** Explicit target sum for each group (heterogeneous bins) */
+  groupTargets?: number[];
+  /** Relative weight of each group; targets are proportional to it */
+  groupWeights?: number[];
+  /** Must-link / cannot-link constraints between items */
+  constraints?: ItemConstraints;
+  /** Items already assigned to a group; algorithms never move them */
+  pinned?: PinnedItems;
+  /**
+   * Give every group its proportional share of each item `category`
+   * (exact when it divides evenly, otherwise ±1)
+   */
+  stratify?: boolean;
+  /** Optimization objective used to compare groupings (default: 'delta') */
+  objective?: Objective;
+  /** Current assignment; moving an item away from it costs `moveCost` */
+  baseline?: ItemAssignment;
+  /**
+   * Cost of moving an item off its baseline group, uniform or per item ID
+   * (default: 1)
+   */
+  moveCost?: number | Record<string | number, number>;
+  /** Weight λ of the total move cost added to the objective (default: 1) */
+  moveCostWeight?: number;
+  /** Per item and group placement cost (data locality, rack proximity) */
+  affinity?: Affinity;
+  /** Weight of the total assignment cost added to the objective (default: 1) */
+  affinityWeight?: number;
+  /** Hard upper bound on every group sum, uniform or per group */
+  maxGroupSum?: number | number[];
+  /** Weight of the feature centroid spread under 'anticlustering' (default: 1) */
+  featureWeight?: number;
+  /** Within-group spread minimized under 'homogeneous' (default: 'range') */
+  homogeneity?: HomogeneityMeasure;
+  /**
+   * Weight of the compactness (sum of distances to group centroids) added to
+   * the objective when items carry `position` (default: 1, 0 disables it)
+   */
+  compactnessWeight?: number;
+  /**
+   * Weighted edges between items (e.g. communication between services);
+   * the weight of the edges joining different groups (the cut) is minimized
+   * alongside balance
+   */
+  edges?: Edge[];
+  /** Weight of the edge cut added to the objective (default: 1) */
+  edgeCutWeight?: number;
 }
 
 /**
@@ -74,6 +238,230 @@ export interface Grouping {
   iterations?: number;
   /** Method that was actually used */
   methodUsed: string;
+  /** Per-dimension metrics when items carry `capacities` */
+  dimensions?: DimensionMetrics[];
+  /** Target sum of each group when groupTargets/groupWeights were given */
+  groupTargets?: number[];
+  /** Per-group deviation from target (groupSums[g] − groupTargets[g]) */
+  targetDeviations?: number[];
+  /** Number of items of each category in every group */
+  categoryCounts?: Record<string, number>[];
+  /** Total cost of the items moved off their baseline group */
+  migrationCost?: number;
+  /** Number of items moved off their baseline group */
+  moveCount?: number;
+  /** Total placement cost under `affinity` */
+  assignmentCost?: number;
+  /** Between-group sum of squares of item `features` (0: equal centroids) */
+  centroidSpread?: number;
+  /** Sum of pairwise squared feature distances within each group */
+  featureDiversity?: number[];
+  /** Smallest item capacity of each group (under 'homogeneous') */
+  groupMins?: number[];
+  /** Largest item capacity of each group (under 'homogeneous') */
+  groupMaxes?: number[];
+  /** Capacity range (max − min) of each group (under 'homogeneous') */
+  groupRanges?: number[];
+  /** Total distance of the items to their group centroid (items with `position`) */
+  compactness?: number;
+  /** Sum of distances to the centroid within each group */
+  groupCompactness?: number[];
+  /** Total weight of the edges joining different groups (with `edges`) */
+  cutWeight?: number;
+  /** Largest aggregated load of any group in any period (items with `profile`) */
+  peakLoad?: number;
+  /** Largest aggregated load of each group over the periods */
+  groupPeaks?: number[];
+  /** Period index at which each group reaches its peak */
+  groupPeakTimes?: number[];
+  /** Whether an exact solver proved the grouping optimal ('ilp', 'dp', 'flow', complete 'kk') */
+  isOptimal?: boolean;
+  /** Best proven lower bound on delta from an exact solver */
+  bound?: number;
+  /** Relative gap (delta − bound) / delta left when an exact solver stopped */
+  mipGap?: number;
+  /** Objective value of the ILP incumbent (max − min of the group sums) */
+  objectiveValue?: number;
+}
+
+/**
+ * One level of a hierarchical partition: `groups` groups of `groupSize`
+ * units each, where units are items at the first level and the groups of
+ * the previous level above it
+ */
+export interface HierarchyLevel {
+  groups: number;
+  groupSize: number;
+}
+
+/**
+ * Options for hierarchical partitioning
+ */
+export interface HierarchicalOptions
+  extends Pick<
+    PartitionOptions,
+    'method' | 'seed' | 'timeLimitMs' | 'maxIters' | 'algorithmConfig'
+  > {
+  /** Swap items across sibling subtrees to balance every level (default: true) */
+  refine?: boolean;
+  /** Maximum refinement swaps (default: 200) */
+  refineIters?: number;
+}
+
+/**
+ * A node of the hierarchy: a group at some level and everything below it
+ */
+export interface HierarchyNode {
+  /** Level of the node: 0 for leaves, levels.length for the root */
+  level: number;
+  /** Index of the node within its level */
+  index: number;
+  /** Total capacity below the node */
+  sum: number;
+  /** IDs of all items below the node */
+  itemIds: (string | number)[];
+  /** Child nodes (empty for leaves) */
+  children: HierarchyNode[];
+}
+
+/**
+ * Result of a hierarchical partition
+ */
+export interface HierarchicalResult {
+  /** Root node holding every item */
+  root: HierarchyNode;
+  /** Grouping of the items at every level, leaves first */
+  levels: Grouping[];
+  /** Number of refinement swaps made */
+  iterations: number;
+}
+
+/**
+ * Options for multi-round partitioning
+ */
+export interface RoundsOptions
+  extends Pick<
+    PartitionOptions,
+    'method' | 'seed' | 'timeLimitMs' | 'maxIters' | 'algorithmConfig'
+  > {
+  /**
+   * Cost of one repeat meeting in the second round, in capacity units,
+   * weighed against the round's imbalance; later rounds divide it by the
+   * meetings each item has had (default: mean item capacity)
+   */
+  meetingWeight?: number;
+  /** Maximum refinement iterations per round (default: 200) */
+  refineIters?: number;
+  /** Random starting groupings refined per round besides the balanced one (default: 4) */
+  restarts?: number;
+}
+
+/**
+ * Result of a multi-round partition
+ */
+export interface RoundsResult {
+  /** Grouping of every round */
+  rounds: Grouping[];
+  /** meetings[i][j]: rounds in which items i and j (by index) shared a group */
+  meetings: number[][];
+  /** Meetings beyond the first, summed over all item pairs */
+  repeatMeetings: number;
+  /** Most rounds any pair of items spent together */
+  maxMeetings: number;
+}
+
+/**
+ * A group whose sum exceeds its cap
+ */
+export interface CapViolation {
+  group: number;
+  sum: number;
+  cap: number;
+  /** sum − cap */
+  excess: number;
+}
+
+/**
+ * Result of checking a grouping against per-group caps
+ */
+export interface CapCheckResult {
+  /** True when every group sum is within its cap */
+  valid: boolean;
+  /** Remaining room of each group (negative when over cap) */
+  slack: number[];
+  violations: CapViolation[];
+}
+
+/**
+ * Changes applied to the items of a previous grouping before repartitioning
+ */
+export interface ItemChanges {
+  /** New items to place */
+  added?: Item[];
+  /** IDs of items to drop */
+  removed?: (string | number)[];
+  /** New capacities of existing items */
+  updated?: { id: string | number; capacity: number }[];
+}
+
+/**
+ * Options for incremental repartitioning
+ */
+export interface RepartitionOptions {
+  /** Maximum number of existing items allowed to change group */
+  maxMoves?: number;
+  /** Maximum refinement iterations (default: 1000) */
+  maxIters?: number;
+  /** Required size of each group (default: as even as possible) */
+  groupSizes?: number[];
+  /** Objective minimized by the refinement (default: 'delta') */
+  objective?: Objective;
+}
+
+/**
+ * An existing item that changed group
+ */
+export interface ItemMove {
+  id: string | number;
+  /** Group the item was in */
+  from: number;
+  /** Group the item is in now */
+  to: number;
+}
+
+/**
+ * Result of an incremental repartition
+ */
+export interface RepartitionResult extends Grouping {
+  /** The updated items; groupsByIndex refers to this array */
+  items: Item[];
+  /** Every existing item that changed group */
+  moves: ItemMove[];
+}
+
+/**
+ * Options for sweeping the migration weight λ
+ */
+export interface MigrationTradeoffOptions extends PartitionOptions {
+  /** λ values to evaluate (default: [0, 0.25, 0.5, 1, 2, 4, 8]) */
+  lambdas?: number[];
+}
+
+/**
+ * Outcome of partitioning with one migration weight λ
+ */
+export interface MigrationTradeoffPoint {
+  /** The λ used (moveCostWeight) */
+  moveCostWeight: number;
+  /** Number of items moved off their baseline group */
+  moveCount: number;
+  /** Total cost of the moved items */
+  migrationCost: number;
+  /** Difference between the largest and smallest group sum */
+  delta: number;
+  /** True when no other point has both fewer moves and a smaller delta */
+  paretoOptimal: boolean;
+  grouping: Grouping;
 }
 
 /**
@@ -105,22 +493,25 @@ export interface AlgorithmConfig {
   };
   /** KK-specific options */
   kk?: {
-    useLocalOptimization?: boolean; // RESERVED - not yet implemented
-    maxOptimizationIters?: number; // RESERVED - not yet implemented
+    useLocalOptimization?: boolean;
+    maxOptimizationIters?: number;
+    complete?: boolean; // Anytime complete search (CKK) within timeLimitMs, equal sizes, up to 6 groups
+    maxNodes?: number; // Cap on complete search nodes (default: 1000000)
   };
   /** DP-specific options */
   dp?: {
     useKahanSum?: boolean; // RESERVED - not yet implemented
-    useMeetInMiddle?: boolean; // RESERVED - not yet implemented
-    maxStateSize?: number; // RESERVED - not yet implemented
+    useMeetInMiddle?: boolean; // Split two groups exactly by meet in the middle (default: true)
+    maxStateSize?: number; // States kept per DP layer before degrading to beam search (default: 100000)
   };
   /** Backtracking-specific options */
   backtracking?: {
-    usePruning?: boolean; // RESERVED - not yet implemented
-    maxDepth?: number; // RESERVED - not yet implemented
+    usePruning?: boolean;
+    maxDepth?: number;
   };
   /** Metaheuristic-specific options */
   metaheuristic?: {
+    type?: 'genetic' | 'simulated-annealing' | 'tabu-search';
     populationSize?: number;
     mutationRate?: number;
     crossoverRate?: number;
@@ -129,9 +520,10 @@ export interface AlgorithmConfig {
   };
   /** ILP-specific options */
   ilp?: {
-    solver?: 'glpk' | 'auto'; // RESERVED - not yet implemented
-    timeLimit?: number; // RESERVED - not yet implemented
-    mipGap?: number; // RESERVED - not yet implemented
+    solver?: 'glpk' | 'auto';
+    timeLimit?: number;
+    mipGap?: number; // Relative optimality gap at which the search stops (default: 0)
+    maxNodes?: number; // Cap on branch-and-bound nodes (default: 100000)
   };
 }
 
@@ -156,7 +548,15 @@ export function isItem(obj: unknown): obj is Item {
       typeof (obj as Item).id === 'number') &&
     typeof (obj as Item).capacity === 'number' &&
     isFinite((obj as Item).capacity) &&
-    (obj as Item).capacity > 0
+    (obj as Item).capacity > 0 &&
+    ((obj as Item).capacities === undefined ||
+      (Array.isArray((obj as Item).capacities) &&
+        (obj as Item).capacities!.every(
+          c => typeof c === 'number' && isFinite(c) && c >= 0
+        ))) &&
+    ((obj as Item).category === undefined ||
+      typeof (obj as Item).category === 'string' ||
+      typeof (obj as Item).category === 'number')
   );
 }
 
@@ -195,4 +595,24 @@ export interface NormalizedOptions {
     refineIters?: number;
   };
   allowPlaceholderAlgorithms: boolean;
+  algorithmConfig?: AlgorithmConfig;
+  dimensionWeights?: number[];
+  dimensionObjective?: DimensionObjective;
+  groupTargets?: number[];
+  groupWeights?: number[];
+  constraints?: ItemConstraints;
+  pinned?: PinnedItems;
+  stratify?: boolean;
+  objective?: Objective;
+  baseline?: ItemAssignment;
+  moveCost?: number | Record<string | number, number>;
+  moveCostWeight?: number;
+  affinity?: Affinity;
+  affinityWeight?: number;
+  maxGroupSum?: number | number[];
+  featureWeight?: number;
+  homogeneity?: HomogeneityMeasure;
+  compactnessWeight?: number;
+  edges?: Edge[];
+  edgeCutWeight?: number;
 }
@@ -0,0 +1,66 @@
+/**
+ * Utility functions for item-to-group affinity (assignment cost)
+ */
+
+import { Affinity, Item } from '../types.js';
+import { ValidationError } from '../errors.js';
+
+/**
+ * Placement cost of every item index in every group
+ */
+export interface AffinityModel {
+  /** cost[idx][g]: cost of placing item idx in group g */
+  cost: number[][];
+  /** Weight of the total assignment cost in the objective */
+  weight: number;
+}
+
+/**
+ * Resolves the affinity function or matrix into a dense cost matrix.
+ * Returns undefined when no affinity is given.
+ * @throws ValidationError for a matrix of the wrong shape or non-finite costs
+ */
+export function buildAffinityModel(
+  items: Item[],
+  options: { affinity?: Affinity; affinityWeight?: number },
+  groups: number
+): AffinityModel | undefined {
+  const { affinity, affinityWeight = 1 } = options;
+  if (!affinity) return undefined;
+
+  if (Array.isArray(affinity) && affinity.length !== items.length) {
+    throw new ValidationError(
+      `Affinity matrix has ${affinity.length} rows, expected one per item (${items.length})`,
+      { field: 'affinity', rows: affinity.length, items: items.length }
+    );
+  }
+  const cost = items.map((item, idx) =>
+    Array.from({ length: groups }, (_, g) => {
+      const value = Array.isArray(affinity)
+        ? affinity[idx]![g]
+        : affinity(item.id, g);
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new ValidationError(
+          `Affinity of item ${item.id} for group ${g} must be a finite number`,
+          { field: 'affinity', id: item.id, group: g, value }
+        );
+      }
+      return value;
+    })
+  );
+  return { cost, weight: affinityWeight };
+}
+
+/**
+ * Total (unweighted) placement cost of a grouping
+ */
+export function assignmentCost(
+  model: AffinityModel,
+  groupsByIndex: number[][]
+): number {
+  let total = 0;
+  groupsByIndex.forEach((members, g) => {
+    for (const idx of members) total += model.cost[idx]![g]!;
+  });
+  return total;
+}
@@ -0,0 +1,110 @@
+/**
+ * Utility functions for hard per-group capacity caps (maxGroupSum)
+ */
+
+import { Item, PinnedItems } from '../types.js';
+import { InfeasibleError, ValidationError } from '../errors.js';
+
+// Relative slack absorbing floating-point error in summed capacities
+const CAP_EPSILON = 1e-9;
+
+/**
+ * Amount by which `sum` exceeds `cap` (0 within floating-point slack)
+ */
+export function capExcess(sum: number, cap: number): number {
+  const excess = sum - cap;
+  return excess > CAP_EPSILON * Math.max(1, Math.abs(cap)) ? excess : 0;
+}
+
+/**
+ * Expands `maxGroupSum` to one cap per group.
+ * Returns undefined when no cap is given.
+ * @throws ValidationError when a per-group list has the wrong length
+ */
+export function resolveCaps(
+  maxGroupSum: number | number[] | undefined,
+  groups: number
+): number[] | undefined {
+  if (maxGroupSum === undefined) return undefined;
+  if (typeof maxGroupSum === 'number') {
+    return new Array<number>(groups).fill(maxGroupSum);
+  }
+  if (maxGroupSum.length !== groups) {
+    throw new ValidationError(
+      `maxGroupSum has ${maxGroupSum.length} entries, expected ${groups}`,
+      { field: 'maxGroupSum', maxGroupSum, groups }
+    );
+  }
+  return [...maxGroupSum];
+}
+
+/**
+ * Total amount by which group sums exceed their caps
+ */
+export function capOverflow(groupSums: number[], caps: number[]): number {
+  let overflow = 0;
+  groupSums.forEach((sum, g) => {
+    overflow += capExcess(sum, caps[g]!);
+  });
+  return overflow;
+}
+
+/**
+ * Rejects caps that no grouping can respect, using lower bounds on the
+ * group sums: every item needs a group whose cap holds it, each group's
+ * pinned items plus its smallest possible remaining members must fit its
+ * cap, and the combined caps must hold the total capacity.
+ * @throws InfeasibleError naming the violated bound
+ */
+export function assertCapsFeasible(
+  items: Item[],
+  caps: number[],
+  sizes: number[],
+  pinned?: PinnedItems
+): void {
+  const largestCap = Math.max(...caps);
+  for (const item of items) {
+    if (capExcess(item.capacity, largestCap) > 0) {
+      throw new InfeasibleError(
+        `Item ${item.id} (${item.capacity}) exceeds every group cap (largest ${largestCap})`,
+        { id: item.id, lowerBound: item.capacity, largestCap }
+      );
+    }
+  }
+
+  const total = items.reduce((acc, item) => acc + item.capacity, 0);
+  const capTotal = caps.reduce((acc, cap) => acc + cap, 0);
+  if (capExcess(total, capTotal) > 0) {
+    throw new InfeasibleError(
+      `Items total ${total}, but the group caps hold at most ${capTotal}`,
+      { lowerBound: total, capTotal }
+    );
+  }
+
+  // Pinned items are fixed; the rest of each group is at least the
+  // smallest free items
+  const pinnedSums = caps.map(() => 0);
+  const pinnedCounts = caps.map(() => 0);
+  const free: number[] = [];
+  for (const item of items) {
+    const g = pinned?.[String(item.id)];
+    if (g === undefined) {
+      free.push(item.capacity);
+    } else {
+      pinnedSums[g]! += item.capacity;
+      pinnedCounts[g]!++;
+    }
+  }
+  free.sort((a, b) => a - b);
+  caps.forEach((cap, g) => {
+    const open = Math.max(0, sizes[g]! - pinnedCounts[g]!);
+    let lowerBound = pinnedSums[g]!;
+    for (let k = 0; k < open && k < free.length; k++) lowerBound += free[k]!;
+    if (capExcess(lowerBound, cap) > 0) {
+      throw new InfeasibleError(
+        `Group ${g} needs ${sizes[g]} items summing to at least ${lowerBound}, above its cap ${cap}`,
+        { group: g, lowerBound, cap }
+      );
+    }
+  });
+}
@@ -0,0 +1,620 @@
+/**
+ * Utility functions for must-link / cannot-link constraints between items
+ * and for pinned (pre-assigned) items
+ */
+import { Item, ItemConstraints, PinnedItems } from '../types.js';
+import { InfeasibleError, ValidationError } from '../errors.js';
+import { compareIds } from './comparators.js';
+
+const DEFAULT_SEARCH_NODES = 200000;
+
+/**
+ * Index-based view of the constraints used by the algorithms
+ */
+export interface ConstraintModel {
+  /** Must-link components as item indices (singletons included) */
+  clusters: number[][];
+  /** Cluster index of every item */
+  clusterOf: number[];
+  /** Item indices that each item may not share a group with */
+  cannotLink: Set<number>[];
+  /** Group each cluster is pinned to (undefined when free) */
+  pinnedGroup: (number | undefined)[];
+}
+
+/**
+ * Returns true when at least one must-link or cannot-link pair, or one
+ * pinned item, is given
+ */
+export function hasConstraints(
+  constraints?: ItemConstraints,
+  pinned?: PinnedItems
+): boolean {
+  return (
+    (!!constraints &&
+      ((constraints.mustLink?.length ?? 0) > 0 ||
+        (constraints.cannotLink?.length ?? 0) > 0)) ||
+    (!!pinned && Object.keys(pinned).length > 0)
+  );
+}
+
+/**
+ * Resolves pinned item IDs to the group of every item index
+ * (undefined for free items). Returns undefined when nothing is pinned.
+ * @throws ValidationError for unknown IDs
+ */
+export function resolvePinned(
+  items: Item[],
+  pinned?: PinnedItems
+): (number | undefined)[] | undefined {
+  if (!pinned || Object.keys(pinned).length === 0) return undefined;
+  const indexById = new Map(
+    items.map((item, index) => [String(item.id), index])
+  );
+  const groupOf: (number | undefined)[] = new Array(items.length);
+  for (const [id, group] of Object.entries(pinned)) {
+    const index = indexById.get(id);
+    if (index === undefined) {
+      throw new ValidationError(`Unknown pinned item ID: ${id}`, {
+        field: 'pinned',
+        id,
+      });
+    }
+    groupOf[index] = group;
+  }
+  return groupOf;
+}
+
+/**
+ * Shortest path between two items along must-link pairs
+ */
+function mustLinkChain(linked: number[][], from: number, to: number): number[] {
+  const previous = new Map<number, number>([[from, from]]);
+  const queue = [from];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === to) break;
+    for (const next of linked[current]!) {
+      if (!previous.has(next)) {
+        previous.set(next, current);
+        queue.push(next);
+      }
+    }
+  }
+  const chain = [to];
+  while (chain[0] !== from) chain.unshift(previous.get(chain[0]!)!);
+  return chain;
+}
+
+/**
+ * Builds the constraint model: must-link pairs are collapsed into clusters
+ * (super-items), cannot-link pairs are indexed per item and pins are lifted
+ * to the cluster of the pinned item.
+ * Returns undefined when there are no constraints or pins.
+ * @throws ValidationError for unknown IDs or self cannot-links
+ * @throws InfeasibleError when a cannot-link pair is joined by a must-link
+ * chain, or pins contradict the links
+ */
+export function buildConstraintModel(
+  items: Item[],
+  constraints: ItemConstraints = {},
+  pinned?: PinnedItems
+): ConstraintModel | undefined {
+  if (!hasConstraints(constraints, pinned)) return undefined;
+
+  const indexById = new Map(items.map((item, index) => [item.id, index]));
+  const resolve = (id: string | number, field: string): number => {
+    const index = indexById.get(id);
+    if (index === undefined) {
+      throw new ValidationError(
+        `Unknown item ID in constraints.${field}: ${String(id)}`,
+        { field: `constraints.${field}`, id }
+      );
+    }
+    return index;
+  };
+
+  // Union-find over must-link pairs
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]!]!;
+      i = parent[i]!;
+    }
+    return i;
+  };
+  const linked: number[][] = items.map(() => []);
+  for (const [a, b] of constraints.mustLink ?? []) {
+    const ia = resolve(a, 'mustLink');
+    const ib = resolve(b, 'mustLink');
+    linked[ia]!.push(ib);
+    linked[ib]!.push(ia);
+    parent[find(ia)] = find(ib);
+  }
+
+  const clusters: number[][] = [];
+  const clusterOf: number[] = new Array(items.length);
+  const clusterByRoot = new Map<number, number>();
+  for (let i = 0; i < items.length; i++) {
+    const root = find(i);
+    let cluster = clusterByRoot.get(root);
+    if (cluster === undefined) {
+      cluster = clusters.length;
+      clusterByRoot.set(root, cluster);
+      clusters.push([]);
+    }
+    clusters[cluster]!.push(i);
+    clusterOf[i] = cluster;
+  }
+
+  const cannotLink = items.map(() => new Set<number>());
+  for (const [a, b] of constraints.cannotLink ?? []) {
+    const ia = resolve(a, 'cannotLink');
+    const ib = resolve(b, 'cannotLink');
+    if (ia === ib) {
+      throw new ValidationError(
+        `Item ${String(a)} cannot be cannot-linked with itself`,
+        { field: 'constraints.cannotLink', id: a }
+      );
+    }
+    if (clusterOf[ia] === clusterOf[ib]) {
+      const chain = mustLinkChain(linked, ia, ib).map(i => items[i]!.id);
+      throw new InfeasibleError(
+        `Items ${String(a)} and ${String(b)} are cannot-linked but joined by must-links: ${chain.join(' → ')}`,
+        { chain, cannotLink: [a, b] }
+      );
+    }
+    cannotLink[ia]!.add(ib);
+    cannotLink[ib]!.add(ia);
+  }
+
+  const pinnedGroup: (number | undefined)[] = new Array(clusters.length);
+  const pinnedBy: number[] = new Array(clusters.length);
+  const pinOf = resolvePinned(items, pinned) ?? [];
+  pinOf.forEach((group, index) => {
+    if (group === undefined) return;
+    const cluster = clusterOf[index]!;
+    const existing = pinnedGroup[cluster];
+    if (existing !== undefined && existing !== group) {
+      const chain = mustLinkChain(linked, pinnedBy[cluster]!, index).map(
+        i => items[i]!.id
+      );
+      throw new InfeasibleError(
+        `Must-linked items are pinned to different groups (${existing} and ${group}): ${chain.join(' → ')}`,
+        { chain, pinnedGroups: [existing, group] }
+      );
+    }
+    pinnedGroup[cluster] = group;
+    pinnedBy[cluster] = index;
+  });
+  for (let index = 0; index < items.length; index++) {
+    for (const other of cannotLink[index]!) {
+      const g = pinnedGroup[clusterOf[index]!];
+      if (
+        index < other &&
+        g !== undefined &&
+        g === pinnedGroup[clusterOf[other]!]
+      ) {
+        throw new InfeasibleError(
+          `Cannot-linked items ${String(items[index]!.id)} and ${String(items[other]!.id)} are both pinned to group ${g}`,
+          { cannotLink: [items[index]!.id, items[other]!.id], group: g }
+        );
+      }
+    }
+  }
+
+  return { clusters, clusterOf, cannotLink, pinnedGroup };
+}
+
+/**
+ * Orders clusters for greedy construction: pinned clusters first (seeding the
+ * group sums), then larger clusters, then by descending total capacity
+ * (plain LPT order when all clusters are free singletons)
+ */
+export function clusterOrder(items: Item[], model: ConstraintModel): number[] {
+  const capacity = model.clusters.map(c =>
+    c.reduce((acc, idx) => acc + items[idx]!.capacity, 0)
+  );
+  return model.clusters
+    .map((_, c) => c)
+    .sort(
+      (a, b) =>
+        Number(model.pinnedGroup[b] !== undefined) -
+          Number(model.pinnedGroup[a] !== undefined) ||
+        model.clusters[b]!.length - model.clusters[a]!.length ||
+        capacity[b]! - capacity[a]! ||
+        compareIds(
+          items[model.clusters[a]![0]!]!.id,
+          items[model.clusters[b]![0]!]!.id
+        )
+    );
+}
+
+/**
+ * Returns true when the cluster may go to group g (free or pinned to g)
+ */
+function allowedIn(
+  model: ConstraintModel,
+  cluster: number,
+  g: number
+): boolean {
+  const pin = model.pinnedGroup[cluster];
+  return pin === undefined || pin === g;
+}
+
+/**
+ * Returns true when no item of the cluster is cannot-linked with a member
+ */
+export function canJoin(
+  model: ConstraintModel,
+  cluster: number,
+  members: number[]
+): boolean {
+  for (const idx of model.clusters[cluster]!) {
+    const conflicts = model.cannotLink[idx]!;
+    if (conflicts.size === 0) continue;
+    for (const member of members) {
+      if (conflicts.has(member)) return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Returns true when exchanging `out1` (item indices of group g1) with `out2`
+ * (item indices of group g2) keeps every constraint satisfied. Pinned items
+ * and items of multi-item must-link clusters never move.
+ */
+export function canSwap(
+  model: ConstraintModel,
+  groupsByIndex: number[][],
+  g1: number,
+  out1: number[],
+  g2: number,
+  out2: number[]
+): boolean {
+  for (const idx of out1.concat(out2)) {
+    const cluster = model.clusterOf[idx]!;
+    if (
+      model.clusters[cluster]!.length > 1 ||
+      model.pinnedGroup[cluster] !== undefined
+    ) {
+      return false;
+    }
+  }
+  const fits = (incoming: number[], members: number[], leaving: number[]) =>
+    incoming.every(idx =>
+      members.every(m => leaving.includes(m) || !model.cannotLink[idx]!.has(m))
+    );
+  return (
+    fits(out1, groupsByIndex[g2]!, out2) && fits(out2, groupsByIndex[g1]!, out1)
+  );
+}
+
+/**
+ * Returns true when a grouping keeps every must-link cluster together (in its
+ * pinned group, if any) and separates every cannot-link pair
+ */
+export function satisfiesConstraints(
+  model: ConstraintModel,
+  groupsByIndex: number[][]
+): boolean {
+  const groupOf = new Map<number, number>();
+  groupsByIndex.forEach((group, g) => {
+    for (const idx of group) groupOf.set(idx, g);
+  });
+  for (let c = 0; c < model.clusters.length; c++) {
+    const cluster = model.clusters[c]!;
+    const g = groupOf.get(cluster[0]!);
+    if (cluster.some(idx => groupOf.get(idx) !== g)) return false;
+    if (!allowedIn(model, c, g!)) return false;
+  }
+  for (let idx = 0; idx < model.cannotLink.length; idx++) {
+    for (const other of model.cannotLink[idx]!) {
+      if (groupOf.get(idx) === groupOf.get(other)) return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Greedily places clusters, in the given order, into groups with enough free
+ * slots and no cannot-link conflict; `choose` picks among the feasible groups.
+ * Returns null when some cluster cannot be placed.
+ */
+export function assignClusters(
+  model: ConstraintModel,
+  sizes: number[],
+  order: number[],
+  choose: (cluster: number, feasible: number[]) => number
+): number[][] | null {
+  const groupsByIndex: number[][] = sizes.map(() => []);
+  for (const cluster of order) {
+    const members = model.clusters[cluster]!;
+    const feasible: number[] = [];
+    for (let g = 0; g < sizes.length; g++) {
+      if (
+        allowedIn(model, cluster, g) &&
+        groupsByIndex[g]!.length + members.length <= sizes[g]! &&
+        canJoin(model, cluster, groupsByIndex[g]!)
+      ) {
+        feasible.push(g);
+      }
+    }
+    if (feasible.length === 0) return null;
+    groupsByIndex[choose(cluster, feasible)]!.push(...members);
+  }
+  return groupsByIndex;
+}
+
+/**
+ * Depth-first search for any constraint-satisfying assignment, used when the
+ * greedy construction gets stuck. Returns the grouping, 'infeasible' when the
+ * search space was exhausted, or null when the node budget ran out.
+ */
+export function searchAssignment(
+  model: ConstraintModel,
+  sizes: number[],
+  maxNodes: number = DEFAULT_SEARCH_NODES
+): number[][] | 'infeasible' | null {
+  // Most constrained clusters first: pinned, large, then many cannot-links
+  const degree = model.clusters.map(c =>
+    c.reduce((acc, idx) => acc + model.cannotLink[idx]!.size, 0)
+  );
+  const order = model.clusters
+    .map((_, c) => c)
+    .sort(
+      (a, b) =>
+        Number(model.pinnedGroup[b] !== undefined) -
+          Number(model.pinnedGroup[a] !== undefined) ||
+        model.clusters[b]!.length - model.clusters[a]!.length ||
+        degree[b]! - degree[a]!
+    );
+  const groupsByIndex: number[][] = sizes.map(() => []);
+  let nodes = 0;
+
+  function place(k: number): boolean | null {
+    if (k === order.length) return true;
+    if (++nodes > maxNodes) return null;
+    const cluster = order[k]!;
+    const members = model.clusters[cluster]!;
+    for (let g = 0; g < sizes.length; g++) {
+      const group = groupsByIndex[g]!;
+      if (!allowedIn(model, cluster, g)) continue;
+      if (group.length + members.length > sizes[g]!) continue;
+      // Empty groups of equal size are interchangeable for free clusters
+      // (pinned clusters are placed first, so no pin targets an empty group)
+      if (
+        model.pinnedGroup[cluster] === undefined &&
+        group.length === 0 &&
+        groupsByIndex.some(
+          (other, h) => h < g && other.length === 0 && sizes[h] === sizes[g]
+        )
+      ) {
+        continue;
+      }
+      if (!canJoin(model, cluster, group)) continue;
+      group.push(...members);
+      const result = place(k + 1);
+      if (result !== false) return result;
+      group.splice(group.length - members.length, members.length);
+    }
+    return false;
+  }
+
+  const result = place(0);
+  if (result === null) return null;
+  return result ? groupsByIndex : 'infeasible';
+}
+
+/**
+ * Greedy cluster placement with a depth-first fallback
+ * @throws Error when no constraint-satisfying placement was found
+ */
+export function placeClusters(
+  model: ConstraintModel,
+  sizes: number[],
+  order: number[],
+  choose: (cluster: number, feasible: number[]) => number
+): number[][] {
+  const greedy = assignClusters(model, sizes, order, choose);
+  if (greedy) return greedy;
+  const found = searchAssignment(model, sizes);
+  if (Array.isArray(found)) return found;
+  throw new Error('No placement satisfies the item constraints');
+}
+
+/**
+ * Searches for more than `groups` clusters that are pairwise cannot-linked
+ * (through any of their items), which no grouping can separate. Returns the
+ * cluster indices, or undefined when none is found within `maxNodes`.
+ */
+function findConflictClique(
+  model: ConstraintModel,
+  groups: number,
+  maxNodes: number = DEFAULT_SEARCH_NODES
+): number[] | undefined {
+  const conflicts = model.clusters.map(() => new Set<number>());
+  model.cannotLink.forEach((others, idx) => {
+    for (const other of others) {
+      conflicts[model.clusterOf[idx]!]!.add(model.clusterOf[other]!);
+    }
+  });
+  // Only clusters with at least `groups` conflicts can be in such a clique
+  const order = conflicts
+    .map((_, c) => c)
+    .filter(c => conflicts[c]!.size >= groups)
+    .sort((a, b) => conflicts[b]!.size - conflicts[a]!.size || a - b);
+  const clique: number[] = [];
+  let nodes = 0;
+
+  function extend(candidates: number[]): boolean {
+    if (clique.length > groups) return true;
+    if (clique.length + candidates.length <= groups) return false;
+    if (++nodes > maxNodes) return false;
+    for (let k = 0; k < candidates.length; k++) {
+      const cluster = candidates[k]!;
+      clique.push(cluster);
+      const rest = candidates
+        .slice(k + 1)
+        .filter(c => conflicts[cluster]!.has(c));
+      if (extend(rest)) return true;
+      clique.pop();
+    }
+    return false;
+  }
+
+  return extend(order) ? clique : undefined;
+}
+
+/**
+ * Drops cannot-link pairs while the rest stays infeasible, leaving a set in
+ * which every pair is needed for the conflict (pairs whose removal cannot
+ * be decided within the node budget are kept)
+ */
+function minimalConflict(
+  model: ConstraintModel,
+  sizes: number[],
+  pairs: [number, number][]
+): [number, number][] {
+  const maxNodes = Math.max(
+    1000,
+    Math.floor(DEFAULT_SEARCH_NODES / pairs.length)
+  );
+  const kept = [...pairs];
+  for (let k = kept.length - 1; k >= 0; k--) {
+    const [a, b] = kept[k]!;
+    model.cannotLink[a]!.delete(b);
+    model.cannotLink[b]!.delete(a);
+    if (searchAssignment(model, sizes, maxNodes) === 'infeasible') {
+      kept.splice(k, 1);
+    } else {
+      model.cannotLink[a]!.add(b);
+      model.cannotLink[b]!.add(a);
+    }
+  }
+  // Restore the pairs dropped from the model
+  for (const [a, b] of pairs) {
+    model.cannotLink[a]!.add(b);
+    model.cannotLink[b]!.add(a);
+  }
+  return kept;
+}
+
+/**
+ * Throws when no grouping with the given sizes can satisfy the constraints
+ * @throws InfeasibleError with the offending must-link chain, the clique of
+ * mutually cannot-linked clusters or a minimal set of conflicting pairs
+ */
+export function assertConstraintsFeasible(
+  items: Item[],
+  model: ConstraintModel,
+  sizes: number[]
+): void {
+  const largest = Math.max(...sizes);
+  for (const cluster of model.clusters) {
+    if (cluster.length > largest) {
+      const chain = cluster.map(idx => items[idx]!.id);
+      throw new InfeasibleError(
+        `Must-linked items ${chain.join(', ')} (${cluster.length}) exceed the largest group size ${largest}`,
+        { chain, largestGroupSize: largest }
+      );
+    }
+  }
+
+  const pinnedCount = sizes.map(() => 0);
+  model.pinnedGroup.forEach((g, cluster) => {
+    if (g !== undefined) pinnedCount[g]! += model.clusters[cluster]!.length;
+  });
+  pinnedCount.forEach((count, g) => {
+    if (count > sizes[g]!) {
+      const pinnedIds = model.clusters
+        .filter((_, c) => model.pinnedGroup[c] === g)
+        .flat()
+        .map(idx => items[idx]!.id);
+      throw new InfeasibleError(
+        `Group ${g} holds ${sizes[g]} items but ${count} are pinned to it: ${pinnedIds.join(', ')}`,
+        { group: g, groupSize: sizes[g], pinned: pinnedIds }
+      );
+    }
+  });
+
+  if (searchAssignment(model, sizes) === 'infeasible') {
+    const pairs: [number, number][] = [];
+    model.cannotLink.forEach((others, idx) => {
+      for (const other of others) {
+        if (idx < other) pairs.push([idx, other]);
+      }
+    });
+    const idsOf = (pair: [number, number]) => pair.map(idx => items[idx]!.id);
+
+    const clique = findConflictClique(model, sizes.length);
+    if (clique) {
+      const clusters = clique.map(c =>
+        model.clusters[c]!.map(idx => items[idx]!.id)
+      );
+      const inClique = new Set(clique);
+      const cliquePairs = pairs.filter(
+        ([a, b]) =>
+          inClique.has(model.clusterOf[a]!) && inClique.has(model.clusterOf[b]!)
+      );
+      throw new InfeasibleError(
+        `${clique.length} mutually cannot-linked clusters (${clusters.map(c => c.join('+')).join(', ')}) cannot be separated into ${sizes.length} groups`,
+        { clusters, cannotLink: cliquePairs.map(idsOf), groups: sizes.length }
+      );
+    }
+
+    throw new InfeasibleError(
+      'No grouping with these group sizes satisfies the cannot-link constraints and pins',
+      {
+        cannotLink: minimalConflict(model, sizes, pairs).map(idsOf),
+        groupSizes: sizes,
+      }
+    );
+  }
+}
+
+/**
+ * Lists the constraints violated by a grouping (empty when all hold)
+ */
+export function findConstraintViolations(
+  items: Item[],
+  groupsByIndex: number[][],
+  constraints: ItemConstraints = {},
+  pinned: PinnedItems = {}
+): string[] {
+  const groupOf = new Map<string | number, number>();
+  groupsByIndex.forEach((group, g) => {
+    for (const idx of group) {
+      if (items[idx]) groupOf.set(items[idx]!.id, g);
+    }
+  });
+  const violations: string[] = [];
+  for (const [a, b] of constraints.mustLink ?? []) {
+    if (groupOf.get(a) !== groupOf.get(b)) {
+      violations.push(
+        `Must-link items ${String(a)} and ${String(b)} are in different groups`
+      );
+    }
+  }
+  for (const [a, b] of constraints.cannotLink ?? []) {
+    const g = groupOf.get(a);
+    if (g !== undefined && g === groupOf.get(b)) {
+      violations.push(
+        `Cannot-link items ${String(a)} and ${String(b)} share group ${g}`
+      );
+    }
+  }
+  const groupByKey = new Map(
+    [...groupOf].map(([id, g]) => [String(id), g] as const)
+  );
+  for (const [id, expected] of Object.entries(pinned)) {
+    const g = groupByKey.get(id);
+    if (g !== expected) {
+      violations.push(
+        `Pinned item ${id} is in group ${g ?? 'none'}, expected ${expected}`
+      );
+    }
+  }
+  return violations;
+}
@@ -0,0 +1,166 @@
+/**
+ * Utility functions for multi-dimensional (vector) capacities
+ */
+import { DimensionObjective, Item } from '../types.js';
+
+/**
+ * Options controlling how per-dimension deltas are combined
+ */
+export interface DimensionOptions {
+  /** Per-dimension weights (default: all 1) */
+  weights?: number[];
+  /** Combination rule (default: 'worst') */
+  objective?: DimensionObjective;
+  /** Relative target share of each group; loads are divided by it */
+  shares?: number[];
+}
+
+/**
+ * Returns the number of capacity dimensions (or profile periods) carried by
+ * the items, or 0 when items only have a scalar capacity
+ */
+export function getDimensionCount(items: Item[]): number {
+  return items[0]?.capacities?.length ?? items[0]?.profile?.length ?? 0;
+}
+
+/**
+ * Whether the items carry time-series load profiles
+ */
+export function hasProfiles(items: Item[]): boolean {
+  return items[0]?.profile !== undefined;
+}
+
+/**
+ * Dimension objective used when none is given: 'peak' for load profiles,
+ * 'worst' otherwise
+ */
+export function resolveDimensionObjective(
+  items: Item[],
+  objective?: DimensionObjective
+): DimensionObjective {
+  return objective ?? (hasProfiles(items) ? 'peak' : 'worst');
+}
+
+/**
+ * Returns the capacity vector (or load profile) of every item.
+ * Scalar items are treated as one-dimensional vectors.
+ */
+export function getCapacityVectors(items: Item[]): number[][] {
+  const dims = getDimensionCount(items);
+  return items.map(item =>
+    dims > 0
+      ? (item.capacities ?? item.profile)!.slice(0, dims)
+      : [item.capacity]
+  );
+}
+
+/**
+ * Computes the per-dimension sums of each group: result[g][d]
+ */
+export function computeGroupLoads(
+  vectors: number[][],
+  groupsByIndex: number[][]
+): number[][] {
+  const dims = vectors[0]?.length ?? 1;
+  return groupsByIndex.map(group => {
+    const load = new Array<number>(dims).fill(0);
+    for (const idx of group) {
+      const v = vectors[idx]!;
+      for (let d = 0; d < dims; d++) load[d]! += v[d]!;
+    }
+    return load;
+  });
+}
+
+/**
+ * Largest weighted (share-normalized) entry of the load of group g: its
+ * peak under the 'peak' objective
+ */
+export function loadPeak(
+  load: number[],
+  g: number,
+  options: DimensionOptions = {}
+): number {
+  const { weights, shares } = options;
+  const share = shares ? shares[g]! : 1;
+  let peak = -Infinity;
+  for (let d = 0; d < load.length; d++) {
+    const v = ((weights?.[d] ?? 1) * load[d]!) / share;
+    if (v > peak) peak = v;
+  }
+  return peak;
+}
+
+/**
+ * Peak load of every group and the dimension (period) where it occurs
+ */
+export function groupPeaks(loads: number[][]): {
+  peaks: number[];
+  peakTimes: number[];
+} {
+  const peaks: number[] = [];
+  const peakTimes: number[] = [];
+  for (const load of loads) {
+    let t = 0;
+    for (let d = 1; d < load.length; d++) {
+      if (load[d]! > load[t]!) t = d;
+    }
+    peaks.push(load[t] ?? 0);
+    peakTimes.push(t);
+  }
+  return { peaks, peakTimes };
+}
+
+/**
+ * Combines per-group load vectors into a single score (lower is better).
+ * With one dimension and default options this is exactly max − min;
+ * with shares it is the spread of share-normalized loads. Under 'peak' it
+ * is the largest weighted load of any group in any dimension.
+ */
+export function dimensionScore(
+  loads: number[][],
+  options: DimensionOptions = {}
+): number {
+  const dims = loads[0]?.length ?? 0;
+  const { weights, objective = 'worst', shares } = options;
+  if (objective === 'peak') {
+    let peak = -Infinity;
+    loads.forEach((load, g) => {
+      peak = Math.max(peak, loadPeak(load, g, options));
+    });
+    return peak;
+  }
+  let score = 0;
+  for (let d = 0; d < dims; d++) {
+    let max = -Infinity;
+    let min = Infinity;
+    for (let g = 0; g < loads.length; g++) {
+      const v = shares ? loads[g]![d]! / shares[g]! : loads[g]![d]!;
+      if (v > max) max = v;
+      if (v < min) min = v;
+    }
+    const weighted = (weights?.[d] ?? 1) * (max - min);
+    score =
+      objective === 'weighted' ? score + weighted : Math.max(score, weighted);
+  }
+  return score;
+}
+
+/**
+ * Builds a scalar proxy capacity for each vector so that single-dimension
+ * algorithms (sorting, greedy ordering) see every dimension on the same scale
+ */
+export function proxyCapacities(vectors: number[][]): number[] {
+  const dims = vectors[0]?.length ?? 0;
+  const means = new Array<number>(dims).fill(0);
+  for (const v of vectors) {
+    for (let d = 0; d < dims; d++) means[d]! += v[d]! / vectors.length;
+  }
+  return vectors.map(v => {
+    let proxy = 0;
+    for (let d = 0; d < dims; d++) {
+      proxy += means[d]! > 0 ? v[d]! / means[d]! : 0;
+    }
+    return proxy;
+  });
+}
@@ -0,0 +1,112 @@
+/**
+ * Utility functions for anticlustering on item feature vectors
+ */
+
+import { Item, Objective } from '../types.js';
+import { ValidationError } from '../errors.js';
+
+/**
+ * Feature vectors of the items and the weight of their centroid spread
+ */
+export interface FeatureModel {
+  /** vectors[idx]: features of item idx */
+  vectors: number[][];
+  /** Weight of the centroid spread in the objective */
+  weight: number;
+}
+
+/**
+ * Whether every item carries a feature vector
+ */
+export function hasFeatures(items: Item[]): boolean {
+  return items.length > 0 && items.every(item => item.features !== undefined);
+}
+
+/**
+ * Builds the feature model used by the 'anticlustering' objective.
+ * Returns undefined for any other objective.
+ * @throws ValidationError when some items carry no features
+ */
+export function buildFeatureModel(
+  items: Item[],
+  options: { objective?: Objective; featureWeight?: number }
+): FeatureModel | undefined {
+  const { objective, featureWeight = 1 } = options;
+  if (objective !== 'anticlustering') return undefined;
+
+  const missing = items.filter(item => !item.features).map(item => item.id);
+  if (missing.length > 0) {
+    throw new ValidationError(
+      `The 'anticlustering' objective needs features on every item, missing on: ${missing.join(', ')}`,
+      { field: 'features', missingIds: missing }
+    );
+  }
+  return { vectors: items.map(item => item.features!), weight: featureWeight };
+}
+
+/**
+ * Per-group sums of the feature vectors
+ */
+export function featureSums(
+  vectors: number[][],
+  groupsByIndex: number[][]
+): number[][] {
+  const dims = vectors[0]?.length ?? 0;
+  return groupsByIndex.map(members => {
+    const sum = new Array<number>(dims).fill(0);
+    for (const idx of members) {
+      for (let d = 0; d < dims; d++) sum[d]! += vectors[idx]![d]!;
+    }
+    return sum;
+  });
+}
+
+/**
+ * Centroid spread: Σ_g |g| · ‖centroid_g − overall centroid‖², the
+ * between-group sum of squares. It is 0 when every group has the same
+ * feature centroid, and lowering it raises the within-group diversity.
+ */
+export function centroidSpread(
+  vectors: number[][],
+  groupsByIndex: number[][]
+): number {
+  const sums = featureSums(vectors, groupsByIndex);
+  const dims = vectors[0]?.length ?? 0;
+  const total = new Array<number>(dims).fill(0);
+  let count = 0;
+  let spread = 0;
+  sums.forEach((sum, g) => {
+    const n = groupsByIndex[g]!.length;
+    count += n;
+    for (let d = 0; d < dims; d++) {
+      total[d]! += sum[d]!;
+      if (n > 0) spread += (sum[d]! * sum[d]!) / n;
+    }
+  });
+  for (let d = 0; d < dims; d++) {
+    if (count > 0) spread -= (total[d]! * total[d]!) / count;
+  }
+  return Math.max(0, spread);
+}
+
+/**
+ * Within-group diversity: sum of squared Euclidean distances between every
+ * pair of items of each group
+ */
+export function groupDiversity(
+  vectors: number[][],
+  groupsByIndex: number[][]
+): number[] {
+  const sums = featureSums(vectors, groupsByIndex);
+  const dims = vectors[0]?.length ?? 0;
+  // Σ_{i<j} ‖x_i − x_j‖² = n · Σ‖x_i‖² − ‖Σx_i‖²
+  return groupsByIndex.map((members, g) => {
+    let squares = 0;
+    for (const idx of members) {
+      for (let d = 0; d < dims; d++) squares += vectors[idx]![d]! ** 2;
+    }
+    let sumSquared = 0;
+    for (let d = 0; d < dims; d++) sumSquared += sums[g]![d]! ** 2;
+    return Math.max(0, members.length * squares - sumSquared);
+  });
+}
@@ -0,0 +1,79 @@
+/**
+ * Utility functions for graph-aware partitioning (weighted edge cut)
+ */
+
+import { Edge, Item } from '../types.js';
+import { ValidationError } from '../errors.js';
+
+/**
+ * Weighted adjacency of the items, by index
+ */
+export interface GraphModel {
+  /** neighbors[idx]: neighbor index → total edge weight */
+  neighbors: Map<number, number>[];
+  /** Weight of the cut in the objective */
+  weight: number;
+}
+
+/**
+ * Resolves the edge list (by item ID) into an adjacency by index.
+ * Parallel edges add up, self-loops never cross groups and are dropped.
+ * Returns undefined when no edges are given.
+ * @throws ValidationError for edges naming unknown items
+ */
+export function buildGraphModel(
+  items: Item[],
+  options: { edges?: Edge[]; edgeCutWeight?: number }
+): GraphModel | undefined {
+  const { edges, edgeCutWeight = 1 } = options;
+  if (!edges || edges.length === 0) return undefined;
+
+  const indexOf = new Map(items.map((item, idx) => [item.id, idx] as const));
+  const neighbors = items.map(() => new Map<number, number>());
+  for (const edge of edges) {
+    const a = indexOf.get(edge.a);
+    const b = indexOf.get(edge.b);
+    if (a === undefined || b === undefined) {
+      throw new ValidationError(
+        `Edge references unknown item ID: ${a === undefined ? edge.a : edge.b}`,
+        { field: 'edges', edge }
+      );
+    }
+    if (a === b) continue;
+    const w = edge.weight ?? 1;
+    neighbors[a]!.set(b, (neighbors[a]!.get(b) ?? 0) + w);
+    neighbors[b]!.set(a, (neighbors[b]!.get(a) ?? 0) + w);
+  }
+  return { neighbors, weight: edgeCutWeight };
+}
+
+/**
+ * Group index of every item
+ */
+export function groupOfItems(
+  itemCount: number,
+  groupsByIndex: number[][]
+): number[] {
+  const groupOf = new Array<number>(itemCount).fill(-1);
+  groupsByIndex.forEach((members, g) => {
+    for (const idx of members) groupOf[idx] = g;
+  });
+  return groupOf;
+}
+
+/**
+ * Total weight of the edges joining items of different groups
+ */
+export function cutWeight(
+  model: GraphModel,
+  groupsByIndex: number[][]
+): number {
+  const groupOf = groupOfItems(model.neighbors.length, groupsByIndex);
+  let cut = 0;
+  model.neighbors.forEach((adjacent, a) => {
+    adjacent.forEach((w, b) => {
+      if (a < b && groupOf[a] !== groupOf[b]) cut += w;
+    });
+  });
+  return cut;
+}
@@ -0,0 +1,25 @@
+/**
+ * Utility functions for working with per-group cardinalities
+ */
+
+/**
+ * Resolves the number of items required in each group.
+ * Falls back to a uniform groupSize when no explicit vector is given.
+ */
+export function resolveGroupSizes(
+  groups: number,
+  groupSize: number,
+  groupSizes?: number[]
+): number[] {
+  if (groupSizes && groupSizes.length === groups) {
+    return groupSizes;
+  }
+  return new Array<number>(groups).fill(groupSize);
+}
+
+/**
+ * Returns true when every group has the same required size
+ */
+export function hasUniformSizes(groupSizes: number[]): boolean {
+  return groupSizes.every(size => size === groupSizes[0]);
+}
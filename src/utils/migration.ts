@@ -0,0 +1,128 @@
+/**
+ * Utility functions for migration-cost-aware balancing against a baseline
+ */
+
+import { Item, ItemAssignment } from '../types.js';
+import { ValidationError } from '../errors.js';
+
+/**
+ * Baseline group and move cost of every item index
+ */
+export interface MigrationModel {
+  /** Baseline group of each item (undefined for items without one) */
+  baselineGroup: (number | undefined)[];
+  /** Cost of moving each item away from its baseline group */
+  cost: number[];
+  /** Weight λ of the total move cost in the objective */
+  weight: number;
+}
+
+/**
+ * Resolves the baseline assignment and move costs per item index.
+ * Returns undefined when no baseline is given.
+ * @throws ValidationError for unknown IDs or groups out of range
+ */
+export function buildMigrationModel(
+  items: Item[],
+  options: {
+    baseline?: ItemAssignment;
+    moveCost?: number | Record<string | number, number>;
+    moveCostWeight?: number;
+  },
+  groups?: number
+): MigrationModel | undefined {
+  const { baseline, moveCost = 1, moveCostWeight = 1 } = options;
+  if (!baseline || Object.keys(baseline).length === 0) return undefined;
+
+  const indexById = new Map(
+    items.map((item, index) => [String(item.id), index])
+  );
+  const baselineGroup: (number | undefined)[] = new Array(items.length).fill(
+    undefined
+  );
+  for (const [id, group] of Object.entries(baseline)) {
+    const index = indexById.get(id);
+    if (index === undefined) {
+      throw new ValidationError(`Unknown item ID in baseline: ${id}`, { id });
+    }
+    if (groups !== undefined && group >= groups) {
+      throw new ValidationError(
+        `Baseline puts item ${id} in group ${group}, but only ${groups} groups exist`,
+        { field: 'baseline', id, group, groups }
+      );
+    }
+    baselineGroup[index] = group;
+  }
+
+  const cost = items.map(item =>
+    typeof moveCost === 'number' ? moveCost : (moveCost[String(item.id)] ?? 1)
+  );
+  return { baselineGroup, cost, weight: moveCostWeight };
+}
+
+/**
+ * Total cost of the items placed outside their baseline group
+ */
+export function migrationCost(
+  model: MigrationModel,
+  groupsByIndex: number[][]
+): number {
+  let total = 0;
+  groupsByIndex.forEach((members, g) => {
+    for (const idx of members) total += moveCostDelta(model, idx, -1, g);
+  });
+  return total;
+}
+
+/**
+ * Number of items placed outside their baseline group
+ */
+export function countMoves(
+  model: MigrationModel,
+  groupsByIndex: number[][]
+): number {
+  let moves = 0;
+  groupsByIndex.forEach((members, g) => {
+    for (const idx of members) {
+      const base = model.baselineGroup[idx];
+      if (base !== undefined && base !== g) moves++;
+    }
+  });
+  return moves;
+}
+
+/**
+ * Change of the move cost when item `idx` goes from group `from` to `to`
+ * (from = -1 for an unplaced item)
+ */
+export function moveCostDelta(
+  model: MigrationModel,
+  idx: number,
+  from: number,
+  to: number
+): number {
+  const base = model.baselineGroup[idx];
+  if (base === undefined) return 0;
+  const before = from !== -1 && from !== base ? model.cost[idx]! : 0;
+  const after = to !== base ? model.cost[idx]! : 0;
+  return after - before;
+}
+
+/**
+ * The baseline itself as a grouping, when it assigns every item and matches
+ * the required group sizes
+ */
+export function baselineGrouping(
+  model: MigrationModel,
+  sizes: number[]
+): number[][] | undefined {
+  const groupsByIndex: number[][] = sizes.map(() => []);
+  for (let idx = 0; idx < model.baselineGroup.length; idx++) {
+    const g = model.baselineGroup[idx];
+    if (g === undefined) return undefined;
+    groupsByIndex[g]!.push(idx);
+  }
+  return groupsByIndex.every((members, g) => members.length === sizes[g])
+    ? groupsByIndex
+    : undefined;
+}
@@ -0,0 +1,130 @@
+/**
+ * Min-cost flow by successive shortest paths, used to solve the assignment
+ * problems of the flow method
+ */
+
+/**
+ * Directed arc with a capacity and a per-unit cost
+ */
+export interface FlowArc {
+  from: number;
+  to: number;
+  capacity: number;
+  cost: number;
+}
+
+export interface FlowSolution {
+  /** Flow on every arc, in input order */
+  flows: number[];
+  /** Total flow sent from source to sink */
+  amount: number;
+  /** Total cost of the flow */
+  cost: number;
+}
+
+/**
+ * Sends up to `demand` units (default: as much as possible) from `source` to
+ * `sink` at minimum cost. Costs may be negative as long as no cycle of the
+ * network has negative cost: Bellman–Ford computes the initial node
+ * potentials, after which every augmenting path is found by Dijkstra on
+ * reduced costs.
+ */
+export function minCostFlow(
+  nodeCount: number,
+  arcs: FlowArc[],
+  source: number,
+  sink: number,
+  demand: number = Infinity
+): FlowSolution {
+  // Residual graph: arc k is edge 2k, its reverse edge 2k + 1
+  const outgoing: number[][] = Array.from({ length: nodeCount }, () => []);
+  const head: number[] = [];
+  const tail: number[] = [];
+  const residual: number[] = [];
+  const cost: number[] = [];
+  for (const arc of arcs) {
+    outgoing[arc.from]!.push(head.length);
+    tail.push(arc.from);
+    head.push(arc.to);
+    residual.push(arc.capacity);
+    cost.push(arc.cost);
+    outgoing[arc.to]!.push(head.length);
+    tail.push(arc.to);
+    head.push(arc.from);
+    residual.push(0);
+    cost.push(-arc.cost);
+  }
+
+  const potential = new Array<number>(nodeCount).fill(Infinity);
+  potential[source] = 0;
+  for (let round = 1; round < nodeCount; round++) {
+    let changed = false;
+    for (let e = 0; e < head.length; e++) {
+      if (residual[e]! <= 0 || potential[tail[e]!] === Infinity) continue;
+      const reach = potential[tail[e]!]! + cost[e]!;
+      if (reach < potential[head[e]!]!) {
+        potential[head[e]!] = reach;
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  let amount = 0;
+  let total = 0;
+  const dist = new Array<number>(nodeCount);
+  const via = new Array<number>(nodeCount);
+  const done = new Array<boolean>(nodeCount);
+  while (amount < demand) {
+    dist.fill(Infinity);
+    via.fill(-1);
+    done.fill(false);
+    dist[source] = 0;
+    for (;;) {
+      let u = -1;
+      for (let v = 0; v < nodeCount; v++) {
+        if (
+          !done[v] &&
+          dist[v]! < Infinity &&
+          (u === -1 || dist[v]! < dist[u]!)
+        ) {
+          u = v;
+        }
+      }
+      if (u === -1) break;
+      done[u] = true;
+      for (const e of outgoing[u]!) {
+        const v = head[e]!;
+        if (residual[e]! <= 0 || potential[v] === Infinity) continue;
+        // Reduced costs are non-negative up to rounding error
+        const reduced = Math.max(0, cost[e]! + potential[u]! - potential[v]!);
+        if (dist[u]! + reduced < dist[v]!) {
+          dist[v] = dist[u]! + reduced;
+          via[v] = e;
+        }
+      }
+    }
+    if (dist[sink] === Infinity) break;
+    for (let v = 0; v < nodeCount; v++) {
+      if (dist[v]! < Infinity) potential[v]! += dist[v]!;
+    }
+
+    let push = demand - amount;
+    for (let v = sink; v !== source; v = tail[via[v]!]!) {
+      push = Math.min(push, residual[via[v]!]!);
+    }
+    for (let v = sink; v !== source; v = tail[via[v]!]!) {
+      const e = via[v]!;
+      residual[e]! -= push;
+      residual[e ^ 1]! += push;
+      total += push * cost[e]!;
+    }
+    amount += push;
+  }
+
+  return {
+    flows: arcs.map((_, k) => residual[2 * k + 1]!),
+    amount,
+    cost: total,
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * Utility functions for selectable optimization objectives
+ */
+
+import { Objective } from '../types.js';
+import { normalizedSpread } from './targets.js';
+
+/**
+ * Scores group sums under an objective (lower is better).
+ * Built-in objectives work on share-normalized sums and are 0 for a perfect
+ * split:
+ * - 'delta': max − min
+ * - 'stdev': standard deviation
+ * - 'makespan': how far the largest group exceeds the mean
+ * - 'maxmin': how far the smallest group falls short of the mean
+ * - 'anticlustering': scored as 'delta' here; callers holding the grouping
+ *   add the weighted feature centroid spread
+ * - 'homogeneous': depends on the group members, not their sums; scored as
+ *   'delta' here and solved by the homogeneous algorithm
+ * Custom functions receive the raw group sums.
+ */
+export function objectiveScore(
+  sums: number[],
+  objective: Objective = 'delta',
+  shares?: number[]
+): number {
+  if (typeof objective === 'function') return objective(sums);
+
+  const loads = shares ? sums.map((s, g) => s / shares[g]!) : sums;
+  const mean = sums.reduce((acc, s) => acc + s, 0) / sums.length;
+  switch (objective) {
+    case 'stdev': {
+      const loadMean = loads.reduce((acc, l) => acc + l, 0) / loads.length;
+      const variance =
+        loads.reduce((acc, l) => acc + (l - loadMean) ** 2, 0) / loads.length;
+      return Math.sqrt(variance);
+    }
+    case 'makespan':
+      return Math.max(...loads) - mean;
+    case 'maxmin':
+      return mean - Math.min(...loads);
+    case 'anticlustering':
+    case 'homogeneous':
+    case 'delta':
+    default:
+      return normalizedSpread(sums, shares);
+  }
+}
+
+/**
+ * Maps an objective score to a fitness (higher is better): 1 / (1 + score)
+ * for non-negative scores, continued monotonically below zero for custom
+ * objectives
+ */
+export function toFitness(score: number): number {
+  return score >= 0 ? 1 / (1 + score) : 1 - score;
+}
@@ -0,0 +1,93 @@
+/**
+ * Utility functions for exact arithmetic on scaled integer capacities
+ */
+
+import { ValidationError } from '../errors.js';
+import { Item } from '../types.js';
+
+// 'auto' never scales by more than 10^12; longer expansions such as
+// 0.30000000000000004 are float artifacts, not intended precision
+const MAX_AUTO_DECIMALS = 12;
+
+/**
+ * Number of decimal places in the shortest representation of `value`
+ */
+export function decimalPlaces(value: number): number {
+  const [mantissa, exponent] = value.toExponential().split('e');
+  const fraction = mantissa!.split('.')[1] ?? '';
+  return Math.max(0, fraction.length - Number(exponent));
+}
+
+/**
+ * Resolves `scale` to the factor capacities are multiplied by.
+ * 'auto' uses 10^(most decimal places of any capacity), capped at 10^12.
+ */
+export function resolveScaleFactor(
+  items: Item[],
+  scale: 'auto' | number
+): number {
+  if (scale !== 'auto') return scale;
+  let decimals = 0;
+  for (const item of items) {
+    decimals = Math.max(decimals, decimalPlaces(item.capacity));
+  }
+  return Math.pow(10, Math.min(decimals, MAX_AUTO_DECIMALS));
+}
+
+/**
+ * `value × factor` rounded to an integer. Powers of ten shift the decimal
+ * digits of `value` exactly, so results beyond 2^53 stay exact as BigInt.
+ */
+export function toScaledInteger(value: number, factor: number): bigint {
+  const shift = Math.log10(factor);
+  if (!Number.isInteger(shift)) return BigInt(Math.round(value * factor));
+
+  const [mantissa, exponent] = value.toExponential().split('e');
+  const [whole, fraction = ''] = mantissa!.split('.');
+  const digits = BigInt(whole! + fraction);
+  const power = Number(exponent) - fraction.length + shift;
+  if (power >= 0) return digits * BigInt(10) ** BigInt(power);
+
+  // Round half away from zero when digits are dropped
+  const divisor = BigInt(10) ** BigInt(-power);
+  const quotient = digits / divisor;
+  const remainder = digits % divisor;
+  const twice = (remainder < 0 ? -remainder : remainder) * BigInt(2);
+  if (twice < divisor) return quotient;
+  return digits < 0 ? quotient - BigInt(1) : quotient + BigInt(1);
+}
+
+/**
+ * Copies of the items with integer capacities (capacity × factor)
+ *
+ * @throws ValidationError when the scaled capacities sum beyond
+ * Number.MAX_SAFE_INTEGER, where the algorithms' sums would lose precision
+ */
+export function scaleItems(items: Item[], factor: number): Item[] {
+  const scaled = items.map(item => toScaledInteger(item.capacity, factor));
+  const total = scaled.reduce(
+    (acc, value) => acc + (value < 0 ? -value : value),
+    BigInt(0)
+  );
+  if (total > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new ValidationError(
+      `Scaled capacities sum to ${total}, beyond Number.MAX_SAFE_INTEGER; use a smaller scale`,
+      { factor, total: total.toString() }
+    );
+  }
+  return items.map((item, idx) => ({ ...item, capacity: Number(scaled[idx]) }));
+}
+
+/**
+ * Exact integer group sums of the scaled capacities
+ */
+export function exactGroupSums(
+  items: Item[],
+  groupsByIndex: number[][],
+  factor: number
+): bigint[] {
+  const scaled = items.map(item => toScaledInteger(item.capacity, factor));
+  return groupsByIndex.map(members =>
+    members.reduce((acc, idx) => acc + scaled[idx]!, BigInt(0))
+  );
+}
@@ -0,0 +1,193 @@
+/**
+ * Dense two-phase simplex for the small linear programs solved at
+ * branch-and-bound nodes
+ */
+
+/**
+ * One linear constraint: coeffs · x (type) rhs
+ */
+export interface LinearConstraint {
+  /** Dense coefficients, one per variable */
+  coeffs: number[];
+  type: '<=' | '=' | '>=';
+  rhs: number;
+}
+
+/**
+ * Minimize objective · x subject to the constraints and x ≥ 0
+ */
+export interface LinearProgram {
+  objective: number[];
+  constraints: LinearConstraint[];
+}
+
+export interface LinearSolution {
+  status: 'optimal' | 'infeasible' | 'unbounded' | 'pivot-limit';
+  /** Variable values (meaningful when optimal) */
+  x: number[];
+  /** Objective value (meaningful when optimal) */
+  value: number;
+  pivots: number;
+}
+
+// Pivot and reduced-cost tolerance
+const EPS = 1e-9;
+// Consecutive degenerate pivots before switching to Bland's rule
+const DEGENERATE_STREAK = 50;
+
+/**
+ * Solves a linear program with the two-phase tableau simplex method.
+ * Phase I minimizes the artificial variables of `=` and `>=` rows; rows
+ * left redundant are dropped before phase II. Entering columns follow
+ * Dantzig's rule, switching to Bland's rule on long degenerate streaks so
+ * the method cannot cycle.
+ */
+export function solveLinearProgram(
+  lp: LinearProgram,
+  maxPivots: number = 10000
+): LinearSolution {
+  const n = lp.objective.length;
+  const rows = lp.constraints.map(c =>
+    c.rhs < 0
+      ? {
+          coeffs: c.coeffs.map(v => -v),
+          type: (c.type === '<=' ? '>=' : c.type === '>=' ? '<=' : '=') as
+            | '<='
+            | '='
+            | '>=',
+          rhs: -c.rhs,
+        }
+      : c
+  );
+  const slackCount = rows.filter(r => r.type !== '=').length;
+  const artificialCount = rows.filter(r => r.type !== '<=').length;
+  const width = n + slackCount + artificialCount;
+  const artificialStart = n + slackCount;
+
+  // Tableau rows: coefficients followed by the right-hand side
+  let tableau: number[][] = [];
+  let basis: number[] = [];
+  let slack = n;
+  let artificial = artificialStart;
+  for (const row of rows) {
+    const line = new Array<number>(width + 1).fill(0);
+    for (let j = 0; j < n; j++) line[j] = row.coeffs[j] ?? 0;
+    line[width] = row.rhs;
+    if (row.type === '<=') {
+      line[slack] = 1;
+      basis.push(slack++);
+    } else {
+      if (row.type === '>=') line[slack++] = -1;
+      line[artificial] = 1;
+      basis.push(artificial++);
+    }
+    tableau.push(line);
+  }
+
+  let pivots = 0;
+  const pivot = (r: number, j: number): void => {
+    const line = tableau[r]!;
+    const factor = line[j]!;
+    for (let k = 0; k <= width; k++) line[k]! /= factor;
+    for (let i = 0; i < tableau.length; i++) {
+      if (i === r) continue;
+      const other = tableau[i]!;
+      const scale = other[j]!;
+      if (scale === 0) continue;
+      for (let k = 0; k <= width; k++) other[k]! -= scale * line[k]!;
+    }
+    basis[r] = j;
+    pivots++;
+  };
+
+  // Minimizes cost · x over the current basis; columns at or beyond
+  // `limit` never enter
+  const optimize = (
+    cost: number[],
+    limit: number
+  ): LinearSolution['status'] => {
+    let degenerate = 0;
+    for (;;) {
+      if (pivots >= maxPivots) return 'pivot-limit';
+      // Reduced costs of the non-basic columns
+      let entering = -1;
+      let best = -EPS;
+      const bland = degenerate >= DEGENERATE_STREAK;
+      for (let j = 0; j < limit; j++) {
+        let reduced = cost[j] ?? 0;
+        for (let r = 0; r < tableau.length; r++) {
+          reduced -= (cost[basis[r]!] ?? 0) * tableau[r]![j]!;
+        }
+        if (reduced < best) {
+          entering = j;
+          if (bland) break;
+          best = reduced;
+        }
+      }
+      if (entering === -1) return 'optimal';
+
+      // Ratio test, ties broken by the smallest basic column
+      let leaving = -1;
+      let ratio = Infinity;
+      for (let r = 0; r < tableau.length; r++) {
+        const a = tableau[r]![entering]!;
+        if (a <= EPS) continue;
+        const t = tableau[r]![width]! / a;
+        if (
+          t < ratio - EPS ||
+          (Math.abs(t - ratio) <= EPS && basis[r]! < basis[leaving]!)
+        ) {
+          ratio = t;
+          leaving = r;
+        }
+      }
+      if (leaving === -1) return 'unbounded';
+      degenerate = ratio <= EPS ? degenerate + 1 : 0;
+      pivot(leaving, entering);
+    }
+  };
+
+  const solution = (status: LinearSolution['status']): LinearSolution => {
+    const x = new Array<number>(n).fill(0);
+    basis.forEach((j, r) => {
+      if (j < n) x[j] = tableau[r]![width]!;
+    });
+    const value = x.reduce((acc, v, j) => acc + v * lp.objective[j]!, 0);
+    return { status, x, value, pivots };
+  };
+
+  // Phase I: drive the artificial variables to zero
+  if (artificialCount > 0) {
+    const phaseOne = new Array<number>(width).fill(0);
+    for (let j = artificialStart; j < width; j++) phaseOne[j] = 1;
+    const status = optimize(phaseOne, width);
+    if (status === 'pivot-limit') return solution(status);
+    const scale = Math.max(1, ...rows.map(r => Math.abs(r.rhs)));
+    const infeasibility = basis.reduce(
+      (acc, j, r) => (j >= artificialStart ? acc + tableau[r]![width]! : acc),
+      0
+    );
+    if (infeasibility > 1e-7 * scale) return solution('infeasible');
+
+    // Pivot remaining artificials out, dropping redundant rows
+    const keep: boolean[] = [];
+    for (let r = 0; r < tableau.length; r++) {
+      keep.push(true);
+      if (basis[r]! < artificialStart) continue;
+      let column = -1;
+      for (let j = 0; j < artificialStart; j++) {
+        if (Math.abs(tableau[r]![j]!) > EPS) {
+          column = j;
+          break;
+        }
+      }
+      if (column === -1) keep[r] = false;
+      else pivot(r, column);
+    }
+    tableau = tableau.filter((_, r) => keep[r]);
+    basis = basis.filter((_, r) => keep[r]);
+  }
+
+  // Phase II: the original objective over the non-artificial columns
+  return solution(optimize(lp.objective, artificialStart));
+}
@@ -0,0 +1,83 @@
+/**
+ * Utility functions for spatially compact groups (item positions)
+ */
+
+import { Item } from '../types.js';
+
+/**
+ * Item positions and the weight of the compactness term
+ */
+export interface SpatialModel {
+  /** positions[idx]: coordinates of item idx */
+  positions: number[][];
+  /** Weight of the total compactness in the objective */
+  weight: number;
+}
+
+/**
+ * Whether every item carries a position
+ */
+export function hasPositions(items: Item[]): boolean {
+  return items.length > 0 && items.every(item => item.position !== undefined);
+}
+
+/**
+ * Builds the spatial model when every item carries a position.
+ * Returns undefined without positions or with a zero weight.
+ */
+export function buildSpatialModel(
+  items: Item[],
+  options: { compactnessWeight?: number }
+): SpatialModel | undefined {
+  const { compactnessWeight = 1 } = options;
+  if (compactnessWeight === 0 || !hasPositions(items)) return undefined;
+  return {
+    positions: items.map(item => item.position!),
+    weight: compactnessWeight,
+  };
+}
+
+/**
+ * Euclidean distance between two points
+ */
+export function distance(a: number[], b: number[]): number {
+  let acc = 0;
+  for (let d = 0; d < a.length; d++) acc += (a[d]! - b[d]!) ** 2;
+  return Math.sqrt(acc);
+}
+
+/**
+ * Mean position of the given members
+ */
+export function centroid(positions: number[][], members: number[]): number[] {
+  const dims = positions[0]?.length ?? 0;
+  const center = new Array<number>(dims).fill(0);
+  for (const idx of members) {
+    for (let d = 0; d < dims; d++) center[d]! += positions[idx]![d]!;
+  }
+  return center.map(c => (members.length > 0 ? c / members.length : 0));
+}
+
+/**
+ * Compactness of one group: sum of distances from its members to their
+ * centroid (0 for a single point)
+ */
+export function compactnessOf(
+  positions: number[][],
+  members: number[]
+): number {
+  const center = centroid(positions, members);
+  let total = 0;
+  for (const idx of members) total += distance(positions[idx]!, center);
+  return total;
+}
+
+/**
+ * Compactness of every group
+ */
+export function groupCompactness(
+  positions: number[][],
+  groupsByIndex: number[][]
+): number[] {
+  return groupsByIndex.map(members => compactnessOf(positions, members));
+}
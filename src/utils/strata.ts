@@ -0,0 +1,193 @@
+/**
+ * Utility functions for stratified partitioning (per-category quotas)
+ */
+
+import { Item } from '../types.js';
+
+/**
+ * Category key of every item index; items without a category share the
+ * `undefined` stratum
+ */
+export function itemStrata(items: Item[]): (string | undefined)[] {
+  return items.map(item =>
+    item.category === undefined ? undefined : String(item.category)
+  );
+}
+
+/**
+ * Whether any item carries a category
+ */
+export function hasCategories(items: Item[]): boolean {
+  return items.some(item => item.category !== undefined);
+}
+
+/**
+ * Whether exchanging `out1` with `out2` keeps every group's category counts
+ */
+export function sameStrata(
+  strata: (string | undefined)[],
+  out1: number[],
+  out2: number[]
+): boolean {
+  if (out1.length === 1) return strata[out1[0]!] === strata[out2[0]!];
+  const remaining = out2.map(idx => strata[idx]);
+  for (const idx of out1) {
+    const pos = remaining.indexOf(strata[idx]);
+    if (pos === -1) return false;
+    remaining.splice(pos, 1);
+  }
+  return true;
+}
+
+/**
+ * Number of items of each stratum, in order of first appearance
+ */
+function countStrata(
+  strata: (string | undefined)[]
+): Map<string | undefined, number> {
+  const counts = new Map<string | undefined, number>();
+  for (const key of strata) counts.set(key, (counts.get(key) ?? 0) + 1);
+  return counts;
+}
+
+/**
+ * Computes how many items of each category every group receives.
+ * Each quota is the floor or ceiling of the group's proportional share
+ * (count × size / total), so quotas are exact when they divide evenly and
+ * within ±1 otherwise, while every group's quotas add up to its size.
+ * The fractional units are distributed by augmenting paths, which always
+ * succeed for integer margins.
+ */
+export function computeCategoryQuotas(
+  items: Item[],
+  sizes: number[]
+): Map<string | undefined, number[]> {
+  const total = sizes.reduce((acc, n) => acc + n, 0);
+  const counts = [...countStrata(itemStrata(items))];
+  const groups = sizes.length;
+
+  const quotas = counts.map(([, count]) =>
+    sizes.map(size => Math.floor((count * size) / total))
+  );
+  const fractional = counts.map(([, count]) =>
+    sizes.map(size => (count * size) % total !== 0)
+  );
+  const room = sizes.map(
+    (size, g) => size - quotas.reduce((acc, q) => acc + q[g]!, 0)
+  );
+  const extra = counts.map(() => new Array<boolean>(groups).fill(false));
+
+  // Gives category c one more unit, rerouting earlier units if needed
+  const augment = (c: number, visited: Set<number>): boolean => {
+    for (let g = 0; g < groups; g++) {
+      if (!fractional[c]![g] || extra[c]![g] || visited.has(g)) continue;
+      visited.add(g);
+      if (room[g]! > 0) {
+        extra[c]![g] = true;
+        room[g]!--;
+        return true;
+      }
+      for (let other = 0; other < counts.length; other++) {
+        if (extra[other]![g] && augment(other, visited)) {
+          extra[other]![g] = false;
+          extra[c]![g] = true;
+          return true;
+        }
+      }
+    }
+    return false;
+  };
+
+  counts.forEach(([, count], c) => {
+    const missing = count - quotas[c]!.reduce((acc, q) => acc + q, 0);
+    for (let unit = 0; unit < missing; unit++) {
+      if (!augment(c, new Set())) {
+        throw new Error('Could not distribute category quotas');
+      }
+    }
+  });
+
+  return new Map(
+    counts.map(([key], c) => [
+      key,
+      quotas[c]!.map((q, g) => q + (extra[c]![g] ? 1 : 0)),
+    ])
+  );
+}
+
+/**
+ * Places items in descending capacity order into the group picked by `pick`
+ * among those with remaining quota for the item's category
+ */
+export function placeStratified(
+  items: Item[],
+  sizes: number[],
+  order: number[],
+  pick: (feasible: number[], index: number) => number
+): number[][] {
+  const strata = itemStrata(items);
+  const remaining = computeCategoryQuotas(items, sizes);
+  const groupsByIndex: number[][] = sizes.map(() => []);
+  for (const index of order) {
+    const quota = remaining.get(strata[index])!;
+    const feasible = sizes.flatMap((_, g) => (quota[g]! > 0 ? [g] : []));
+    const g = pick(feasible, index);
+    quota[g]!--;
+    groupsByIndex[g]!.push(index);
+  }
+  return groupsByIndex;
+}
+
+/**
+ * Number of items of each category in every group (uncategorized items are
+ * not counted)
+ */
+export function countCategories(
+  items: Item[],
+  groupsByIndex: number[][]
+): Record<string, number>[] {
+  return groupsByIndex.map(group => {
+    const counts: Record<string, number> = {};
+    for (const idx of group) {
+      const category = items[idx]!.category;
+      if (category === undefined) continue;
+      const key = String(category);
+      counts[key] = (counts[key] ?? 0) + 1;
+    }
+    return counts;
+  });
+}
+
+/**
+ * Reports groups whose category counts are not within ±1 of their
+ * proportional share. Returns an empty array when every quota is met.
+ */
+export function findQuotaViolations(
+  items: Item[],
+  groupsByIndex: number[][]
+): string[] {
+  const strata = itemStrata(items);
+  const counts = countStrata(strata);
+  const total = groupsByIndex.reduce((acc, g) => acc + g.length, 0);
+  const errors: string[] = [];
+
+  groupsByIndex.forEach((group, g) => {
+    const inGroup = countStrata(group.map(idx => strata[idx]));
+    for (const [key, count] of counts) {
+      if (key === undefined) continue;
+      const share = (count * group.length) / total;
+      const actual = inGroup.get(key) ?? 0;
+      if (actual < Math.floor(share) || actual > Math.ceil(share)) {
+        const expected =
+          Math.floor(share) === Math.ceil(share)
+            ? `${share}`
+            : `${Math.floor(share)}-${Math.ceil(share)}`;
+        errors.push(
+          `Group ${g} holds ${actual} items of category ${key}, expected ${expected}`
+        );
+      }
+    }
+  });
+
+  return errors;
+}
@@ -0,0 +1,46 @@
+/**
+ * Utility functions for per-group target sums (heterogeneous bins)
+ */
+
+/**
+ * Resolves the target sum of each group from explicit targets or relative
+ * weights. Returns undefined when neither is given (equal shares).
+ */
+export function resolveGroupTargets(
+  totalCapacity: number,
+  options: { groupTargets?: number[]; groupWeights?: number[] }
+): number[] | undefined {
+  if (options.groupTargets) {
+    return [...options.groupTargets];
+  }
+  if (options.groupWeights) {
+    const weightSum = options.groupWeights.reduce((s, w) => s + w, 0);
+    return options.groupWeights.map(w => (totalCapacity * w) / weightSum);
+  }
+  return undefined;
+}
+
+/**
+ * Converts target sums into relative shares (1 = average target).
+ * Loads divided by their share are directly comparable across groups.
+ */
+export function targetShares(targets?: number[]): number[] | undefined {
+  if (!targets || targets.length === 0) return undefined;
+  const mean = targets.reduce((s, t) => s + t, 0) / targets.length;
+  return targets.map(t => t / mean);
+}
+
+/**
+ * Spread (max − min) of share-normalized group sums.
+ * Without shares this is the plain delta.
+ */
+export function normalizedSpread(sums: number[], shares?: number[]): number {
+  let max = -Infinity;
+  let min = Infinity;
+  for (let g = 0; g < sums.length; g++) {
+    const v = shares ? sums[g]! / shares[g]! : sums[g]!;
+    if (v > max) max = v;
+    if (v < min) min = v;
+  }
+  return max - min;
+}
@@ -99,6 +99,110 @@ export function validateCapacities(items: Item[]): void {
   }
 }
 
+/**
+ * Validates that capacity vectors (when present) are consistent across items
+ * @param items Array of items to validate
+ * @throws ValidationError if some items lack vectors or dimensions differ
+ */
+export function validateDimensions(items: Item[]): void {
+  const dims = items[0]?.capacities?.length;
+  const mismatched: (string | number)[] = [];
+
+  for (const item of items) {
+    if (item.capacities?.length !== dims) {
+      mismatched.push(item.id);
+    }
+  }
+
+  if (dims === 0) {
+    throw createValidationError(
+      'capacities',
+      items[0]!.capacities,
+      'at least one dimension'
+    );
+  }
+
+  if (mismatched.length > 0) {
+    throw new ValidationError(
+      `Inconsistent capacity dimensions: expected every item to have ${dims ?? 'no'} capacities, mismatched items: ${mismatched.join(', ')}`,
+      { dimensions: dims, mismatchedIds: mismatched }
+    );
+  }
+}
+
+/**
+ * Validates that load profiles (when present) are carried by every item,
+ * share one length and hold non-negative finite loads
+ * @param items Array of items to validate
+ * @throws ValidationError for missing, mismatched or invalid profiles, or
+ * items carrying both `capacities` and `profile`
+ */
+export function validateProfiles(items: Item[]): void {
+  if (!items.some(item => item.profile !== undefined)) return;
+  const periods = items[0]?.profile?.length;
+  const mismatched: (string | number)[] = [];
+
+  for (const item of items) {
+    const profile = item.profile;
+    if (
+      !Array.isArray(profile) ||
+      profile.length === 0 ||
+      profile.length !== periods ||
+      !profile.every(v => typeof v === 'number' && Number.isFinite(v) && v >= 0)
+    ) {
+      mismatched.push(item.id);
+    }
+  }
+
+  if (mismatched.length > 0) {
+    throw new ValidationError(
+      `Invalid profile: expected every item to have ${periods ?? 'a'} non-negative finite loads, mismatched items: ${mismatched.join(', ')}`,
+      { field: 'profile', periods, mismatchedIds: mismatched }
+    );
+  }
+  if (items.some(item => item.capacities !== undefined)) {
+    throw new ValidationError(
+      'Items cannot carry both capacities and a profile',
+      { field: 'profile' }
+    );
+  }
+}
+
+/**
+ * Validates that item `features` or `position` vectors (when present) are
+ * finite and share one length
+ * @param items Array of items to validate
+ * @param field Vector field to check
+ * @throws ValidationError for non-finite entries or differing lengths
+ */
+export function validateItemVectors(
+  items: Item[],
+  field: 'features' | 'position'
+): void {
+  const dims = items.find(item => item[field])?.[field]?.length;
+  if (dims === undefined) return;
+  const mismatched: (string | number)[] = [];
+
+  for (const item of items) {
+    const vector = item[field];
+    if (
+      vector !== undefined &&
+      (!Array.isArray(vector) ||
+        vector.length !== dims ||
+        !vector.every(v => typeof v === 'number' && Number.isFinite(v)))
+    ) {
+      mismatched.push(item.id);
+    }
+  }
+
+  if (mismatched.length > 0) {
+    throw new ValidationError(
+      `Invalid ${field}: expected ${dims} finite numbers per item, mismatched items: ${mismatched.join(', ')}`,
+      { field, dimensions: dims, mismatchedIds: mismatched }
+    );
+  }
+}
+
 /**
  * Validates the groups and groupSize parameters
  * @param groups Number of groups to create
@@ -140,29 +244,100 @@ export function validateGroupParameters(
   }
 }
 
+/**
+ * Validates an explicit per-group size vector
+ * @param groupSizes Number of items required in each group
+ * @throws ValidationError if the vector is empty or contains invalid sizes
+ */
+export function validateGroupSizes(groupSizes: number[]): void {
+  if (!Array.isArray(groupSizes) || groupSizes.length === 0) {
+    throw createValidationError(
+      'groupSizes',
+      groupSizes,
+      'non-empty array of positive integers'
+    );
+  }
+
+  for (let g = 0; g < groupSizes.length; g++) {
+    const size = groupSizes[g];
+    if (typeof size !== 'number' || !Number.isInteger(size) || size <= 0) {
+      throw createValidationError(`groupSizes[${g}]`, size, 'positive integer');
+    }
+  }
+}
+
+/**
+ * Validates that per-group targets or weights have one entry per group
+ * @param options Partition options carrying groupTargets/groupWeights
+ * @param groups Number of groups
+ * @throws ValidationError if the vector length differs from the group count
+ */
+export function validateGroupTargets(
+  options: { groupTargets?: number[]; groupWeights?: number[] },
+  groups: number
+): void {
+  const key = options.groupTargets ? 'groupTargets' : 'groupWeights';
+  const val = options.groupTargets ?? options.groupWeights;
+  if (val && val.length !== groups) {
+    throw new ValidationError(
+      `options.${key} must have one entry per group: expected ${groups}, got ${val.length}`,
+      { field: `options.${key}`, expected: groups, actual: val.length }
+    );
+  }
+}
+
+/**
+ * Validates that every pinned item targets an existing group
+ * @param pinned Item ID → group index
+ * @param groups Number of groups
+ * @throws ValidationError if a group index is out of range
+ */
+export function validatePinned(
+  pinned: Record<string | number, number> | undefined,
+  groups: number
+): void {
+  for (const [id, group] of Object.entries(pinned ?? {})) {
+    if (group >= groups) {
+      throw new ValidationError(
+        `Item ${id} is pinned to group ${group}, but only ${groups} groups exist`,
+        { field: 'pinned', id, group, groups }
+      );
+    }
+  }
+}
+
 /**
  * Validates that the items array length matches groups × groupSize
+ * (or the sum of groupSizes when explicit per-group sizes are given)
  * @param items Array of items
  * @param groups Number of groups
  * @param groupSize Number of items per group
+ * @param groupSizes Optional explicit number of items for each group
  * @throws ValidationError if lengths don't match
  */
 export function validateItemCount(
   items: Item[],
   groups: number,
-  groupSize: number
+  groupSize: number,
+  groupSizes?: number[]
 ): void {
-  const expectedCount = groups * groupSize;
+  const expectedCount = groupSizes
+    ? groupSizes.reduce((sum, size) => sum + size, 0)
+    : groups * groupSize;
   const actualCount = items.length;
 
   if (actualCount !== expectedCount) {
+    const layout = groupSizes
+      ? `group sizes [${groupSizes.join(', ')}]`
+      : `${groups} groups × ${groupSize} items`;
     throw new ValidationError(
-      `Item count mismatch: expected ${expectedCount} items (${groups} groups × ${groupSize} items), got ${actualCount}`,
+      `Item count mismatch: expected ${expectedCount} items (${layout}), got ${actualCount}`,
       {
         expectedCount,
         actualCount,
         groups,
         groupSize,
+        groupSizes,
       }
     );
   }
@@ -198,12 +373,14 @@ export function isFeasible(
  * @param items Array of items to partition
  * @param groups Number of groups to create
  * @param groupSize Number of items per group
+ * @param groupSizes Optional explicit number of items for each group
  * @throws ValidationError or InfeasibleError if validation fails
  */
 export function validatePartitionInputs(
   items: Item[],
   groups: number,
-  groupSize: number
+  groupSize: number,
+  groupSizes?: number[]
 ): void {
   // Validate basic types and structure
   if (!Array.isArray(items)) {
@@ -215,10 +392,13 @@ export function validatePartitionInputs(
   }
 
   // Validate group parameters
+  if (groupSizes !== undefined) {
+    validateGroupSizes(groupSizes);
+  }
   validateGroupParameters(groups, groupSize);
 
   // Validate item count matches expected
-  validateItemCount(items, groups, groupSize);
+  validateItemCount(items, groups, groupSize, groupSizes);
 
   // Validate each item
   if (!isItemArray(items)) {
@@ -230,6 +410,10 @@ export function validatePartitionInputs(
 
   // Validate capacities
   validateCapacities(items);
+  validateDimensions(items);
+  validateProfiles(items);
+  validateItemVectors(items, 'features');
+  validateItemVectors(items, 'position');
 
   // Check for edge cases that make the problem infeasible
   const totalCapacity = items.reduce((sum, item) => sum + item.capacity, 0);
@@ -342,6 +526,15 @@ export function validatePartitionOptions(
       );
     }
   }
+  if ('stratify' in options && (options as any)['stratify'] !== undefined) {
+    if (typeof (options as any)['stratify'] !== 'boolean') {
+      throw createValidationError(
+        'options.stratify',
+        (options as any)['stratify'],
+        'boolean'
+      );
+    }
+  }
 
   // Optional arrays of algorithms
   const algoArrays = ['preferredAlgorithms', 'disallowedAlgorithms'];
@@ -358,6 +551,110 @@ export function validatePartitionOptions(
     }
   }
 
+  // Multi-dimensional balancing
+  if (
+    'dimensionWeights' in options &&
+    (options as any)['dimensionWeights'] !== undefined
+  ) {
+    const val = (options as any)['dimensionWeights'];
+    if (
+      !Array.isArray(val) ||
+      !val.every(w => typeof w === 'number' && isFinite(w) && w >= 0)
+    ) {
+      throw createValidationError(
+        'options.dimensionWeights',
+        val,
+        'array of non-negative finite numbers'
+      );
+    }
+  }
+  if (
+    'dimensionObjective' in options &&
+    (options as any)['dimensionObjective'] !== undefined
+  ) {
+    const val = (options as any)['dimensionObjective'];
+    if (!['worst', 'weighted', 'peak'].includes(val as any)) {
+      throw createValidationError(
+        'options.dimensionObjective',
+        val,
+        "one of: 'worst', 'weighted', 'peak'"
+      );
+    }
+  }
+
+  // Heterogeneous group targets
+  for (const key of ['groupTargets', 'groupWeights']) {
+    if (key in options && (options as any)[key] !== undefined) {
+      const val = (options as any)[key];
+      if (
+        !Array.isArray(val) ||
+        val.length === 0 ||
+        !val.every(w => typeof w === 'number' && isFinite(w) && w > 0)
+      ) {
+        throw createValidationError(
+          `options.${key}`,
+          val,
+          'non-empty array of positive finite numbers'
+        );
+      }
+    }
+  }
+  if (
+    (options as any)['groupTargets'] !== undefined &&
+    (options as any)['groupWeights'] !== undefined
+  ) {
+    throw new ValidationError(
+      'Specify either groupTargets or groupWeights, not both',
+      { field: 'options' }
+    );
+  }
+
+  // Must-link / cannot-link constraints
+  if (
+    'constraints' in options &&
+    (options as any)['constraints'] !== undefined
+  ) {
+    const val = (options as any)['constraints'];
+    const isPairList = (pairs: unknown) =>
+      pairs === undefined ||
+      (Array.isArray(pairs) &&
+        pairs.every(
+          pair =>
+            Array.isArray(pair) &&
+            pair.length === 2 &&
+            pair.every(id => typeof id === 'string' || typeof id === 'number')
+        ));
+    if (
+      typeof val !== 'object' ||
+      val === null ||
+      !isPairList(val.mustLink) ||
+      !isPairList(val.cannotLink)
+    ) {
+      throw createValidationError(
+        'options.constraints',
+        val,
+        '{ mustLink?: [id, id][]; cannotLink?: [id, id][] }'
+      );
+    }
+  }
+
+  // Pinned items
+  if ('pinned' in options && (options as any)['pinned'] !== undefined) {
+    const val = (options as any)['pinned'];
+    if (
+      typeof val !== 'object' ||
+      val === null ||
+      Array.isArray(val) ||
+      !Object.values(val).every(g => Number.isInteger(g) && (g as number) >= 0)
+    ) {
+      throw createValidationError(
+        'options.pinned',
+        val,
+        'object mapping item IDs to group indices'
+      );
+    }
+  }
+
   // Selection strategy
   if (
     'selectionStrategy' in options &&
@@ -372,6 +669,207 @@ export function validatePartitionOptions(
       );
     }
   }
+
+  // Optimization objective
+  if ('objective' in options && (options as any)['objective'] !== undefined) {
+    const val = (options as any)['objective'];
+    if (
+      typeof val !== 'function' &&
+      ![
+        'delta',
+        'stdev',
+        'makespan',
+        'maxmin',
+        'anticlustering',
+        'homogeneous',
+      ].includes(val as any)
+    ) {
+      throw createValidationError(
+        'options.objective',
+        val,
+        "one of: 'delta', 'stdev', 'makespan', 'maxmin', 'anticlustering', 'homogeneous', or a function"
+      );
+    }
+  }
+  if (
+    'compactnessWeight' in options &&
+    (options as any)['compactnessWeight'] !== undefined
+  ) {
+    const val = (options as any)['compactnessWeight'];
+    if (typeof val !== 'number' || !Number.isFinite(val) || val < 0) {
+      throw createValidationError(
+        'options.compactnessWeight',
+        val,
+        'non-negative finite number'
+      );
+    }
+  }
+
+  // Weighted edges between items
+  if ('edges' in options && (options as any)['edges'] !== undefined) {
+    const val = (options as any)['edges'];
+    const isId = (id: unknown) =>
+      typeof id === 'string' || typeof id === 'number';
+    if (
+      !Array.isArray(val) ||
+      !val.every(
+        edge =>
+          typeof edge === 'object' &&
+          edge !== null &&
+          isId(edge.a) &&
+          isId(edge.b) &&
+          (edge.weight === undefined ||
+            (typeof edge.weight === 'number' &&
+              Number.isFinite(edge.weight) &&
+              edge.weight >= 0))
+      )
+    ) {
+      throw createValidationError(
+        'options.edges',
+        val,
+        '{ a: id; b: id; weight?: non-negative number }[]'
+      );
+    }
+  }
+  if (
+    'edgeCutWeight' in options &&
+    (options as any)['edgeCutWeight'] !== undefined
+  ) {
+    const val = (options as any)['edgeCutWeight'];
+    if (typeof val !== 'number' || !Number.isFinite(val) || val < 0) {
+      throw createValidationError(
+        'options.edgeCutWeight',
+        val,
+        'non-negative finite number'
+      );
+    }
+  }
+  if (
+    'homogeneity' in options &&
+    (options as any)['homogeneity'] !== undefined
+  ) {
+    const val = (options as any)['homogeneity'];
+    if (!['range', 'variance'].includes(val)) {
+      throw createValidationError(
+        'options.homogeneity',
+        val,
+        "one of: 'range', 'variance'"
+      );
+    }
+  }
+  if (
+    'featureWeight' in options &&
+    (options as any)['featureWeight'] !== undefined
+  ) {
+    const val = (options as any)['featureWeight'];
+    if (typeof val !== 'number' || !Number.isFinite(val) || val < 0) {
+      throw createValidationError(
+        'options.featureWeight',
+        val,
+        'non-negative finite number'
+      );
+    }
+  }
+
+  // Migration baseline and move costs
+  if ('baseline' in options && (options as any)['baseline'] !== undefined) {
+    const val = (options as any)['baseline'];
+    if (
+      typeof val !== 'object' ||
+      val === null ||
+      Array.isArray(val) ||
+      !Object.values(val).every(g => Number.isInteger(g) && (g as number) >= 0)
+    ) {
+      throw createValidationError(
+        'options.baseline',
+        val,
+        'object mapping item IDs to group indices'
+      );
+    }
+  }
+  if ('moveCost' in options && (options as any)['moveCost'] !== undefined) {
+    const val = (options as any)['moveCost'];
+    const isCost = (c: unknown): boolean =>
+      typeof c === 'number' && Number.isFinite(c) && c >= 0;
+    const valid =
+      isCost(val) ||
+      (typeof val === 'object' &&
+        val !== null &&
+        !Array.isArray(val) &&
+        Object.values(val).every(isCost));
+    if (!valid) {
+      throw createValidationError(
+        'options.moveCost',
+        val,
+        'non-negative number or object mapping item IDs to non-negative numbers'
+      );
+    }
+  }
+  if (
+    'moveCostWeight' in options &&
+    (options as any)['moveCostWeight'] !== undefined
+  ) {
+    const val = (options as any)['moveCostWeight'];
+    if (typeof val !== 'number' || !Number.isFinite(val) || val < 0) {
+      throw createValidationError(
+        'options.moveCostWeight',
+        val,
+        'non-negative finite number'
+      );
+    }
+  }
+
+  // Hard caps on group sums
+  if (
+    'maxGroupSum' in options &&
+    (options as any)['maxGroupSum'] !== undefined
+  ) {
+    const val = (options as any)['maxGroupSum'];
+    const isCap = (c: unknown): boolean =>
+      typeof c === 'number' && Number.isFinite(c) && c > 0;
+    if (!(isCap(val) || (Array.isArray(val) && val.every(isCap)))) {
+      throw createValidationError(
+        'options.maxGroupSum',
+        val,
+        'positive number or array of positive numbers (one per group)'
+      );
+    }
+  }
+
+  // Item-to-group affinity
+  if ('affinity' in options && (options as any)['affinity'] !== undefined) {
+    const val = (options as any)['affinity'];
+    if (
+      typeof val !== 'function' &&
+      !(
+        Array.isArray(val) &&
+        val.every(
+          row =>
+            Array.isArray(row) &&
+            row.every(c => typeof c === 'number' && Number.isFinite(c))
+        )
+      )
+    ) {
+      throw createValidationError(
+        'options.affinity',
+        val,
+        '(itemId, groupIndex) => number or number[][] (item × group costs)'
+      );
+    }
+  }
+  if (
+    'affinityWeight' in options &&
+    (options as any)['affinityWeight'] !== undefined
+  ) {
+    const val = (options as any)['affinityWeight'];
+    if (typeof val !== 'number' || !Number.isFinite(val) || val < 0) {
+      throw createValidationError(
+        'options.affinityWeight',
+        val,
+        'non-negative finite number'
+      );
+    }
+  }
 }
 
 /**
@@ -380,8 +878,16 @@ export function validatePartitionOptions(
  * @returns Deep copy of items array
  */
 export function ensureInputImmutability(items: Item[]): Item[] {
-  return items.map(item => ({
-    id: item.id,
-    capacity: item.capacity,
-  }));
+  return items.map(item => {
+    const copy: Item = {
+      id: item.id,
+      capacity: item.capacity,
+    };
+    if (item.capacities) copy.capacities = [...item.capacities];
+    if (item.category !== undefined) copy.category = item.category;
+    if (item.features) copy.features = [...item.features];
+    if (item.position) copy.position = [...item.position];
+    if (item.profile) copy.profile = [...item.profile];
+    return copy;
+  });
 }
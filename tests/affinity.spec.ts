@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  partitionBalanced,
+  fromCapacities,
+  lpt,
+  UnsupportedError,
+  ValidationError,
+} from '../src/index.js';
+import { localRefine } from '../src/algorithms/localRefine.js';
+import { metaheuristic } from '../src/algorithms/metaheuristic.js';
+import { assignmentCost, buildAffinityModel } from '../src/utils/affinity.js';
+import { objectiveScore, toFitness } from '../src/utils/objective.js';
+
+describe('Item-to-group affinity', () => {
+  // Items 0-3 live next to group 1, items 4-7 next to group 0
+  const local = (idx: number, g: number): number =>
+    (idx < 4 ? 1 : 0) === g ? 0 : 5;
+  const matrix = Array.from({ length: 8 }, (_, idx) => [
+    local(idx, 0),
+    local(idx, 1),
+  ]);
+
+  it('resolves functions and matrices to the same costs', () => {
+    const items = fromCapacities([10, 10, 10, 10, 10, 10, 10, 10]);
+    const fromMatrix = buildAffinityModel(items, { affinity: matrix }, 2)!;
+    const fromFunction = buildAffinityModel(
+      items,
+      {
+        affinity: (id, g) => local(Number(String(id).slice(4)), g),
+        affinityWeight: 2,
+      },
+      2
+    )!;
+    expect(fromFunction.cost).toEqual(fromMatrix.cost);
+    expect(fromFunction.weight).toBe(2);
+    expect(
+      assignmentCost(fromMatrix, [
+        [0, 1, 2, 3],
+        [4, 5, 6, 7],
+      ])
+    ).toBe(40);
+    expect(buildAffinityModel(items, {}, 2)).toBeUndefined();
+  });
+
+  it('lpt places items where they are cheapest when balance allows', () => {
+    const items = fromCapacities([10, 10, 10, 10, 10, 10, 10, 10]);
+    const result = partitionBalanced(items, 2, 4, {
+      method: 'lpt',
+      affinity: matrix,
+    });
+    expect(result.delta).toBe(0);
+    expect(result.assignmentCost).toBe(0);
+    expect(result.groupsByIndex[1]!.slice().sort()).toEqual([0, 1, 2, 3]);
+  });
+
+  it('trades balance against placement cost with the weight', () => {
+    const items = fromCapacities([16, 15, 14, 13, 4, 3, 2, 1]);
+    const balanced = lpt(items, 2, 4, { affinity: matrix, affinityWeight: 0 });
+    const cheap = partitionBalanced(items, 2, 4, {
+      method: 'lpt',
+      affinity: matrix,
+      affinityWeight: 100,
+    });
+    expect(balanced.delta).toBe(0);
+    expect(cheap.assignmentCost).toBe(0);
+    expect(cheap.delta).toBeGreaterThan(balanced.delta);
+  });
+
+  it('localRefine counts placement cost in swap gains', () => {
+    const items = fromCapacities([10, 10, 10, 10, 10, 10, 10, 10]);
+    const res = localRefine(
+      items,
+      [
+        [0, 1, 2, 3],
+        [4, 5, 6, 7],
+      ],
+      { affinity: matrix }
+    );
+    expect(res.groupsByIndex[1]!.slice().sort()).toEqual([0, 1, 2, 3]);
+  });
+
+  it('metaheuristic fitness includes the weighted placement cost', () => {
+    const items = fromCapacities([16, 15, 14, 13, 4, 3, 2, 1]);
+    const res = metaheuristic(items, 2, 4, {
+      type: 'simulated-annealing',
+      seed: 3,
+      maxIters: 200,
+      affinity: matrix,
+      affinityWeight: 0.5,
+    });
+    const model = buildAffinityModel(items, { affinity: matrix }, 2)!;
+    expect(res.fitness).toBeCloseTo(
+      toFitness(
+        objectiveScore(res.groupSums) +
+          0.5 * assignmentCost(model, res.groupsByIndex)
+      )
+    );
+  });
+
+  it('auto reports the assignment cost', () => {
+    const items = fromCapacities([10, 10, 10, 10, 10, 10, 10, 10]);
+    const result = partitionBalanced(items, 2, 4, { affinity: matrix });
+    expect(result.assignmentCost).toBe(0);
+  });
+
+  it('rejects malformed affinities and unsupported methods', () => {
+    const items = fromCapacities([10, 10, 10, 10, 10, 10, 10, 10]);
+    expect(() =>
+      partitionBalanced(items, 2, 4, { affinity: matrix.slice(1) })
+    ).toThrow(ValidationError);
+    expect(() =>
+      partitionBalanced(items, 2, 4, { affinity: () => NaN })
+    ).toThrow(ValidationError);
+    expect(() =>
+      partitionBalanced(items, 2, 4, { affinity: matrix, affinityWeight: -1 })
+    ).toThrow(ValidationError);
+    expect(() =>
+      partitionBalanced(items, 2, 4, { affinity: matrix, method: 'kk' })
+    ).toThrow(UnsupportedError);
+  });
+});
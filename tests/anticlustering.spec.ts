@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import {
+  partitionBalanced,
+  evaluateGrouping,
+  UnsupportedError,
+  ValidationError,
+} from '../src/index.js';
+import type { Item } from '../src/index.js';
+import { localRefine } from '../src/algorithms/localRefine.js';
+import { metaheuristic } from '../src/algorithms/metaheuristic.js';
+import { centroidSpread, groupDiversity } from '../src/utils/features.js';
+import { objectiveScore, toFitness } from '../src/utils/objective.js';
+
+describe('Anticlustering on item features', () => {
+  // Equal capacities, so only the features tell groupings apart
+  const students: Item[] = Array.from({ length: 12 }, (_, i) => ({
+    id: `s${i}`,
+    capacity: 10,
+    features: [i, (i * 5) % 12],
+  }));
+  const vectors = students.map(s => s.features!);
+  const sorted = [
+    [0, 1, 2, 3],
+    [4, 5, 6, 7],
+    [8, 9, 10, 11],
+  ];
+
+  it('measures centroid spread and within-group diversity', () => {
+    const points = [[0], [2], [4], [6]];
+    expect(
+      centroidSpread(points, [
+        [0, 1],
+        [2, 3],
+      ])
+    ).toBe(16);
+    expect(
+      centroidSpread(points, [
+        [0, 3],
+        [1, 2],
+      ])
+    ).toBe(0);
+    expect(
+      groupDiversity(points, [
+        [0, 1],
+        [2, 3],
+      ])
+    ).toEqual([4, 4]);
+    expect(
+      groupDiversity(points, [
+        [0, 3],
+        [1, 2],
+      ])
+    ).toEqual([36, 4]);
+  });
+
+  it('evaluateGrouping reports feature metrics', () => {
+    const evaluation = evaluateGrouping(students, sorted);
+    expect(evaluation.centroidSpread).toBeCloseTo(
+      centroidSpread(vectors, sorted)
+    );
+    expect(evaluation.featureDiversity).toEqual(
+      groupDiversity(vectors, sorted)
+    );
+    expect(
+      evaluateGrouping([{ id: 'a', capacity: 1 }], [[0]]).centroidSpread
+    ).toBeUndefined();
+  });
+
+  it('localRefine swaps items to even out the centroids', () => {
+    const before = centroidSpread(vectors, sorted);
+    const res = localRefine(
+      students,
+      sorted.map(g => [...g]),
+      { objective: 'anticlustering' }
+    );
+    const after = centroidSpread(vectors, res.groupsByIndex);
+    expect(after).toBeLessThan(before * 0.05);
+    expect(res.groupSums).toEqual([40, 40, 40]);
+  });
+
+  it('metaheuristic fitness includes the weighted centroid spread', () => {
+    const res = metaheuristic(students, 3, 4, {
+      type: 'simulated-annealing',
+      seed: 2,
+      maxIters: 300,
+      objective: 'anticlustering',
+      featureWeight: 0.5,
+    });
+    expect(res.fitness).toBeCloseTo(
+      toFitness(
+        objectiveScore(res.groupSums) +
+          0.5 * centroidSpread(vectors, res.groupsByIndex)
+      )
+    );
+  });
+
+  it('trades sum balance against feature centroids with the weight', () => {
+    const items: Item[] = students.map((s, i) => ({
+      ...s,
+      capacity: 10 + (i % 3),
+    }));
+    const plain = partitionBalanced(items, 3, 4, { seed: 1 });
+    const light = partitionBalanced(items, 3, 4, {
+      objective: 'anticlustering',
+      featureWeight: 0.1,
+      seed: 1,
+    });
+    const heavy = partitionBalanced(items, 3, 4, {
+      objective: 'anticlustering',
+      seed: 1,
+    });
+    expect(light.delta).toBe(0);
+    expect(light.centroidSpread).toBeLessThan(plain.centroidSpread!);
+    expect(heavy.centroidSpread).toBeLessThan(light.centroidSpread!);
+    expect(heavy.featureDiversity).toHaveLength(3);
+
+    const mh = partitionBalanced(items, 3, 4, {
+      method: 'metaheuristic',
+      objective: 'anticlustering',
+      seed: 1,
+    });
+    expect(mh.centroidSpread).toBeDefined();
+  });
+
+  it('rejects missing features, bad weights and unsupported methods', () => {
+    const partial = students.map((s, i) =>
+      i === 3 ? { id: s.id, capacity: s.capacity } : s
+    );
+    expect(() =>
+      partitionBalanced(partial, 3, 4, { objective: 'anticlustering' })
+    ).toThrow(ValidationError);
+    const ragged = students.map((s, i) =>
+      i === 3 ? { ...s, features: [1] } : s
+    );
+    expect(() => partitionBalanced(ragged, 3, 4)).toThrow(ValidationError);
+    expect(() =>
+      partitionBalanced(students, 3, 4, {
+        objective: 'anticlustering',
+        featureWeight: -1,
+      })
+    ).toThrow(ValidationError);
+    expect(() =>
+      partitionBalanced(students, 3, 4, {
+        objective: 'anticlustering',
+        method: 'lpt',
+      })
+    ).toThrow(UnsupportedError);
+  });
+});
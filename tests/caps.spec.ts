@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  partitionBalanced,
+  fromCapacities,
+  checkCaps,
+  InfeasibleError,
+  UnsupportedError,
+  ValidationError,
+} from '../src/index.js';
+import { localRefine } from '../src/algorithms/localRefine.js';
+import { metaheuristic } from '../src/algorithms/metaheuristic.js';
+import { validateGrouping } from '../src/algorithms/evaluate.js';
+
+describe('Per-group capacity caps', () => {
+  const items = fromCapacities([10, 9, 8, 7, 6, 5, 4, 3]);
+
+  function infeasibility(fn: () => unknown): InfeasibleError {
+    try {
+      fn();
+    } catch (error) {
+      expect(error).toBeInstanceOf(InfeasibleError);
+      return error as InfeasibleError;
+    }
+    throw new Error('expected an InfeasibleError');
+  }
+
+  it('checkCaps reports slack and violations', () => {
+    const groupsByIndex = [
+      [0, 1, 2, 3],
+      [4, 5, 6, 7],
+    ];
+    const check = checkCaps(items, groupsByIndex, [30, 20]);
+    expect(check.valid).toBe(false);
+    expect(check.slack).toEqual([-4, 2]);
+    expect(check.violations).toEqual([
+      { group: 0, sum: 34, cap: 30, excess: 4 },
+    ]);
+    expect(checkCaps(items, groupsByIndex, 34).valid).toBe(true);
+    expect(
+      validateGrouping(items, groupsByIndex, 4, undefined, undefined, false, 30)
+        .valid
+    ).toBe(false);
+  });
+
+  it('lpt keeps every group within its cap', () => {
+    const result = partitionBalanced(items, 2, 4, {
+      method: 'lpt',
+      maxGroupSum: [20, 40],
+    });
+    expect(result.groupSums[0]).toBeLessThanOrEqual(20);
+    expect(checkCaps(items, result.groupsByIndex, [20, 40]).valid).toBe(true);
+  });
+
+  it('auto and metaheuristic respect caps', () => {
+    const auto = partitionBalanced(items, 2, 4, { maxGroupSum: [19, 40] });
+    expect(auto.groupSums[0]).toBeLessThanOrEqual(19);
+
+    const mh = metaheuristic(items, 2, 4, {
+      type: 'simulated-annealing',
+      seed: 5,
+      maxIters: 300,
+      maxGroupSum: [19, 40],
+    });
+    expect(mh.groupSums[0]).toBeLessThanOrEqual(19);
+  });
+
+  it('localRefine removes excess before balancing', () => {
+    const res = localRefine(
+      items,
+      [
+        [0, 1, 2, 3],
+        [4, 5, 6, 7],
+      ],
+      { maxGroupSum: [20, 40] }
+    );
+    expect(res.groupSums[0]).toBeLessThanOrEqual(20);
+  });
+
+  it('proves infeasibility with lower bounds', () => {
+    const total = infeasibility(() =>
+      partitionBalanced(items, 2, 4, { maxGroupSum: 25 })
+    );
+    expect(total.context).toMatchObject({ lowerBound: 52, capTotal: 50 });
+
+    const item = infeasibility(() =>
+      partitionBalanced(items, 2, 4, { maxGroupSum: 9 })
+    );
+    expect(item.context).toMatchObject({ id: 'item0', lowerBound: 10 });
+
+    // The four smallest items already sum to 18
+    const group = infeasibility(() =>
+      partitionBalanced(items, 2, 4, { maxGroupSum: [17, 50] })
+    );
+    expect(group.context).toMatchObject({ group: 0, lowerBound: 18 });
+
+    const pinned = infeasibility(() =>
+      partitionBalanced(items, 2, 4, {
+        maxGroupSum: [25, 50],
+        pinned: { item0: 0, item1: 0 },
+      })
+    );
+    expect(pinned.context).toMatchObject({ group: 0, lowerBound: 26 });
+  });
+
+  it('rejects invalid caps and unsupported methods', () => {
+    expect(() =>
+      partitionBalanced(items, 2, 4, { maxGroupSum: [30, 30, 30] })
+    ).toThrow(ValidationError);
+    expect(() => partitionBalanced(items, 2, 4, { maxGroupSum: -1 })).toThrow(
+      ValidationError
+    );
+    expect(() =>
+      partitionBalanced(items, 2, 4, { maxGroupSum: 40, method: 'kk' })
+    ).toThrow(UnsupportedError);
+  });
+});
@@ -0,0 +1,212 @@
+import { describe, it, expect } from 'vitest';
+import {
+  partitionBalanced,
+  fromCapacities,
+  lpt,
+  roundRobin,
+  InfeasibleError,
+  UnsupportedError,
+  ValidationError,
+} from '../src/index.js';
+import { localRefine } from '../src/algorithms/localRefine.js';
+import { metaheuristic } from '../src/algorithms/metaheuristic.js';
+import { validateGrouping } from '../src/algorithms/evaluate.js';
+import { ItemConstraints } from '../src/types.js';
+
+describe('Must-link and cannot-link constraints', () => {
+  const items = fromCapacities([9, 8, 7, 6, 5, 4, 3, 2, 1], 'p');
+  const constraints: ItemConstraints = {
+    mustLink: [
+      ['p0', 'p8'],
+      ['p3', 'p4'],
+    ],
+    cannotLink: [
+      ['p0', 'p1'],
+      ['p1', 'p2'],
+      ['p3', 'p8'],
+    ],
+  };
+
+  function groupOf(groupsById: (string | number)[][], id: string): number {
+    return groupsById.findIndex(g => g.includes(id));
+  }
+
+  function expectSatisfied(groupsById: (string | number)[][]): void {
+    for (const [a, b] of constraints.mustLink!) {
+      expect(groupOf(groupsById, a as string)).toBe(
+        groupOf(groupsById, b as string)
+      );
+    }
+    for (const [a, b] of constraints.cannotLink!) {
+      expect(groupOf(groupsById, a as string)).not.toBe(
+        groupOf(groupsById, b as string)
+      );
+    }
+  }
+
+  it.each(['auto', 'lpt', 'roundrobin', 'metaheuristic'] as const)(
+    '%s satisfies every constraint',
+    method => {
+      const result = partitionBalanced(items, 3, 3, {
+        method,
+        constraints,
+        seed: 7,
+      });
+      expectSatisfied(result.groupsById);
+    }
+  );
+
+  it('lpt and roundRobin accept constraints directly', () => {
+    expectSatisfied(lpt(items, 3, 3, { constraints }).groupsById);
+    expectSatisfied(roundRobin(items, 3, 3, { constraints }).groupsById);
+  });
+
+  it('constraints combine with uneven group sizes', () => {
+    const result = partitionBalanced(items, [2, 3, 4], {
+      method: 'lpt',
+      constraints,
+    });
+    expect(result.groupsByIndex.map(g => g.length)).toEqual([2, 3, 4]);
+    expectSatisfied(result.groupsById);
+  });
+
+  it('localRefine never breaks a constraint', () => {
+    const start = [
+      [0, 8, 2],
+      [1, 5, 6],
+      [3, 4, 7],
+    ];
+    const res = localRefine(
+      items,
+      start.map(g => [...g]),
+      { maxIters: 100, constraints }
+    );
+    const byId = res.groupsByIndex.map(g => g.map(i => items[i]!.id));
+    expectSatisfied(byId);
+  });
+
+  it('metaheuristic moves keep constraints', () => {
+    for (const type of [
+      'genetic',
+      'simulated-annealing',
+      'tabu-search',
+    ] as const) {
+      const res = metaheuristic(items, 3, 3, {
+        type,
+        seed: 3,
+        maxIters: 50,
+        constraints,
+      });
+      expectSatisfied(res.groupsByIndex.map(g => g.map(i => items[i]!.id)));
+    }
+  });
+
+  it('validateGrouping reports violated constraints', () => {
+    const res = validateGrouping(
+      items,
+      [
+        [0, 1, 2],
+        [3, 5, 6],
+        [4, 7, 8],
+      ],
+      3,
+      constraints
+    );
+    expect(res.valid).toBe(false);
+    expect(res.errors.join('\n')).toContain('Must-link items p0 and p8');
+    expect(res.errors.join('\n')).toContain('Cannot-link items p0 and p1');
+  });
+
+  it('reports the must-link chain joining a cannot-link pair', () => {
+    let error: unknown;
+    try {
+      partitionBalanced(items, 3, 3, {
+        constraints: {
+          mustLink: [
+            ['p0', 'p5'],
+            ['p5', 'p6'],
+          ],
+          cannotLink: [['p0', 'p6']],
+        },
+      });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(InfeasibleError);
+    expect((error as InfeasibleError).context?.['chain']).toEqual([
+      'p0',
+      'p5',
+      'p6',
+    ]);
+  });
+
+  it('detects infeasible cannot-link cliques and oversized clusters', () => {
+    // Four mutually exclusive items cannot fit into three groups
+    const clique: [string, string][] = [];
+    for (let a = 0; a < 4; a++) {
+      for (let b = a + 1; b < 4; b++) clique.push([`p${a}`, `p${b}`]);
+    }
+    expect(() =>
+      partitionBalanced(items, 3, 3, { constraints: { cannotLink: clique } })
+    ).toThrow(InfeasibleError);
+    expect(() =>
+      partitionBalanced(items, 3, 3, {
+        constraints: {
+          mustLink: [
+            ['p0', 'p1'],
+            ['p1', 'p2'],
+            ['p2', 'p3'],
+          ],
+        },
+      })
+    ).toThrow(InfeasibleError);
+  });
+
+  it('reports only the conflicting clique or pairs when infeasible', () => {
+    const errorOf = (constraints: ItemConstraints): InfeasibleError => {
+      try {
+        partitionBalanced(items, 3, 3, { constraints });
+      } catch (e) {
+        return e as InfeasibleError;
+      }
+      throw new Error('expected an InfeasibleError');
+    };
+
+    const clique: [string, string][] = [];
+    for (let a = 0; a < 4; a++) {
+      for (let b = a + 1; b < 4; b++) clique.push([`p${a}`, `p${b}`]);
+    }
+    const fromClique = errorOf({
+      mustLink: [['p3', 'p4']],
+      cannotLink: [...clique, ['p5', 'p6'], ['p7', 'p8']],
+    });
+    expect(fromClique).toBeInstanceOf(InfeasibleError);
+    expect(fromClique.context?.['clusters']).toEqual([
+      ['p0'],
+      ['p1'],
+      ['p2'],
+      ['p3', 'p4'],
+    ]);
+    expect(fromClique.context?.['cannotLink']).toEqual(clique);
+
+    // p0 excludes all but p8, so its group of three cannot be filled
+    const excluded: [string, string][] = [1, 2, 3, 4, 5, 6, 7].map(i => [
+      'p0',
+      `p${i}`,
+    ]);
+    const fromSizes = errorOf({ cannotLink: [...excluded, ['p1', 'p2']] });
+    expect(fromSizes).toBeInstanceOf(InfeasibleError);
+    expect(fromSizes.context?.['cannotLink']).toEqual(excluded);
+  });
+
+  it('rejects unknown IDs and unsupported methods', () => {
+    expect(() =>
+      partitionBalanced(items, 3, 3, {
+        constraints: { mustLink: [['p0', 'nobody']] },
+      })
+    ).toThrow(ValidationError);
+    expect(() =>
+      partitionBalanced(items, 3, 3, { method: 'kk', constraints })
+    ).toThrow(UnsupportedError);
+  });
+});
@@ -2,6 +2,7 @@ import { describe, it, expect } from 'vitest';
 import { dp } from '../src/algorithms/dp.js';
 import { Item } from '../src/types.js';
 import { evaluateGrouping } from '../src/algorithms/evaluate.js';
+import { partitionBalanced } from '../src/index.js';
 
 describe('dp', () => {
   const smallItems: Item[] = [
@@ -46,7 +47,8 @@ describe('dp', () => {
     expect(result.groupsByIndex).toHaveLength(2);
     expect(result.groupsByIndex[0]).toHaveLength(4);
     expect(result.groupsByIndex[1]).toHaveLength(4);
-    expect(result.method).toBe('dp-integer-scaled');
+    expect(result.method).toBe('dp-meet-in-middle');
+    expect(result.isOptimal).toBe(true);
   });
 
   it('branch-and-bound works for very small problems', () => {
@@ -162,14 +164,108 @@ describe('dp', () => {
     // Calculate group sums
     const groupSums = result.groupSums;
     expect(groupSums).toHaveLength(2);
-    
+
     // Check that groups are reasonably balanced
     const maxSum = Math.max(...groupSums);
     const minSum = Math.min(...groupSums);
     const delta = maxSum - minSum;
-    
+
     // Delta should be reasonable (not more than 50% of average)
     const averageSum = groupSums.reduce((a, b) => a + b, 0) / groupSums.length;
     expect(delta).toBeLessThanOrEqual(averageSum * 0.5);
   });
+
+  describe('k-way state DP', () => {
+    let seed = 5;
+    const random = (): number => (seed = (seed * 16807) % 2147483647);
+    const itemsOf = (caps: number[]): Item[] =>
+      caps.map((capacity, i) => ({ id: i, capacity }));
+    const spread = (sums: number[]): number =>
+      Math.max(...sums) - Math.min(...sums);
+
+    // Smallest max − min over every assignment into equal-size groups
+    const bruteForce = (caps: number[], groups: number, size: number) => {
+      const sums = new Array<number>(groups).fill(0);
+      const counts = new Array<number>(groups).fill(0);
+      let best = Infinity;
+      const place = (i: number): void => {
+        if (i === caps.length) {
+          best = Math.min(best, spread(sums));
+          return;
+        }
+        for (let g = 0; g < groups; g++) {
+          if (counts[g]! >= size) continue;
+          counts[g]!++;
+          sums[g]! += caps[i]!;
+          place(i + 1);
+          counts[g]!--;
+          sums[g]! -= caps[i]!;
+          if (counts[g] === 0) break;
+        }
+      };
+      place(0);
+      return best;
+    };
+
+    it('matches brute force for three and four groups', () => {
+      for (let trial = 0; trial < 12; trial++) {
+        const groups = 3 + (trial % 2);
+        const size = 2 + (trial % 3);
+        const caps = Array.from(
+          { length: groups * size },
+          () => (random() % 500) + 1
+        );
+        const result = dp(itemsOf(caps), groups, size);
+        result.groupsByIndex.forEach(g => expect(g).toHaveLength(size));
+        expect(spread(result.groupSums)).toBe(bruteForce(caps, groups, size));
+        expect(result.isOptimal).toBe(true);
+        expect(result.bound).toBe(spread(result.groupSums));
+      }
+    });
+
+    it('handles totals and item counts beyond the old limits', () => {
+      const caps = Array.from({ length: 30 }, () => (random() % 5000) + 1);
+      const result = dp(itemsOf(caps), 3, 10);
+      expect(caps.reduce((acc, c) => acc + c, 0)).toBeGreaterThan(10000);
+      expect(result.groupsByIndex.flat().sort((a, b) => a - b)).toEqual(
+        caps.map((_, i) => i)
+      );
+      expect(result.isOptimal).toBe(true);
+    });
+
+    it('scales decimal capacities to exact integers', () => {
+      const caps = [1.5, 2.25, 3.1, 4.4, 5, 6.75];
+      const result = dp(itemsOf(caps), 3, 2);
+      expect(spread(result.groupSums)).toBeCloseTo(bruteForce(caps, 3, 2), 9);
+      expect(result.isOptimal).toBe(true);
+    });
+
+    it('degrades to beam search at maxStateSize with a valid bound', () => {
+      for (let trial = 0; trial < 6; trial++) {
+        const caps = Array.from({ length: 12 }, () => (random() % 1e6) + 1);
+        const optimum = bruteForce(caps, 3, 4);
+        const beam = dp(itemsOf(caps), 3, 4, { maxStateSize: 2 });
+        expect(beam.groupsByIndex.flat()).toHaveLength(12);
+        expect(beam.bound!).toBeLessThanOrEqual(optimum);
+        if (beam.isOptimal) {
+          expect(spread(beam.groupSums)).toBe(optimum);
+        } else {
+          expect(beam.method).toBe('dp-beam');
+          expect(beam.mipGap!).toBeGreaterThan(0);
+        }
+      }
+      expect(() => dp(itemsOf([1, 2, 3]), 3, 1, { maxStateSize: 0 })).toThrow();
+    });
+
+    it('reads maxStateSize from algorithmConfig', () => {
+      const caps = Array.from({ length: 12 }, () => (random() % 1000) + 1);
+      const result = partitionBalanced(itemsOf(caps), 3, 4, {
+        method: 'dp',
+        algorithmConfig: { dp: { maxStateSize: 1 } },
+      });
+      expect(result.groupsByIndex).toHaveLength(3);
+      expect(['dp-integer-scaled', 'dp-beam']).toContain(result.methodUsed);
+      expect(result.bound!).toBeLessThanOrEqual(result.delta);
+    });
+  });
 });
@@ -2,6 +2,8 @@ import { describe, it, expect } from 'vitest';
 import { flow } from '../src/algorithms/flow.js';
 import { Item } from '../src/types.js';
 import { evaluateGrouping } from '../src/algorithms/evaluate.js';
+import { partitionBalanced } from '../src/index.js';
+import { minCostFlow } from '../src/utils/minCostFlow.js';
 
 describe('flow', () => {
   const smallItems: Item[] = [
@@ -32,7 +34,7 @@ describe('flow', () => {
     expect(result.groupsByIndex).toHaveLength(2);
     expect(result.groupsByIndex[0]).toHaveLength(2);
     expect(result.groupsByIndex[1]).toHaveLength(2);
-    expect(result.method).toBe('flow-heuristic');
+    expect(result.method).toBe('flow-block-reassign');
     expect(result.iterations).toBeGreaterThan(0);
   });
 
@@ -46,7 +48,7 @@ describe('flow', () => {
     expect(result.groupsByIndex).toHaveLength(2);
     expect(result.groupsByIndex[0]).toHaveLength(4);
     expect(result.groupsByIndex[1]).toHaveLength(4);
-    expect(result.method).toBe('flow-heuristic');
+    expect(result.method).toBe('flow-block-reassign');
   });
 
   it('rounding improves solution quality', () => {
@@ -62,7 +64,7 @@ describe('flow', () => {
       enableRounding: true,
     });
 
-    expect(resultWithRounding.method).toBe('flow-heuristic');
+    expect(resultWithRounding.method).toBe('flow-block-reassign');
     expect(resultWithRounding.iterations).toBeGreaterThanOrEqual(resultWithoutRounding.iterations);
   });
 
@@ -121,7 +123,7 @@ describe('flow', () => {
     });
 
     expect(result).toBeDefined();
-    expect(result.method).toBe('flow-heuristic');
+    expect(result.method).toBe('flow-block-reassign');
     expect(result.groupsByIndex).toHaveLength(2);
     for (let g = 0; g < 2; g++) {
       expect(result.groupsByIndex[g]).toHaveLength(4);
@@ -161,7 +163,7 @@ describe('flow', () => {
     for (let g = 0; g < 4; g++) {
       expect(result.groupsByIndex[g]).toHaveLength(4);
     }
-    expect(result.method).toBe('flow-heuristic');
+    expect(result.method).toBe('flow-block-reassign');
   });
 
   it('shows rounding effectiveness', () => {
@@ -205,4 +207,113 @@ describe('flow', () => {
     // Delta should be reasonable for a medium problem
     expect(delta).toBeLessThanOrEqual(30);
   });
+
+  it('reports a relaxation bound that never exceeds the optimum', () => {
+    // Brute force over every split into two groups of four
+    const optimum = (caps: number[]): number => {
+      let best = Infinity;
+      const total = caps.reduce((acc, c) => acc + c, 0);
+      for (let mask = 0; mask < 1 << caps.length; mask++) {
+        const members = caps.filter((_, i) => mask & (1 << i));
+        if (members.length !== caps.length / 2) continue;
+        const sum = members.reduce((acc, c) => acc + c, 0);
+        best = Math.min(best, Math.abs(total - 2 * sum));
+      }
+      return best;
+    };
+    let seed = 11;
+    const random = (): number => (seed = (seed * 16807) % 2147483647);
+    for (let trial = 0; trial < 20; trial++) {
+      const caps = Array.from({ length: 8 }, (_, i) =>
+        i === 0 ? (random() % 200) + 1 : (random() % 40) + 1
+      );
+      const items = caps.map((capacity, i) => ({ id: i, capacity }));
+      const result = flow(items, 2, 4);
+      const delta =
+        Math.max(...result.groupSums) - Math.min(...result.groupSums);
+      const best = optimum(caps);
+      expect(result.bound!).toBeLessThanOrEqual(best);
+      expect(delta).toBeGreaterThanOrEqual(best);
+      if (result.isOptimal) expect(delta).toBe(best);
+    }
+  });
+
+  it('proves optimality when one item dominates', () => {
+    const items: Item[] = [100, 5, 4, 3, 2, 1].map((capacity, i) => ({
+      id: i,
+      capacity,
+    }));
+    const result = flow(items, 2, 3);
+    // The group with 100 holds at least 100 + 1 + 2 against at most 5 + 4 + 3
+    expect(result.bound).toBe(91);
+    expect(Math.max(...result.groupSums) - Math.min(...result.groupSums)).toBe(
+      91
+    );
+    expect(result.isOptimal).toBe(true);
+    expect(result.mipGap).toBe(0);
+  });
+
+  it('is a candidate of auto selection without opting in', () => {
+    const result = partitionBalanced(mediumItems, 2, 4, {
+      disallowedAlgorithms: ['roundrobin', 'lpt', 'kk', 'dp', 'backtracking'],
+    });
+    expect(result.methodUsed).toBe('flow-block-reassign');
+    expect(result.bound).toBe(0);
+    expect(result.isOptimal).toBe(result.delta === 0);
+  });
+
+  it('is a candidate of auto selection beyond 60 items', () => {
+    const items: Item[] = Array.from({ length: 80 }, (_, i) => ({
+      id: i,
+      capacity: ((i * 37) % 53) + 1,
+    }));
+    const result = partitionBalanced(items, 4, 20, {
+      disallowedAlgorithms: ['roundrobin', 'lpt', 'kk', 'metaheuristic'],
+    });
+    expect(result.methodUsed).toBe('flow-block-reassign');
+    expect(result.groupsByIndex.every(g => g.length === 20)).toBe(true);
+  });
+});
+
+describe('minCostFlow', () => {
+  it('finds the cheapest assignment', () => {
+    // Two workers, two jobs: the diagonal costs 1 + 1, the cross 3 + 4
+    const result = minCostFlow(
+      6,
+      [
+        { from: 0, to: 1, capacity: 1, cost: 0 },
+        { from: 0, to: 2, capacity: 1, cost: 0 },
+        { from: 1, to: 3, capacity: 1, cost: 1 },
+        { from: 1, to: 4, capacity: 1, cost: 3 },
+        { from: 2, to: 3, capacity: 1, cost: 4 },
+        { from: 2, to: 4, capacity: 1, cost: 1 },
+        { from: 3, to: 5, capacity: 1, cost: 0 },
+        { from: 4, to: 5, capacity: 1, cost: 0 },
+      ],
+      0,
+      5
+    );
+    expect(result.amount).toBe(2);
+    expect(result.cost).toBe(2);
+    expect(result.flows.slice(2, 6)).toEqual([1, 0, 0, 1]);
+  });
+
+  it('handles negative costs, rerouting and a demand limit', () => {
+    const arcs = [
+      { from: 0, to: 1, capacity: 2, cost: -1 },
+      { from: 1, to: 3, capacity: 1, cost: -5 },
+      { from: 0, to: 2, capacity: 1, cost: 2 },
+      { from: 2, to: 1, capacity: 1, cost: 0 },
+      { from: 1, to: 2, capacity: 1, cost: 1 },
+      { from: 2, to: 3, capacity: 2, cost: 1 },
+    ];
+    const all = minCostFlow(4, arcs, 0, 3);
+    expect(all.amount).toBe(3);
+    // 0→1→3, then 0→1→2→3 and 0→2→3
+    expect(all.cost).toBe(-6 + 1 + 3);
+
+    const one = minCostFlow(4, arcs, 0, 3, 1);
+    expect(one.amount).toBe(1);
+    expect(one.cost).toBe(-6);
+  });
 });
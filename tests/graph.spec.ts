@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import {
+  partitionBalanced,
+  kernighanLin,
+  UnsupportedError,
+  ValidationError,
+} from '../src/index.js';
+import type { Edge, Item } from '../src/index.js';
+import { buildGraphModel, cutWeight } from '../src/utils/graph.js';
+
+describe('Graph-aware partitioning (edge cut)', () => {
+  // Three clusters of four services, interleaved in item order so that
+  // balance-only heuristics split them; every cluster holds the same
+  // capacities, so a zero cut is also perfectly balanced
+  const services: Item[] = Array.from({ length: 12 }, (_, i) => ({
+    id: `svc-${i}`,
+    capacity: [5, 3, 2, 1][Math.floor(i / 3)]!,
+  }));
+  const clusterOf = (idx: number): number => idx % 3;
+  const edges: Edge[] = [];
+  for (let a = 0; a < 12; a++) {
+    for (let b = a + 1; b < 12; b++) {
+      if (clusterOf(a) === clusterOf(b)) {
+        edges.push({ a: `svc-${a}`, b: `svc-${b}`, weight: 2 });
+      }
+    }
+  }
+  const isClustered = (groupsByIndex: number[][]): boolean =>
+    groupsByIndex.every(g =>
+      g.every(idx => clusterOf(idx) === clusterOf(g[0]!))
+    );
+
+  it('auto keeps densely connected items together', () => {
+    const result = partitionBalanced(services, 3, 4, { edges, seed: 1 });
+    expect(isClustered(result.groupsByIndex)).toBe(true);
+    expect(result.cutWeight).toBe(0);
+    expect(result.delta).toBe(0);
+  });
+
+  it('kernighanLin reduces the cut and keeps group sizes', () => {
+    // Round-robin style start: every cluster spread over all groups
+    const start = [
+      [0, 1, 2, 3],
+      [4, 5, 6, 7],
+      [8, 9, 10, 11],
+    ];
+    const graph = buildGraphModel(services, { edges })!;
+    const before = cutWeight(graph, start);
+    const refined = kernighanLin(
+      services,
+      start.map(g => [...g]),
+      { edges }
+    );
+    expect(refined.groupsByIndex.map(g => g.length)).toEqual([4, 4, 4]);
+    expect(refined.groupsByIndex.flat().sort((a, b) => a - b)).toEqual(
+      Array.from({ length: 12 }, (_, i) => i)
+    );
+    expect(cutWeight(graph, refined.groupsByIndex)).toBeLessThan(before);
+    expect(isClustered(refined.groupsByIndex)).toBe(true);
+    expect(refined.improvements).toBeGreaterThan(0);
+  });
+
+  it('edgeCutWeight trades balance against the cut', () => {
+    // A path whose contiguous halves are unbalanced
+    const chain: Item[] = [9, 8, 7, 6, 1, 1, 1, 1].map((capacity, i) => ({
+      id: i,
+      capacity,
+    }));
+    const path: Edge[] = chain.slice(1).map((_, i) => ({ a: i, b: i + 1 }));
+    const light = partitionBalanced(chain, 2, 4, {
+      edges: path,
+      edgeCutWeight: 0.01,
+    });
+    const heavy = partitionBalanced(chain, 2, 4, {
+      edges: path,
+      edgeCutWeight: 100,
+    });
+    expect(light.delta).toBeLessThanOrEqual(heavy.delta);
+    expect(heavy.cutWeight).toBe(1);
+    expect(light.cutWeight!).toBeGreaterThan(heavy.cutWeight!);
+  });
+
+  it('keeps pinned items in place while cutting fewer edges', () => {
+    const pinned = { 'svc-0': 2, 'svc-4': 2 };
+    const result = partitionBalanced(services, 3, 4, {
+      edges,
+      pinned,
+      seed: 2,
+    });
+    expect(result.groupsById[2]).toEqual(
+      expect.arrayContaining(['svc-0', 'svc-4'])
+    );
+    const plain = partitionBalanced(services, 3, 4, { pinned, seed: 2 });
+    const graph = buildGraphModel(services, { edges })!;
+    expect(result.cutWeight!).toBeLessThanOrEqual(
+      cutWeight(graph, plain.groupsByIndex)
+    );
+  });
+
+  it('metaheuristic weighs the cut and reports it', () => {
+    const result = partitionBalanced(services, 3, 4, {
+      method: 'metaheuristic',
+      edges,
+      seed: 4,
+      maxIters: 300,
+    });
+    const graph = buildGraphModel(services, { edges })!;
+    expect(result.cutWeight).toBe(cutWeight(graph, result.groupsByIndex));
+  });
+
+  it('keeps Kernighan–Lin passes within timeLimitMs', () => {
+    let seed = 3;
+    const random = (): number => (seed = (seed * 16807) % 2147483647);
+    const many: Item[] = Array.from({ length: 400 }, (_, i) => ({
+      id: i,
+      capacity: (random() % 1000) + 1,
+    }));
+    const links: Edge[] = Array.from({ length: 800 }, () => ({
+      a: random() % 400,
+      b: random() % 400,
+    }));
+    const start = performance.now();
+    const result = partitionBalanced(many, 8, 50, {
+      edges: links,
+      timeLimitMs: 500,
+    });
+    expect(performance.now() - start).toBeLessThan(2000);
+    expect(result.groupsByIndex.flat()).toHaveLength(400);
+
+    const groupsByIndex = Array.from({ length: 8 }, (_, g) =>
+      Array.from({ length: 50 }, (_, k) => g * 50 + k)
+    );
+    const stopped = kernighanLin(many, groupsByIndex, {
+      edges: links,
+      timeLimitMs: 0,
+    });
+    expect(stopped.improvements).toBe(0);
+  });
+
+  it('validates edges and rejects unsupported methods', () => {
+    expect(() =>
+      partitionBalanced(services, 3, 4, {
+        edges: [{ a: 'svc-0', b: 'missing' }],
+      })
+    ).toThrow(ValidationError);
+    expect(() =>
+      partitionBalanced(services, 3, 4, {
+        edges: [{ a: 'svc-0', b: 'svc-1', weight: -1 }],
+      })
+    ).toThrow(ValidationError);
+    expect(() =>
+      partitionBalanced(services, 3, 4, { edges, edgeCutWeight: -1 })
+    ).toThrow(ValidationError);
+    expect(() =>
+      partitionBalanced(services, 3, 4, { edges, method: 'lpt' })
+    ).toThrow(UnsupportedError);
+
+    // With a zero weight any method runs and still reports the cut
+    const result = partitionBalanced(services, 3, 4, {
+      edges,
+      edgeCutWeight: 0,
+      method: 'lpt',
+    });
+    const graph = buildGraphModel(services, { edges })!;
+    expect(result.cutWeight).toBe(cutWeight(graph, result.groupsByIndex));
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  partitionBalanced,
+  fromCapacities,
+  lpt,
+  kk,
+  UnsupportedError,
+  ValidationError,
+} from '../src/index.js';
+import { localRefine } from '../src/algorithms/localRefine.js';
+import { metaheuristic } from '../src/algorithms/metaheuristic.js';
+import { normalizedSpread, targetShares } from '../src/utils/targets.js';
+
+describe('Per-group targets and weights', () => {
+  // Total 120: a 2:1:1 split gives targets [60, 30, 30]
+  const items = fromCapacities([20, 18, 16, 14, 12, 10, 9, 8, 6, 4, 2, 1]);
+  const targets = [60, 30, 30];
+
+  function maxAbs(values: number[]): number {
+    return Math.max(...values.map(v => Math.abs(v)));
+  }
+
+  it('targetShares and normalizedSpread normalize by the mean target', () => {
+    const shares = targetShares(targets)!;
+    expect(shares).toEqual([1.5, 0.75, 0.75]);
+    expect(normalizedSpread([60, 30, 30], shares)).toBe(0);
+    expect(normalizedSpread([60, 30, 30])).toBe(30);
+  });
+
+  it('lpt places items by least normalized load', () => {
+    const res = lpt(items, 3, 4, { groupTargets: targets });
+    expect(normalizedSpread(res.groupSums, targetShares(targets))).toBeLessThan(
+      5
+    );
+    expect(res.groupSums[0]!).toBeGreaterThan(res.groupSums[1]!);
+  });
+
+  it('kk splits in proportion to the targets', () => {
+    const res = kk(items, 3, 4, { groupTargets: targets });
+    expect(res.groupsByIndex.map(g => g.length)).toEqual([4, 4, 4]);
+    expect(maxAbs(res.groupSums.map((s, g) => s - targets[g]!))).toBeLessThan(
+      5
+    );
+  });
+
+  it('partitionBalanced reports targets and per-group deviations', () => {
+    const result = partitionBalanced(items, 3, 4, { groupWeights: [2, 1, 1] });
+    expect(result.groupTargets).toEqual(targets);
+    expect(result.targetDeviations).toEqual(
+      result.groupSums.map((s, g) => s - targets[g]!)
+    );
+    expect(maxAbs(result.targetDeviations!)).toBeLessThan(5);
+  });
+
+  it('explicit targets work with uneven group sizes', () => {
+    const result = partitionBalanced(items, [6, 3, 3], {
+      method: 'lpt',
+      groupTargets: targets,
+    });
+    expect(result.groupsByIndex.map(g => g.length)).toEqual([6, 3, 3]);
+    expect(result.targetDeviations).toHaveLength(3);
+  });
+
+  it('localRefine minimizes the normalized deviation', () => {
+    const groupsByIndex = [
+      [0, 1, 2, 3],
+      [4, 5, 6, 7],
+      [8, 9, 10, 11],
+    ];
+    const res = localRefine(items, groupsByIndex, {
+      maxIters: 100,
+      groupTargets: targets,
+    });
+    const shares = targetShares(targets);
+    expect(normalizedSpread(res.groupSums, shares)).toBeLessThan(
+      normalizedSpread([68, 39, 13], shares)
+    );
+  });
+
+  it('metaheuristic fitness uses the normalized deviation', () => {
+    const res = metaheuristic(items, 3, 4, {
+      type: 'simulated-annealing',
+      seed: 5,
+      maxIters: 500,
+      groupTargets: targets,
+    });
+    const spread = normalizedSpread(res.groupSums, targetShares(targets));
+    expect(res.fitness).toBeCloseTo(1 / (1 + spread));
+  });
+
+  it('rejects methods that only balance equal shares', () => {
+    expect(() =>
+      partitionBalanced(items, 3, 4, { method: 'dp', groupTargets: targets })
+    ).toThrow(UnsupportedError);
+  });
+
+  it('rejects malformed targets and weights', () => {
+    expect(() =>
+      partitionBalanced(items, 3, 4, { groupTargets: [60, 60] })
+    ).toThrow(ValidationError);
+    expect(() =>
+      partitionBalanced(items, 3, 4, { groupWeights: [1, 0, 1] })
+    ).toThrow(ValidationError);
+    expect(() =>
+      partitionBalanced(items, 3, 4, {
+        groupTargets: targets,
+        groupWeights: [2, 1, 1],
+      })
+    ).toThrow(ValidationError);
+  });
+});
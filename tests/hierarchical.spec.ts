@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  partitionHierarchical,
+  fromCapacities,
+  ValidationError,
+} from '../src/index.js';
+import type { HierarchyNode } from '../src/index.js';
+
+describe('Hierarchical partitioning', () => {
+  const capacities = Array.from({ length: 24 }, (_, i) => 3 + ((i * 7) % 11));
+  const items = fromCapacities(capacities);
+  const levels = [
+    { groups: 6, groupSize: 4 },
+    { groups: 3, groupSize: 2 },
+  ];
+
+  function leafIds(node: HierarchyNode): Array<string | number> {
+    if (node.children.length === 0) return node.itemIds;
+    return node.children.flatMap(leafIds);
+  }
+
+  it('builds a tree of nested groups', () => {
+    const result = partitionHierarchical(items, levels, { seed: 1 });
+    const { root } = result;
+    expect(root.level).toBe(2);
+    expect(root.children).toHaveLength(3);
+    for (const parent of root.children) {
+      expect(parent.level).toBe(1);
+      expect(parent.children).toHaveLength(2);
+      expect(parent.itemIds).toHaveLength(8);
+      expect(parent.sum).toBe(
+        parent.children.reduce((acc, child) => acc + child.sum, 0)
+      );
+      for (const leaf of parent.children) {
+        expect(leaf.itemIds).toHaveLength(4);
+      }
+    }
+    expect(leafIds(root).sort()).toEqual(items.map(item => item.id).sort());
+  });
+
+  it('returns consistent groupings for every level', () => {
+    const result = partitionHierarchical(items, levels, { seed: 1 });
+    const [leaves, parents] = result.levels;
+    expect(leaves!.groupsByIndex).toHaveLength(6);
+    expect(parents!.groupsByIndex).toHaveLength(3);
+    for (const [g, members] of parents!.groupsByIndex.entries()) {
+      const node = result.root.children[g]!;
+      expect(members.map(idx => items[idx]!.id).sort()).toEqual(
+        node.itemIds.slice().sort()
+      );
+    }
+    const total = capacities.reduce((acc, c) => acc + c, 0);
+    expect(leaves!.groupSums.reduce((acc, s) => acc + s, 0)).toBe(total);
+    expect(parents!.groupSums.reduce((acc, s) => acc + s, 0)).toBe(total);
+  });
+
+  it('refinement lowers the summed deltas across levels', () => {
+    const skewed = fromCapacities([
+      50, 1, 1, 1, 40, 2, 2, 2, 30, 3, 3, 3, 20, 4, 4, 4, 10, 5, 5, 5, 9, 6, 6,
+      6,
+    ]);
+    const plain = partitionHierarchical(skewed, levels, {
+      method: 'roundrobin',
+      refine: false,
+    });
+    const refined = partitionHierarchical(skewed, levels, {
+      method: 'roundrobin',
+    });
+    const total = (r: typeof plain): number =>
+      r.levels.reduce((acc, level) => acc + level.delta, 0);
+    expect(plain.iterations).toBe(0);
+    expect(plain.levels[0]!.methodUsed).toBe('hierarchical');
+    expect(refined.iterations).toBeGreaterThan(0);
+    expect(refined.levels[0]!.methodUsed).toBe('hierarchical-refined');
+    expect(total(refined)).toBeLessThan(total(plain));
+  });
+
+  it('refines large hierarchies within timeLimitMs', () => {
+    const many = fromCapacities(
+      Array.from({ length: 960 }, (_, i) => 1 + ((i * 37) % 100))
+    );
+    const nested = [
+      { groups: 240, groupSize: 4 },
+      { groups: 60, groupSize: 4 },
+    ];
+    const start = performance.now();
+    const result = partitionHierarchical(many, nested, {
+      method: 'roundrobin',
+      timeLimitMs: 500,
+    });
+    expect(performance.now() - start).toBeLessThan(2000);
+    expect(result.levels[0]!.groupsByIndex.every(g => g.length === 4)).toBe(
+      true
+    );
+  });
+
+  it('supports a single level', () => {
+    const result = partitionHierarchical(items, [{ groups: 4, groupSize: 6 }]);
+    expect(result.levels).toHaveLength(1);
+    expect(result.root.children).toHaveLength(4);
+    expect(result.root.children[0]!.children).toEqual([]);
+  });
+
+  it('rejects levels that do not nest', () => {
+    expect(() =>
+      partitionHierarchical(items, [{ groups: 5, groupSize: 4 }])
+    ).toThrow(ValidationError);
+    expect(() =>
+      partitionHierarchical(items, [
+        { groups: 6, groupSize: 4 },
+        { groups: 2, groupSize: 2 },
+      ])
+    ).toThrow(ValidationError);
+    expect(() => partitionHierarchical(items, [])).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  partitionBalanced,
+  fromCapacities,
+  evaluateGrouping,
+  homogeneous,
+  UnsupportedError,
+  ValidationError,
+} from '../src/index.js';
+import { withinGroupSpread } from '../src/algorithms/homogeneous.js';
+
+const range = (g: number[]): number => Math.max(...g) - Math.min(...g);
+const variance = (g: number[]): number => {
+  const mean = g.reduce((acc, c) => acc + c, 0) / g.length;
+  return g.reduce((acc, c) => acc + (c - mean) ** 2, 0) / g.length;
+};
+
+// Smallest possible largest spread over all groupings into the given sizes
+function bruteForce(
+  capacities: number[],
+  sizes: number[],
+  spread = range
+): number {
+  let best = Infinity;
+  const assign = (idx: number, groups: number[][]): void => {
+    if (idx === capacities.length) {
+      const worst = Math.max(...groups.map(spread));
+      best = Math.min(best, worst);
+      return;
+    }
+    groups.forEach((g, k) => {
+      if (g.length < sizes[k]!) {
+        g.push(capacities[idx]!);
+        assign(idx + 1, groups);
+        g.pop();
+      }
+    });
+  };
+  assign(
+    0,
+    sizes.map(() => [])
+  );
+  return best;
+}
+
+describe('Homogeneous groups', () => {
+  const cells = [3.1, 2.9, 3.3, 3.0, 2.8, 3.4, 3.2, 2.7, 3.5];
+
+  it('is exact for the largest range with equal sizes', () => {
+    const items = fromCapacities(cells);
+    const result = homogeneous(items, 3, 3);
+    const worst = Math.max(
+      ...result.groupsByIndex.map(g => withinGroupSpread(items, g))
+    );
+    expect(worst).toBeCloseTo(bruteForce(cells, [3, 3, 3]));
+    expect(result.methodUsed).toBe('homogeneous');
+  });
+
+  it('orders uneven chunks to minimize the largest range', () => {
+    const capacities = [1, 2, 10, 11, 12, 13];
+    const items = fromCapacities(capacities);
+    const result = homogeneous(items, 2, 3, { groupSizes: [4, 2] });
+    expect(result.groupsByIndex[0]).toHaveLength(4);
+    const worst = Math.max(
+      ...result.groupsByIndex.map(g => withinGroupSpread(items, g))
+    );
+    expect(worst).toBe(bruteForce(capacities, [4, 2]));
+    expect(worst).toBe(3);
+  });
+
+  it('minimizes the largest variance under the variance measure', () => {
+    const capacities = [1, 1, 5, 6, 6, 6, 9, 10, 4];
+    const items = fromCapacities(capacities);
+    const result = homogeneous(items, 3, 3, {
+      measure: 'variance',
+      groupSizes: [2, 3, 4],
+    });
+    const worst = Math.max(
+      ...result.groupsByIndex.map(g => withinGroupSpread(items, g, 'variance'))
+    );
+    expect(worst).toBeCloseTo(bruteForce(capacities, [2, 3, 4], variance));
+  });
+
+  it('partitionBalanced reports per-group extremes', () => {
+    const result = partitionBalanced(fromCapacities(cells), 3, 3, {
+      objective: 'homogeneous',
+    });
+    expect(result.methodUsed).toBe('homogeneous');
+    expect(result.groupRanges).toHaveLength(3);
+    result.groupRanges!.forEach((range, g) => {
+      expect(range).toBeCloseTo(result.groupMaxes![g]! - result.groupMins![g]!);
+      expect(range).toBeLessThanOrEqual(0.2 + 1e-9);
+    });
+
+    const evaluation = evaluateGrouping(fromCapacities([4, 1, 7, 2]), [
+      [0, 1],
+      [2, 3],
+    ]);
+    expect(evaluation.groupMins).toEqual([1, 2]);
+    expect(evaluation.groupMaxes).toEqual([4, 7]);
+    expect(evaluation.groupRanges).toEqual([3, 5]);
+  });
+
+  it('rejects unsupported combinations and measures', () => {
+    const items = fromCapacities(cells);
+    expect(() =>
+      partitionBalanced(items, 3, 3, {
+        objective: 'homogeneous',
+        method: 'lpt',
+      })
+    ).toThrow(UnsupportedError);
+    expect(() =>
+      partitionBalanced(items, 3, 3, {
+        objective: 'homogeneous',
+        maxGroupSum: 20,
+      })
+    ).toThrow(UnsupportedError);
+    expect(() =>
+      partitionBalanced(items, 3, 3, {
+        objective: 'homogeneous',
+        homogeneity: 'iqr' as never,
+      })
+    ).toThrow(ValidationError);
+  });
+});
@@ -1,7 +1,9 @@
 import { describe, it, expect } from 'vitest';
 import { ilp } from '../src/algorithms/ilp.js';
-import { Item } from '../src/types.js';
+import { AlgorithmMethod, Item } from '../src/types.js';
 import { evaluateGrouping } from '../src/algorithms/evaluate.js';
+import { solveLinearProgram } from '../src/utils/simplex.js';
+import { partitionBalanced, fromCapacities } from '../src/index.js';
 
 describe('ilp', () => {
   const smallItems: Item[] = [
@@ -32,7 +34,7 @@ describe('ilp', () => {
     expect(result.groupsByIndex).toHaveLength(2);
     expect(result.groupsByIndex[0]).toHaveLength(2);
     expect(result.groupsByIndex[1]).toHaveLength(2);
-    expect(result.method).toBe('ilp-placeholder');
+    expect(result.method).toBe('ilp-branch-bound');
     expect(result.objectiveValue).toBeDefined();
     expect(result.iterations).toBeGreaterThan(0);
   });
@@ -60,9 +62,9 @@ describe('ilp', () => {
       seed: 42,
     });
 
-    // Should fall back to branch-and-bound when external solver is not available
+    // No external solver is bundled: the in-process branch-and-bound runs
     expect(result).toBeDefined();
-    expect(result.method).toBe('ilp-placeholder');
+    expect(result.method).toBe('ilp-branch-bound');
   });
 
   it('maintains exact group size constraints', () => {
@@ -170,8 +172,8 @@ describe('ilp', () => {
       });
 
       expect(result).toBeDefined();
-      // Should fall back to branch-and-bound when external solver is not available
-      expect(result.method).toBe('ilp-placeholder');
+      // No external solver is bundled: the in-process branch-and-bound runs
+      expect(result.method).toBe('ilp-branch-bound');
     }
   });
 
@@ -232,4 +234,199 @@ describe('ilp', () => {
     // Should fall back to branch-and-bound or other internal methods
     expect(['ilp-branch-bound', 'ilp-relaxation', 'ilp-fallback', 'ilp-placeholder']).toContain(result.method);
   });
+
+  // Smallest max − min over every grouping into equal groups
+  const bruteForceDelta = (capacities: number[], groups: number): number => {
+    const size = capacities.length / groups;
+    const sums = new Array<number>(groups).fill(0);
+    const counts = new Array<number>(groups).fill(0);
+    let best = Infinity;
+    const place = (i: number): void => {
+      if (i === capacities.length) {
+        best = Math.min(best, Math.max(...sums) - Math.min(...sums));
+        return;
+      }
+      for (let g = 0; g < groups; g++) {
+        if (counts[g] === size) continue;
+        sums[g] += capacities[i]!;
+        counts[g]++;
+        place(i + 1);
+        sums[g] -= capacities[i]!;
+        counts[g]--;
+      }
+    };
+    place(0);
+    return best;
+  };
+
+  it('proves optimality on small instances', () => {
+    const cases = [
+      [31, 29, 23, 19, 17, 13, 11, 7, 5],
+      [50, 41, 33, 20, 18, 9, 7, 4, 2],
+      [12.5, 9.25, 8, 7.75, 6.5, 3.1],
+    ];
+    for (const capacities of cases) {
+      const items = capacities.map((capacity, id) => ({ id, capacity }));
+      const groups = 3;
+      const result = ilp(items, groups, capacities.length / groups);
+      const optimum = bruteForceDelta(capacities, groups);
+      expect(result.isOptimal).toBe(true);
+      expect(result.objectiveValue).toBeCloseTo(optimum, 9);
+      expect(result.bound).toBeCloseTo(optimum, 9);
+      expect(result.mipGap).toBeCloseTo(0, 9);
+      const evaluation = evaluateGrouping(items, result.groupsByIndex);
+      expect(evaluation.delta).toBeCloseTo(optimum, 9);
+    }
+  });
+
+  it('reports the bound and gap when stopped early', () => {
+    const items = Array.from({ length: 24 }, (_, i) => ({
+      id: i,
+      capacity: ((i * 7919) % 97) + 1,
+    }));
+    const result = ilp(items, 4, 6, { maxIters: 1 });
+    expect(result.iterations).toBeLessThanOrEqual(1);
+    expect(result.bound!).toBeLessThanOrEqual(result.objectiveValue!);
+    if (!result.isOptimal) {
+      expect(result.mipGap!).toBeGreaterThan(0);
+    }
+  });
+
+  it('stops within the requested mipGap', () => {
+    const items = Array.from({ length: 16 }, (_, i) => ({
+      id: i,
+      capacity: ((i * 104729) % 89) + 10,
+    }));
+    const result = ilp(items, 4, 4, { mipGap: 0.5 });
+    expect(result.mipGap!).toBeLessThanOrEqual(0.5);
+    expect(result.bound!).toBeLessThanOrEqual(result.objectiveValue!);
+  });
+
+  it('surfaces optimality through partitionBalanced', () => {
+    const items = fromCapacities([10, 9, 8, 7, 6, 5, 4, 3]);
+    const result = partitionBalanced(items, 2, 4, {
+      method: 'ilp',
+      algorithmConfig: { ilp: { mipGap: 0 } },
+    });
+    expect(result.methodUsed).toBe('ilp-branch-bound');
+    expect(result.delta).toBe(0);
+    expect(result.isOptimal).toBe(true);
+    expect(result.bound).toBe(0);
+    expect(result.objectiveValue).toBe(result.delta);
+
+    // Bounds are reported in capacity units when scaling
+    const scaled = partitionBalanced(
+      fromCapacities([1.5, 1.2, 0.9, 0.7, 0.4, 0.3]),
+      2,
+      3,
+      { method: 'ilp', scale: 'auto' }
+    );
+    expect(scaled.isOptimal).toBe(true);
+    expect(scaled.bound).toBeCloseTo(scaled.delta, 9);
+    expect(scaled.objectiveValue).toBeCloseTo(scaled.delta, 9);
+  });
+
+  it('takes its node limit from algorithmConfig, not maxIters', () => {
+    let seed = 4;
+    const random = (): number => (seed = (seed * 16807) % 2147483647);
+    const items = fromCapacities(
+      Array.from({ length: 30 }, () => (random() % 1000) + 1)
+    );
+    // Closing this tree takes just over 1000 nodes, the default maxIters
+    const result = partitionBalanced(items, 3, 10, {
+      method: 'ilp',
+      timeLimitMs: 30000,
+    });
+    expect(result.isOptimal).toBe(true);
+
+    const capped = partitionBalanced(items, 3, 10, {
+      method: 'ilp',
+      algorithmConfig: { ilp: { maxNodes: 10 } },
+    });
+    expect(capped.isOptimal).toBe(false);
+  });
+
+  it('is a candidate of auto selection', () => {
+    const items = fromCapacities([10, 9, 8, 7, 6, 5, 4, 3, 2]);
+    const result = partitionBalanced(items, 3, 3, {
+      disallowedAlgorithms: [
+        'roundrobin',
+        'lpt',
+        'kk',
+        'dp',
+        'backtracking',
+        'flow',
+      ],
+    });
+    expect(result.methodUsed).toBe('ilp-branch-bound');
+    expect(result.isOptimal).toBe(true);
+  });
+
+  it('joins auto beyond 60 items only with allowPlaceholderAlgorithms', () => {
+    const items = fromCapacities(Array.from({ length: 64 }, (_, i) => i + 1));
+    const options = {
+      timeLimitMs: 400,
+      disallowedAlgorithms: [
+        'roundrobin',
+        'lpt',
+        'kk',
+        'metaheuristic',
+        'flow',
+      ] as AlgorithmMethod[],
+    };
+    const optedIn = partitionBalanced(items, 4, 16, {
+      ...options,
+      allowPlaceholderAlgorithms: true,
+    });
+    expect(optedIn.methodUsed).toBe('ilp-branch-bound');
+    const without = partitionBalanced(items, 4, 16, options);
+    expect(without.methodUsed).toContain('graceful-degradation');
+  });
+});
+
+describe('solveLinearProgram', () => {
+  it('solves a bounded maximization', () => {
+    // max 3x + 5y: x ≤ 4, 2y ≤ 12, 3x + 2y ≤ 18
+    const solution = solveLinearProgram({
+      objective: [-3, -5],
+      constraints: [
+        { coeffs: [1, 0], type: '<=', rhs: 4 },
+        { coeffs: [0, 2], type: '<=', rhs: 12 },
+        { coeffs: [3, 2], type: '<=', rhs: 18 },
+      ],
+    });
+    expect(solution.status).toBe('optimal');
+    expect(solution.value).toBeCloseTo(-36);
+    expect(solution.x[0]).toBeCloseTo(2);
+    expect(solution.x[1]).toBeCloseTo(6);
+  });
+
+  it('handles equality and redundant rows, and detects infeasibility', () => {
+    const solution = solveLinearProgram({
+      objective: [1, 1],
+      constraints: [
+        { coeffs: [1, 1], type: '>=', rhs: 2 },
+        { coeffs: [1, -1], type: '=', rhs: 1 },
+        { coeffs: [2, -2], type: '=', rhs: 2 },
+      ],
+    });
+    expect(solution.status).toBe('optimal');
+    expect(solution.value).toBeCloseTo(2);
+    expect(solution.x[0]! - solution.x[1]!).toBeCloseTo(1);
+
+    const infeasible = solveLinearProgram({
+      objective: [1],
+      constraints: [
+        { coeffs: [1], type: '>=', rhs: 3 },
+        { coeffs: [1], type: '<=', rhs: 2 },
+      ],
+    });
+    expect(infeasible.status).toBe('infeasible');
+
+    const unbounded = solveLinearProgram({
+      objective: [-1],
+      constraints: [{ coeffs: [1], type: '>=', rhs: 1 }],
+    });
+    expect(unbounded.status).toBe('unbounded');
+  });
 });
@@ -2,6 +2,7 @@ import { describe, it, expect } from 'vitest';
 import { kk } from '../src/algorithms/kk.js';
 import { Item } from '../src/types.js';
 import { evaluateGrouping } from '../src/algorithms/evaluate.js';
+import { partitionBalanced } from '../src/index.js';
 
 describe('KK-inspired Algorithm', () => {
   const basicItems: Item[] = [
@@ -50,4 +51,91 @@ describe('KK-inspired Algorithm', () => {
     const opt = kk(items, 2, 3, { maxLocalIters: 300 });
     expect(opt.delta).toBeLessThanOrEqual(base.delta);
   });
+
+  // Smallest delta over every split of the items into groups of equal size
+  const bruteForce = (caps: number[], groups: number): number => {
+    const size = caps.length / groups;
+    const sums = new Array<number>(groups).fill(0);
+    const counts = new Array<number>(groups).fill(0);
+    let best = Infinity;
+    const place = (i: number): void => {
+      if (i === caps.length) {
+        best = Math.min(best, Math.max(...sums) - Math.min(...sums));
+        return;
+      }
+      for (let g = 0; g < groups; g++) {
+        if (counts[g] === size) continue;
+        sums[g] += caps[i]!;
+        counts[g]++;
+        place(i + 1);
+        sums[g] -= caps[i]!;
+        counts[g]--;
+        // Empty groups are interchangeable
+        if (counts[g] === 0) break;
+      }
+    };
+    place(0);
+    return best;
+  };
+
+  it('BLDM keeps sizes exact and beats the old split-and-repair baseline', () => {
+    const items: Item[] = Array.from({ length: 60 }, (_, i) => ({
+      id: i,
+      capacity: ((i * 7919) % 997) + 1,
+    }));
+    const res = kk(items, 6, 10, { maxLocalIters: 0 });
+    res.groupsByIndex.forEach(g => expect(g).toHaveLength(10));
+    expect(res.groupsByIndex.flat().sort((a, b) => a - b)).toEqual(
+      items.map((_, i) => i)
+    );
+    expect(res.methodUsed).toBe('kk');
+    // Recursive halving with size repair left a delta in the thousands
+    expect(res.delta).toBeLessThan(100);
+  });
+
+  it('complete search proves the optimum on small instances', () => {
+    let seed = 5;
+    const random = (): number => (seed = (seed * 16807) % 2147483647);
+    for (let trial = 0; trial < 10; trial++) {
+      const groups = 2 + (trial % 2);
+      const caps = Array.from(
+        { length: 3 * groups },
+        () => (random() % 50) + 1
+      );
+      const items = caps.map((capacity, i) => ({ id: i, capacity }));
+      const res = kk(items, groups, 3, { complete: true, maxLocalIters: 0 });
+      expect(res.methodUsed).toBe('ckk');
+      expect(res.isOptimal).toBe(true);
+      expect(res.delta).toBe(bruteForce(caps, groups));
+      expect(res.bound).toBe(res.delta);
+      res.groupsByIndex.forEach(g => expect(g).toHaveLength(3));
+    }
+  });
+
+  it('complete search stops at the node limit with a valid bound', () => {
+    const items: Item[] = Array.from({ length: 30 }, (_, i) => ({
+      id: i,
+      capacity: ((i * 104729) % 1009) + 1,
+    }));
+    const res = kk(items, 5, 6, { complete: true, maxNodes: 50 });
+    expect(res.isOptimal).toBe(false);
+    expect(res.bound!).toBeLessThanOrEqual(res.delta);
+    expect(res.mipGap!).toBeGreaterThan(0);
+  });
+
+  it('is wired through algorithmConfig.kk', () => {
+    const items: Item[] = [9, 8, 7, 6, 5, 4, 3, 2, 1].map((capacity, i) => ({
+      id: i,
+      capacity,
+    }));
+    const res = partitionBalanced(items, 3, 3, {
+      method: 'kk',
+      algorithmConfig: { kk: { complete: true } },
+    });
+    expect(res.methodUsed).toBe('ckk');
+    expect(res.isOptimal).toBe(true);
+    expect(res.delta).toBe(0);
+    const plain = partitionBalanced(items, 3, 3, { method: 'kk' });
+    expect(plain.methodUsed).toBe('kk');
+  });
 });
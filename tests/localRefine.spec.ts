@@ -43,5 +43,13 @@ describe('localRefine', () => {
     expect(res.groupsByIndex[0]).toHaveLength(3);
     expect(res.groupsByIndex[1]).toHaveLength(3);
   });
-});
 
+  it('stops at timeLimitMs and keeps the grouping valid', () => {
+    const groupsByIndex = [[0, 3, 5], [1, 2, 4]];
+    const res = localRefine(items, groupsByIndex.map(g => [...g]), {
+      timeLimitMs: 0,
+    });
+    expect(res.iterations).toBe(0);
+    expect(res.groupsByIndex).toEqual(groupsByIndex);
+  });
+});
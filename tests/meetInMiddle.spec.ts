@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canMeetInMiddle,
+  meetInMiddle,
+} from '../src/algorithms/meetInMiddle.js';
+import { dp } from '../src/algorithms/dp.js';
+import { kk } from '../src/algorithms/kk.js';
+import { partitionBalanced } from '../src/index.js';
+import type { Item } from '../src/index.js';
+
+describe('Meet-in-the-middle 2-way partitioning', () => {
+  let seed = 9;
+  const random = (): number => (seed = (seed * 16807) % 2147483647);
+  const itemsOf = (caps: number[]): Item[] =>
+    caps.map((capacity, i) => ({ id: i, capacity }));
+
+  // Smallest |S0 − S1| over every subset holding half of the items
+  const bruteForce = (caps: number[]): number => {
+    const total = caps.reduce((acc, c) => acc + c, 0);
+    let best = Infinity;
+    for (let mask = 0; mask < 1 << caps.length; mask++) {
+      let count = 0;
+      let sum = 0;
+      caps.forEach((c, i) => {
+        if (mask & (1 << i)) {
+          count++;
+          sum += c;
+        }
+      });
+      if (2 * count === caps.length) {
+        best = Math.min(best, Math.abs(total - 2 * sum));
+      }
+    }
+    return best;
+  };
+
+  it('matches brute force and keeps both halves the same size', () => {
+    for (let trial = 0; trial < 24; trial++) {
+      const n = 2 + 2 * (trial % 8);
+      const caps = Array.from({ length: n }, () => (random() % 1000) + 1);
+      const result = meetInMiddle(itemsOf(caps), 2, n / 2);
+      expect(result.groupsByIndex[0]).toHaveLength(n / 2);
+      expect(result.groupsByIndex[1]).toHaveLength(n / 2);
+      expect(Math.abs(result.groupSums[0]! - result.groupSums[1]!)).toBe(
+        bruteForce(caps)
+      );
+      expect(result.isOptimal).toBe(true);
+      expect(result.mipGap).toBe(0);
+    }
+  });
+
+  it('improves on Karmarkar–Karp when the differencing split is not optimal', () => {
+    const caps = [1, 12, 3, 18, 6, 11, 6, 11];
+    const items = itemsOf(caps);
+    const heuristic = kk(items, 2, 4, { maxLocalIters: 0 });
+    const exact = meetInMiddle(items, 2, 4);
+    expect(heuristic.delta).toBe(4);
+    expect(exact.groupSums).toEqual([34, 34]);
+    expect(exact.isOptimal).toBe(true);
+  });
+
+  it('proves the optimum for 60 items with large capacities', () => {
+    const caps = Array.from({ length: 60 }, () => random());
+    const result = meetInMiddle(itemsOf(caps), 2, 30, { timeLimitMs: 5000 });
+    expect(result.isOptimal).toBe(true);
+    expect(result.groupsByIndex.flat().sort((a, b) => a - b)).toEqual(
+      caps.map((_, i) => i)
+    );
+    const total = caps.reduce((acc, c) => acc + c, 0);
+    expect(result.bound).toBe(total % 2);
+  });
+
+  it('rejects other shapes', () => {
+    const items = itemsOf([1, 2, 3, 4, 5, 6]);
+    expect(() => meetInMiddle(items, 3, 2)).toThrow();
+    expect(() => meetInMiddle(items.slice(0, 5), 2, 3)).toThrow();
+    expect(() =>
+      meetInMiddle(itemsOf(new Array<number>(66).fill(1)), 2, 33)
+    ).toThrow();
+  });
+
+  it('leaves inputs it cannot split to the state DP', () => {
+    const caps = Array.from({ length: 66 }, (_, i) => i + 1);
+    expect(canMeetInMiddle(itemsOf(caps), 2, 33)).toBe(false);
+    expect(canMeetInMiddle(itemsOf([2 ** 50, 1, 2, 3]), 2, 2)).toBe(false);
+    expect(canMeetInMiddle(itemsOf(caps.slice(0, 64)), 2, 32)).toBe(true);
+
+    const result = dp(itemsOf(caps), 2, 33, { enableMeetInMiddle: true });
+    expect(result.method).toBe('dp-integer-scaled');
+    expect(result.isOptimal).toBe(true);
+    expect(Math.abs(result.groupSums[0]! - result.groupSums[1]!)).toBe(1);
+  });
+
+  it('auto selects it for two groups', () => {
+    const caps = Array.from({ length: 40 }, () => (random() % 10000) + 1);
+    const result = partitionBalanced(itemsOf(caps), 2, 20, { seed: 1 });
+    expect(result.methodUsed).toBe('dp-meet-in-middle');
+    expect(result.isOptimal).toBe(true);
+    expect(result.delta).toBe(result.bound);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { partitionBalanced, fromCapacities } from '../src/index.js';
+
+describe('partitionBalanced - explicit method dispatch', () => {
+  const items = fromCapacities([10, 9, 8, 7, 6, 5, 4, 3]);
+
+  it('runs dp when method is dp', () => {
+    const result = partitionBalanced(items, 2, 4, { method: 'dp' });
+    expect(result.methodUsed.startsWith('dp')).toBe(true);
+    expect(result.groupsById.every(g => g.length === 4)).toBe(true);
+  });
+
+  it('runs backtracking when method is backtracking', () => {
+    const result = partitionBalanced(items, 2, 4, {
+      method: 'backtracking',
+      algorithmConfig: { backtracking: { usePruning: true, maxDepth: 50 } },
+    });
+    expect(result.methodUsed.startsWith('backtracking')).toBe(true);
+  });
+
+  it('runs flow when method is flow', () => {
+    const result = partitionBalanced(items, 2, 4, { method: 'flow' });
+    expect(result.methodUsed.startsWith('flow')).toBe(true);
+  });
+
+  it('runs ilp when method is ilp', () => {
+    const result = partitionBalanced(items, 2, 4, { method: 'ilp' });
+    expect(result.methodUsed.startsWith('ilp')).toBe(true);
+  });
+
+  it('passes metaheuristic config through (type selects the variant)', () => {
+    const result = partitionBalanced(items, 2, 4, {
+      method: 'metaheuristic',
+      seed: 7,
+      maxIters: 200,
+      algorithmConfig: {
+        metaheuristic: {
+          type: 'simulated-annealing',
+          coolingRate: 0.9,
+        },
+      },
+    });
+    expect(result.methodUsed).toBe('metaheuristic-simulated-annealing');
+    expect(result.groupSums.reduce((a, b) => a + b, 0)).toBe(52);
+  });
+
+  it('honours lpt refinement config', () => {
+    const plain = partitionBalanced(items, 2, 4, {
+      method: 'lpt',
+      algorithmConfig: { lpt: { useRefinement: false } },
+    });
+    const refined = partitionBalanced(items, 2, 4, {
+      method: 'lpt',
+      algorithmConfig: { lpt: { useRefinement: true, maxRefinementIters: 50 } },
+    });
+    expect(plain.methodUsed).toBe('lpt');
+    expect(refined.methodUsed).toBe('lpt-refined');
+    expect(refined.delta).toBeLessThanOrEqual(plain.delta);
+  });
+
+  it('disables kk local optimization when configured', () => {
+    const base = partitionBalanced(items, 2, 4, {
+      method: 'kk',
+      algorithmConfig: { kk: { useLocalOptimization: false } },
+    });
+    expect(base.methodUsed).toBe('kk');
+    expect(base.iterations).toBe(1);
+  });
+
+  it('solves inputs beyond the meet-in-the-middle limit through dp', () => {
+    const large = fromCapacities(Array.from({ length: 66 }, (_, i) => i + 1));
+    const result = partitionBalanced(large, 2, 33, { method: 'dp' });
+    expect(result.methodUsed).toBe('dp-integer-scaled');
+    expect(result.isOptimal).toBe(true);
+    expect(result.delta).toBe(1);
+
+    const threeWay = fromCapacities(
+      Array.from({ length: 30 }, (_, i) => i + 1)
+    );
+    const split = partitionBalanced(threeWay, 3, 10, { method: 'dp' });
+    expect(split.methodUsed).toBe('dp-integer-scaled');
+    expect(split.delta).toBe(0);
+  });
+
+  it('degrades gracefully when the explicit method cannot handle the input', () => {
+    // The state DP cannot run without room for a single state
+    const result = partitionBalanced(items, 4, 2, {
+      method: 'dp',
+      algorithmConfig: { dp: { maxStateSize: 0 } },
+    });
+    expect(result.groupsById).toHaveLength(4);
+    expect(result.methodUsed).toContain('graceful-degradation');
+  });
+});
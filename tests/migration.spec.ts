@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import {
+  partitionBalanced,
+  fromCapacities,
+  migrationTradeoff,
+  UnsupportedError,
+  ValidationError,
+} from '../src/index.js';
+import { localRefine } from '../src/algorithms/localRefine.js';
+import { metaheuristic } from '../src/algorithms/metaheuristic.js';
+import {
+  buildMigrationModel,
+  countMoves,
+  migrationCost,
+  moveCostDelta,
+} from '../src/utils/migration.js';
+
+describe('Migration-cost-aware partitioning', () => {
+  const items = fromCapacities([20, 19, 18, 17, 16, 15, 14, 13, 12, 11, 10, 9]);
+  // Contiguous blocks: group sums 74, 58, 42
+  const baseline = Object.fromEntries(
+    items.map((item, idx) => [item.id, Math.floor(idx / 4)])
+  );
+
+  it('scores moves against the baseline', () => {
+    const model = buildMigrationModel(items, {
+      baseline,
+      moveCost: { item0: 5 },
+      moveCostWeight: 2,
+    })!;
+    const groupsByIndex = [
+      [1, 2, 3, 4],
+      [0, 5, 6, 7],
+      [8, 9, 10, 11],
+    ];
+    expect(countMoves(model, groupsByIndex)).toBe(2);
+    expect(migrationCost(model, groupsByIndex)).toBe(6);
+    expect(moveCostDelta(model, 0, 1, 0)).toBe(-5);
+    expect(moveCostDelta(model, 4, 1, 2)).toBe(1);
+    expect(buildMigrationModel(items, {})).toBeUndefined();
+  });
+
+  it('localRefine trades balance against moves', () => {
+    const start = [
+      [0, 1, 2, 3],
+      [4, 5, 6, 7],
+      [8, 9, 10, 11],
+    ];
+    const free = localRefine(
+      items,
+      start.map(g => [...g]),
+      { baseline, moveCostWeight: 0 }
+    );
+    const costly = localRefine(
+      items,
+      start.map(g => [...g]),
+      { baseline, moveCostWeight: 100 }
+    );
+    const spread = (sums: number[]) => Math.max(...sums) - Math.min(...sums);
+    expect(spread(free.groupSums)).toBeLessThan(spread(costly.groupSums));
+    expect(costly.groupsByIndex).toEqual(start);
+  });
+
+  it('metaheuristic starts from the baseline and adds the penalty', () => {
+    const res = metaheuristic(items, 3, 4, {
+      type: 'simulated-annealing',
+      seed: 1,
+      maxIters: 200,
+      baseline,
+      moveCostWeight: 1000,
+    });
+    const model = buildMigrationModel(items, { baseline })!;
+    expect(countMoves(model, res.groupsByIndex)).toBe(0);
+  });
+
+  it('reports migration cost and moves on the result', () => {
+    const result = partitionBalanced(items, 3, 4, {
+      baseline,
+      moveCostWeight: 0,
+    });
+    expect(result.delta).toBeLessThanOrEqual(1);
+    expect(result.moveCount).toBeGreaterThan(0);
+    expect(result.migrationCost).toBe(result.moveCount);
+
+    const kept = partitionBalanced(items, 3, 4, {
+      baseline,
+      moveCostWeight: 100,
+    });
+    expect(kept.moveCount).toBe(0);
+    expect(kept.groupSums).toEqual([74, 58, 42]);
+  });
+
+  it('fewer moves as λ grows along the trade-off sweep', () => {
+    const points = migrationTradeoff(items, 3, 4, {
+      baseline,
+      lambdas: [0, 1, 4, 100],
+    });
+    expect(points.map(p => p.moveCostWeight)).toEqual([0, 1, 4, 100]);
+    for (let i = 1; i < points.length; i++) {
+      expect(points[i]!.moveCount).toBeLessThanOrEqual(
+        points[i - 1]!.moveCount
+      );
+    }
+    expect(points[points.length - 1]!.moveCount).toBe(0);
+    expect(points.some(p => p.paretoOptimal)).toBe(true);
+    for (const p of points.filter(p => p.paretoOptimal)) {
+      expect(
+        points.some(o => o.moveCount < p.moveCount && o.delta < p.delta)
+      ).toBe(false);
+    }
+  });
+
+  it('keeps the baseline refinement within timeLimitMs', () => {
+    let seed = 3;
+    const random = (): number => (seed = (seed * 16807) % 2147483647);
+    const large = fromCapacities(
+      Array.from({ length: 400 }, () => (random() % 1000) + 1)
+    );
+    const start = performance.now();
+    const result = partitionBalanced(large, 8, 50, {
+      timeLimitMs: 500,
+      baseline: Object.fromEntries(large.map((item, i) => [item.id, i % 8])),
+    });
+    expect(performance.now() - start).toBeLessThan(2000);
+    expect(result.groupsByIndex.flat()).toHaveLength(400);
+  });
+
+  it('rejects invalid baselines and unsupported methods', () => {
+    expect(() =>
+      partitionBalanced(items, 3, 4, { baseline: { nobody: 0 } })
+    ).toThrow(ValidationError);
+    expect(() =>
+      partitionBalanced(items, 3, 4, { baseline: { item0: 3 } })
+    ).toThrow(ValidationError);
+    expect(() =>
+      partitionBalanced(items, 3, 4, { baseline, moveCost: -1 })
+    ).toThrow(ValidationError);
+    expect(() =>
+      partitionBalanced(items, 3, 4, { baseline, method: 'kk' })
+    ).toThrow(UnsupportedError);
+    expect(() => migrationTradeoff(items, 3, 4, {})).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  partitionBalanced,
+  fromCapacityVectors,
+  lpt,
+  evaluateGrouping,
+  UnsupportedError,
+  ValidationError,
+} from '../src/index.js';
+import { localRefine } from '../src/algorithms/localRefine.js';
+import { metaheuristic } from '../src/algorithms/metaheuristic.js';
+import { Item } from '../src/types.js';
+
+describe('Multi-dimensional capacities', () => {
+  // weight (kg) and volume (l): heavy items are small, light items are bulky
+  const vectors = [
+    [10, 2],
+    [9, 3],
+    [8, 4],
+    [2, 10],
+    [3, 9],
+    [4, 8],
+    [6, 6],
+    [5, 7],
+  ];
+  const items = fromCapacityVectors(vectors, 'kit_');
+
+  function worstDelta(dims: { delta: number }[]): number {
+    return Math.max(...dims.map(d => d.delta));
+  }
+
+  it('fromCapacityVectors builds items with a normalized proxy capacity', () => {
+    expect(items[0]!.capacities).toEqual([10, 2]);
+    expect(items[0]!.capacity).toBeGreaterThan(0);
+  });
+
+  it('evaluateGrouping reports per-dimension sums, delta and stdev', () => {
+    const result = evaluateGrouping(items, [
+      [0, 1, 2, 3],
+      [4, 5, 6, 7],
+    ]);
+    expect(result.dimensions).toHaveLength(2);
+    expect(result.dimensions![0]!.groupSums).toEqual([29, 18]);
+    expect(result.dimensions![1]!.groupSums).toEqual([19, 30]);
+    expect(result.dimensions![0]!.delta).toBe(11);
+    expect(result.dimensions![1]!.stdev).toBeCloseTo(5.5);
+  });
+
+  it('scalar items have no dimension metrics', () => {
+    const scalar: Item[] = [
+      { id: 'a', capacity: 1 },
+      { id: 'b', capacity: 2 },
+    ];
+    expect(evaluateGrouping(scalar, [[0], [1]]).dimensions).toBeUndefined();
+  });
+
+  it('lpt balances every dimension', () => {
+    const result = lpt(items, 2, 4);
+    expect(result.methodUsed).toBe('lpt-vector-refined');
+    expect(worstDelta(result.dimensions!)).toBe(1); // odd totals: 1 is optimal
+  });
+
+  it('partitionBalanced reports dimensions and uses vector-aware methods', () => {
+    const result = partitionBalanced(items, 2, 4);
+    expect(result.dimensions).toHaveLength(2);
+    expect(worstDelta(result.dimensions!)).toBeLessThanOrEqual(2);
+  });
+
+  it('weighted objective favours the heavier-weighted dimension', () => {
+    const skewed: Item[] = [
+      { id: 'a', capacity: 1, capacities: [10, 1] },
+      { id: 'b', capacity: 1, capacities: [10, 9] },
+      { id: 'c', capacity: 1, capacities: [1, 1] },
+      { id: 'd', capacity: 1, capacities: [1, 9] },
+    ];
+    const byWeight = partitionBalanced(skewed, 2, 2, {
+      method: 'lpt',
+      dimensionWeights: [1, 0],
+      dimensionObjective: 'weighted',
+    });
+    const byVolume = partitionBalanced(skewed, 2, 2, {
+      method: 'lpt',
+      dimensionWeights: [0, 1],
+      dimensionObjective: 'weighted',
+    });
+    expect(byWeight.dimensions![0]!.delta).toBe(0);
+    expect(byVolume.dimensions![1]!.delta).toBe(0);
+  });
+
+  it('localRefine swaps on all dimensions', () => {
+    const groupsByIndex = [
+      [0, 1, 2, 6],
+      [3, 4, 5, 7],
+    ];
+    const before = worstDelta(evaluateGrouping(items, groupsByIndex).dimensions!);
+    const res = localRefine(items, groupsByIndex.map(g => [...g]), {
+      maxIters: 50,
+    });
+    const after = worstDelta(
+      evaluateGrouping(items, res.groupsByIndex).dimensions!
+    );
+    expect(after).toBeLessThan(before);
+  });
+
+  it('metaheuristic optimizes the vector objective', () => {
+    const res = metaheuristic(items, 2, 4, {
+      type: 'simulated-annealing',
+      seed: 11,
+      maxIters: 500,
+    });
+    const dims = evaluateGrouping(items, res.groupsByIndex).dimensions!;
+    expect(res.fitness).toBeCloseTo(1 / (1 + worstDelta(dims)));
+  });
+
+  it('rejects methods that only balance a scalar', () => {
+    expect(() => partitionBalanced(items, 2, 4, { method: 'kk' })).toThrow(
+      UnsupportedError
+    );
+  });
+
+  it('rejects inconsistent dimensions', () => {
+    const bad: Item[] = [
+      { id: 'a', capacity: 1, capacities: [1, 2] },
+      { id: 'b', capacity: 1, capacities: [1] },
+    ];
+    expect(() => partitionBalanced(bad, 2, 1)).toThrow(ValidationError);
+  });
+});
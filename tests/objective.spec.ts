@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  partitionBalanced,
+  fromCapacities,
+  ValidationError,
+} from '../src/index.js';
+import { backtracking } from '../src/algorithms/backtracking.js';
+import { localRefine } from '../src/algorithms/localRefine.js';
+import { metaheuristic } from '../src/algorithms/metaheuristic.js';
+import {
+  compareGroupings,
+  EvaluationResult,
+} from '../src/algorithms/evaluate.js';
+import { objectiveScore, toFitness } from '../src/utils/objective.js';
+
+describe('Selectable objective', () => {
+  function evaluation(groupSums: number[]): EvaluationResult {
+    const totalCapacity = groupSums.reduce((a, b) => a + b, 0);
+    const mean = totalCapacity / groupSums.length;
+    const stdev = Math.sqrt(
+      groupSums.reduce((a, s) => a + (s - mean) ** 2, 0) / groupSums.length
+    );
+    return {
+      groupSums,
+      delta: Math.max(...groupSums) - Math.min(...groupSums),
+      stdev,
+      mean,
+      cv: stdev / mean,
+      totalCapacity,
+    };
+  }
+
+  it('scores group sums under every built-in objective', () => {
+    const sums = [10, 20, 30];
+    expect(objectiveScore(sums)).toBe(20);
+    expect(objectiveScore(sums, 'stdev')).toBeCloseTo(Math.sqrt(200 / 3));
+    expect(objectiveScore(sums, 'makespan')).toBe(10);
+    expect(objectiveScore(sums, 'maxmin')).toBe(10);
+    expect(objectiveScore(sums, s => s[0]!)).toBe(10);
+    // Shares normalize sums before scoring
+    expect(objectiveScore([20, 10, 10], 'delta', [1.5, 0.75, 0.75])).toBe(0);
+  });
+
+  it('maps scores to a monotone fitness', () => {
+    expect(toFitness(0)).toBe(1);
+    expect(toFitness(1)).toBe(0.5);
+    expect(toFitness(-1)).toBeGreaterThan(toFitness(0));
+  });
+
+  it('compareGroupings ranks by the chosen objective', () => {
+    // Same delta, but A has the smaller maximum and B the larger minimum
+    const a = evaluation([12, 12, 6]);
+    const b = evaluation([14, 8, 8]);
+    expect(compareGroupings(a, b, { objective: 'makespan' })).toBe(-1);
+    expect(compareGroupings(a, b, { objective: 'maxmin' })).toBe(1);
+    expect(compareGroupings(a, b, { objective: 'delta' })).toBe(0);
+  });
+
+  it('backtracking minimizes the makespan', () => {
+    const items = fromCapacities([8, 7, 6, 5, 4, 3]);
+    const res = backtracking(items, 2, 3, { objective: 'makespan' });
+    expect(res.method).toBe('backtracking');
+    expect(Math.max(...res.groupSums)).toBe(17);
+  });
+
+  it('localRefine accepts swaps that improve a custom objective', () => {
+    const items = fromCapacities([9, 8, 7, 3, 2, 1]);
+    const start = [
+      [0, 1, 2],
+      [3, 4, 5],
+    ];
+    const res = localRefine(
+      items,
+      start.map(g => [...g]),
+      {
+        maxIters: 50,
+        objective: sums => -Math.min(...sums),
+      }
+    );
+    // No three items sum to 15, so 14 is the best achievable minimum
+    expect(Math.min(...res.groupSums)).toBe(14);
+  });
+
+  it('metaheuristic fitness follows the objective', () => {
+    const items = fromCapacities([9, 8, 7, 6, 5, 4, 3, 2, 1]);
+    const res = metaheuristic(items, 3, 3, {
+      type: 'simulated-annealing',
+      seed: 2,
+      maxIters: 200,
+      objective: 'stdev',
+    });
+    expect(res.fitness).toBeCloseTo(
+      toFitness(objectiveScore(res.groupSums, 'stdev'))
+    );
+  });
+
+  it('auto selection scores candidates with the objective', () => {
+    const items = fromCapacities([9, 8, 7, 6, 5, 4, 3, 2, 1]);
+    const seen: number[][] = [];
+    const result = partitionBalanced(items, 3, 3, {
+      objective: sums => {
+        seen.push(sums);
+        return Math.max(...sums);
+      },
+    });
+    expect(seen.length).toBeGreaterThan(0);
+    expect(seen.every(s => s.length === 3)).toBe(true);
+    expect(Math.max(...result.groupSums)).toBe(15);
+  });
+
+  it('does not stop auto early on a negative custom score', () => {
+    // Round robin scores −19 here, below earlyStopDelta, yet 22/22 is best
+    const items = fromCapacities([12, 10, 8, 6, 4, 2, 1, 1]);
+    const result = partitionBalanced(items, 2, 4, {
+      objective: sums => -Math.min(...sums),
+    });
+    expect(result.groupSums).toEqual([22, 22]);
+  });
+
+  it('rejects unknown objectives', () => {
+    const items = fromCapacities([3, 2, 1, 1]);
+    expect(() =>
+      partitionBalanced(items, 2, 2, {
+        objective: 'median' as unknown as 'delta',
+      })
+    ).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+  partitionBalanced,
+  fromCapacities,
+  lpt,
+  kk,
+  roundRobin,
+  InfeasibleError,
+  UnsupportedError,
+  ValidationError,
+} from '../src/index.js';
+import { localRefine } from '../src/algorithms/localRefine.js';
+import { metaheuristic } from '../src/algorithms/metaheuristic.js';
+import { validateGrouping } from '../src/algorithms/evaluate.js';
+import { PinnedItems } from '../src/types.js';
+
+describe('Pinned items', () => {
+  const items = fromCapacities([9, 8, 7, 6, 5, 4, 3, 2, 1], 'p');
+  const pinned: PinnedItems = { p0: 2, p1: 2, p8: 0 };
+
+  function expectPinned(groupsById: (string | number)[][]): void {
+    for (const [id, group] of Object.entries(pinned)) {
+      expect(groupsById[group]).toContain(id);
+    }
+  }
+
+  it.each(['auto', 'lpt', 'kk', 'roundrobin', 'metaheuristic'] as const)(
+    '%s keeps every pinned item in its group',
+    method => {
+      const result = partitionBalanced(items, 3, 3, {
+        method,
+        pinned,
+        seed: 11,
+      });
+      expectPinned(result.groupsById);
+      expect(result.groupsByIndex.map(g => g.length)).toEqual([3, 3, 3]);
+    }
+  );
+
+  it('construction heuristics accept pins directly', () => {
+    expectPinned(lpt(items, 3, 3, { pinned }).groupsById);
+    expectPinned(kk(items, 3, 3, { pinned }).groupsById);
+    expectPinned(roundRobin(items, 3, 3, { pinned }).groupsById);
+  });
+
+  it('seeds group sums with pinned loads', () => {
+    // Group 2 starts at 17, so it only receives the last (smallest) item
+    const res = lpt(items, 3, 3, { pinned, useRefinement: false });
+    expect(res.groupsById[2]).toEqual(
+      expect.arrayContaining(['p0', 'p1', 'p7'])
+    );
+    expect(res.groupSums[2]).toBe(19);
+  });
+
+  it('localRefine never moves a pinned item', () => {
+    const start = [
+      [8, 2, 3],
+      [4, 5, 6],
+      [0, 1, 7],
+    ];
+    const res = localRefine(
+      items,
+      start.map(g => [...g]),
+      { maxIters: 100, pinned }
+    );
+    expectPinned(res.groupsByIndex.map(g => g.map(i => items[i]!.id)));
+  });
+
+  it('metaheuristic moves keep pinned items in place', () => {
+    for (const type of [
+      'genetic',
+      'simulated-annealing',
+      'tabu-search',
+    ] as const) {
+      const res = metaheuristic(items, 3, 3, {
+        type,
+        seed: 4,
+        maxIters: 50,
+        pinned,
+      });
+      expectPinned(res.groupsByIndex.map(g => g.map(i => items[i]!.id)));
+    }
+  });
+
+  it('pins combine with must-link constraints', () => {
+    const result = partitionBalanced(items, 3, 3, {
+      method: 'lpt',
+      pinned: { p0: 1 },
+      constraints: { mustLink: [['p0', 'p4']] },
+    });
+    expect(result.groupsById[1]).toEqual(expect.arrayContaining(['p0', 'p4']));
+  });
+
+  it('validateGrouping reports a misplaced pinned item', () => {
+    const res = validateGrouping(
+      items,
+      [
+        [0, 1, 2],
+        [3, 4, 5],
+        [6, 7, 8],
+      ],
+      3,
+      undefined,
+      pinned
+    );
+    expect(res.valid).toBe(false);
+    expect(res.errors.join('\n')).toContain(
+      'Pinned item p0 is in group 0, expected 2'
+    );
+  });
+
+  it('detects infeasible pins', () => {
+    expect(() =>
+      partitionBalanced(items, 3, 3, {
+        pinned: { p0: 1, p1: 1, p2: 1, p3: 1 },
+      })
+    ).toThrow(InfeasibleError);
+    expect(() =>
+      partitionBalanced(items, 3, 3, {
+        pinned: { p0: 0, p1: 1 },
+        constraints: { mustLink: [['p0', 'p1']] },
+      })
+    ).toThrow(InfeasibleError);
+  });
+
+  it('rejects unknown IDs, bad groups and unsupported methods', () => {
+    expect(() =>
+      partitionBalanced(items, 3, 3, { pinned: { nobody: 0 } })
+    ).toThrow(ValidationError);
+    expect(() => partitionBalanced(items, 3, 3, { pinned: { p0: 3 } })).toThrow(
+      ValidationError
+    );
+    expect(() =>
+      partitionBalanced(items, 3, 3, { method: 'dp', pinned })
+    ).toThrow(UnsupportedError);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import {
+  partitionBalanced,
+  evaluateGrouping,
+  lpt,
+  UnsupportedError,
+  ValidationError,
+} from '../src/index.js';
+import type { Item } from '../src/index.js';
+import { localRefine } from '../src/algorithms/localRefine.js';
+import { metaheuristic } from '../src/algorithms/metaheuristic.js';
+import {
+  computeGroupLoads,
+  dimensionScore,
+  getCapacityVectors,
+} from '../src/utils/dimensions.js';
+
+describe('Time-series load profiles', () => {
+  // Morning and evening tenants of equal daily total: scalar capacities
+  // cannot tell them apart, the profiles can
+  const tenants: Item[] = [
+    ...[0, 1, 2, 3].map(i => ({
+      id: `am-${i}`,
+      capacity: 6,
+      profile: [4 + (i % 2), 1, 1 - (i % 2)],
+    })),
+    ...[0, 1, 2, 3].map(i => ({
+      id: `pm-${i}`,
+      capacity: 6,
+      profile: [1, 1 - (i % 2), 4 + (i % 2)],
+    })),
+  ];
+  const peakOf = (groupsByIndex: number[][]): number =>
+    dimensionScore(
+      computeGroupLoads(getCapacityVectors(tenants), groupsByIndex),
+      { objective: 'peak' }
+    );
+
+  it('evaluateGrouping reports the peak and peak time of every group', () => {
+    const mornings = [
+      [0, 1, 2, 3],
+      [4, 5, 6, 7],
+    ];
+    const evaluation = evaluateGrouping(tenants, mornings);
+    expect(evaluation.groupPeaks).toEqual([18, 18]);
+    expect(evaluation.groupPeakTimes).toEqual([0, 2]);
+    expect(evaluation.peakLoad).toBe(18);
+    expect(evaluation.dimensions).toHaveLength(3);
+  });
+
+  it('auto minimizes the peak aggregated load', () => {
+    const result = partitionBalanced(tenants, 2, 4, { seed: 1 });
+    // Two mornings and two evenings per group, each group taking one heavy
+    // tenant of each kind: half of the 22 load of both busy periods
+    expect(result.peakLoad).toBe(11);
+    expect(result.groupPeaks).toEqual([11, 11]);
+    expect(result.groupPeakTimes).toHaveLength(2);
+    for (const group of result.groupsById) {
+      expect(group.filter(id => String(id).startsWith('am')).length).toBe(2);
+    }
+  });
+
+  it('lpt, localRefine and metaheuristic balance profiles by peak', () => {
+    const greedy = lpt(tenants, 2, 4, { useRefinement: false });
+    expect(peakOf(greedy.groupsByIndex)).toBe(11);
+
+    const start = [
+      [0, 1, 2, 3],
+      [4, 5, 6, 7],
+    ];
+    const refined = localRefine(
+      tenants,
+      start.map(g => [...g]),
+      { enable22: false }
+    );
+    expect(peakOf(refined.groupsByIndex)).toBe(11);
+    expect(refined.improvements).toBeGreaterThan(0);
+
+    const mh = metaheuristic(tenants, 2, 4, {
+      type: 'simulated-annealing',
+      seed: 3,
+      maxIters: 500,
+    });
+    expect(peakOf(mh.groupsByIndex)).toBe(11);
+  });
+
+  it("dimensionObjective 'worst' balances every period instead", () => {
+    const result = partitionBalanced(tenants, 2, 4, {
+      dimensionObjective: 'worst',
+      seed: 1,
+    });
+    const deltas = result.dimensions!.map(d => d.delta);
+    expect(Math.max(...deltas)).toBe(0);
+  });
+
+  it('validates profiles and rejects unsupported methods', () => {
+    const withProfile = (profile: number[][]): Item[] =>
+      profile.map((p, i) => ({ id: i, capacity: 1, profile: p }));
+    expect(() =>
+      partitionBalanced(withProfile([[1, 2], [3], [1, 1], [2, 2]]), 2, 2)
+    ).toThrow(ValidationError);
+    expect(() =>
+      partitionBalanced(
+        withProfile([
+          [1, 2],
+          [3, -1],
+          [1, 1],
+          [2, 2],
+        ]),
+        2,
+        2
+      )
+    ).toThrow(ValidationError);
+    expect(() =>
+      partitionBalanced(
+        [
+          ...withProfile([[1, 2]]),
+          { id: 'x', capacity: 1 },
+          ...withProfile([[1, 1]]).map(item => ({ ...item, id: 'y' })),
+          ...withProfile([[2, 1]]).map(item => ({ ...item, id: 'z' })),
+        ],
+        2,
+        2
+      )
+    ).toThrow(ValidationError);
+    expect(() =>
+      partitionBalanced(
+        withProfile([
+          [1, 2],
+          [2, 1],
+          [1, 1],
+          [2, 2],
+        ]).map(item => ({ ...item, capacities: [1, 1] })),
+        2,
+        2
+      )
+    ).toThrow(ValidationError);
+    expect(() => partitionBalanced(tenants, 2, 4, { method: 'kk' })).toThrow(
+      UnsupportedError
+    );
+  });
+});
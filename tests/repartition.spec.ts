@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  partitionBalanced,
+  fromCapacities,
+  repartition,
+  InfeasibleError,
+  ValidationError,
+} from '../src/index.js';
+import { validateGrouping } from '../src/algorithms/evaluate.js';
+
+describe('repartition', () => {
+  const items = fromCapacities([20, 19, 18, 17, 16, 15, 14, 13, 12, 11, 10, 9]);
+  const previous = partitionBalanced(items, 3, 4, { method: 'lpt' });
+
+  function groupOf(groupsById: (string | number)[][], id: string): number {
+    return groupsById.findIndex(g => g.includes(id));
+  }
+
+  it('keeps the grouping when nothing changes', () => {
+    const result = repartition(previous, items);
+    expect(result.moves).toEqual([]);
+    expect(result.groupsById).toEqual(previous.groupsById);
+    expect(result.methodUsed).toBe('repartition');
+  });
+
+  it('places added items and reports only moved existing items', () => {
+    const result = repartition(previous, items, {
+      added: [
+        { id: 'new0', capacity: 16 },
+        { id: 'new1', capacity: 14 },
+        { id: 'new2', capacity: 12 },
+      ],
+    });
+    expect(result.items).toHaveLength(15);
+    expect(result.groupsByIndex.map(g => g.length)).toEqual([5, 5, 5]);
+    expect(validateGrouping(result.items, result.groupsByIndex, 5).valid).toBe(
+      true
+    );
+    for (const move of result.moves) {
+      expect(groupOf(previous.groupsById, move.id as string)).toBe(move.from);
+      expect(groupOf(result.groupsById, move.id as string)).toBe(move.to);
+    }
+    expect(result.moves.some(m => String(m.id).startsWith('new'))).toBe(false);
+    expect(result.delta).toBeLessThanOrEqual(4);
+  });
+
+  it('fills holes left by removed items', () => {
+    const removed = previous.groupsById[0]!.slice(0, 2);
+    const result = repartition(previous, items, { removed });
+    expect(result.items).toHaveLength(10);
+    expect(result.groupsByIndex.map(g => g.length).sort()).toEqual([3, 3, 4]);
+    expect(result.groupsById.flat()).not.toContain(removed[0]);
+    // Group 0 shrank by two, so one item has to join it
+    expect(result.moves.length).toBeGreaterThanOrEqual(1);
+  });
+
+  it('applies capacity updates', () => {
+    const result = repartition(previous, items, {
+      updated: [{ id: 'item0', capacity: 40 }],
+    });
+    expect(result.items.find(i => i.id === 'item0')!.capacity).toBe(40);
+    expect(result.groupSums.reduce((a, b) => a + b, 0)).toBe(194);
+  });
+
+  it('never exceeds the move budget', () => {
+    const changes = { updated: [{ id: 'item0', capacity: 60 }] };
+    const free = repartition(previous, items, changes);
+    const limited = repartition(previous, items, changes, { maxMoves: 2 });
+    expect(free.moves.length).toBeGreaterThan(2);
+    expect(limited.moves.length).toBeLessThanOrEqual(2);
+    expect(limited.delta).toBeGreaterThanOrEqual(free.delta);
+    expect(
+      repartition(previous, items, changes, { maxMoves: 0 }).moves
+    ).toEqual([]);
+  });
+
+  it('throws when the group sizes force more moves than allowed', () => {
+    expect(() =>
+      repartition(previous, items, {}, { maxMoves: 0, groupSizes: [6, 3, 3] })
+    ).toThrow(InfeasibleError);
+  });
+
+  it('rejects unknown IDs and mismatched items', () => {
+    expect(() => repartition(previous, items, { removed: ['nobody'] })).toThrow(
+      ValidationError
+    );
+    expect(() =>
+      repartition(previous, [...items, { id: 'stray', capacity: 1 }])
+    ).toThrow(ValidationError);
+    expect(() =>
+      repartition(previous, items, { added: [{ id: 'item1', capacity: 3 }] })
+    ).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  partitionBalanced,
+  partitionRounds,
+  fromCapacities,
+  ValidationError,
+} from '../src/index.js';
+import { validateGrouping } from '../src/algorithms/evaluate.js';
+import { localRefine } from '../src/algorithms/localRefine.js';
+
+describe('Multi-round partitioning', () => {
+  const items = fromCapacities(
+    Array.from({ length: 16 }, (_, i) => 5 + ((i * 7) % 13))
+  );
+
+  it('counts meetings across rounds', () => {
+    const result = partitionRounds(items, 4, 4, 3, { seed: 1 });
+    expect(result.rounds).toHaveLength(3);
+    for (const round of result.rounds) {
+      expect(validateGrouping(items, round.groupsByIndex, 4).valid).toBe(true);
+    }
+    const { meetings } = result;
+    let total = 0;
+    meetings.forEach((row, a) => {
+      expect(row[a]).toBe(0);
+      row.forEach((m, b) => {
+        expect(m).toBe(meetings[b]![a]);
+        total += m;
+      });
+    });
+    // Each round: 4 groups × 4 · 3 ordered pairs
+    expect(total).toBe(3 * 4 * 12);
+  });
+
+  it('avoids repeat meetings while staying balanced', () => {
+    const unchanged = partitionRounds(items, 4, 4, 4, { meetingWeight: 0 });
+    const rotated = partitionRounds(items, 4, 4, 4, { seed: 1 });
+    const balanced = partitionBalanced(items, 4, 4);
+    expect(unchanged.maxMeetings).toBe(4);
+    expect(unchanged.rounds[3]!.groupsByIndex).toEqual(balanced.groupsByIndex);
+    expect(rotated.repeatMeetings).toBeLessThan(unchanged.repeatMeetings / 4);
+    expect(rotated.maxMeetings).toBeLessThanOrEqual(2);
+    expect(rotated.rounds[1]!.methodUsed).toBe('rounds-refined');
+    expect(rotated.rounds[1]!.delta).toBeLessThanOrEqual(2);
+  });
+
+  it('localRefine separates items with a high pair cost', () => {
+    const four = fromCapacities([5, 5, 5, 5]);
+    const pairCost = [
+      [0, 10, 0, 0],
+      [10, 0, 0, 0],
+      [0, 0, 0, 10],
+      [0, 0, 10, 0],
+    ];
+    const res = localRefine(
+      four,
+      [
+        [0, 1],
+        [2, 3],
+      ],
+      { pairCost }
+    );
+    for (const group of res.groupsByIndex) {
+      expect(pairCost[group[0]!]![group[1]!]).toBe(0);
+    }
+  });
+
+  it('keeps later rounds balanced', () => {
+    const many = fromCapacities(
+      Array.from({ length: 48 }, (_, i) => 1 + ((i * 37) % 100))
+    );
+    const result = partitionRounds(many, 8, 6, 5, { seed: 1, method: 'lpt' });
+    // Weighing every repeat fully let the deltas grow to 9, 31, 37 and 54
+    for (const round of result.rounds) {
+      expect(round.delta).toBeLessThanOrEqual(15);
+    }
+    expect(result.maxMeetings).toBeLessThanOrEqual(3);
+  });
+
+  it('shares timeLimitMs across the rounds', () => {
+    const many = fromCapacities(
+      Array.from({ length: 120 }, (_, i) => 1 + ((i * 37) % 100))
+    );
+    const start = performance.now();
+    const result = partitionRounds(many, 12, 10, 4, { timeLimitMs: 1000 });
+    expect(performance.now() - start).toBeLessThan(2500);
+    for (const round of result.rounds) {
+      expect(validateGrouping(many, round.groupsByIndex, 10).valid).toBe(true);
+    }
+  });
+
+  it('rejects invalid rounds and weights', () => {
+    expect(() => partitionRounds(items, 4, 4, 0)).toThrow(ValidationError);
+    expect(() =>
+      partitionRounds(items, 4, 4, 2, { meetingWeight: -1 })
+    ).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  partitionBalanced,
+  fromCapacities,
+  fromCapacityVectors,
+  evaluateGrouping,
+  UnsupportedError,
+  ValidationError,
+} from '../src/index.js';
+import {
+  decimalPlaces,
+  exactGroupSums,
+  resolveScaleFactor,
+  scaleItems,
+  toScaledInteger,
+} from '../src/utils/scale.js';
+
+describe('Exact arithmetic (scale)', () => {
+  const decimals = fromCapacities([0.1, 0.2, 0.3, 0.15, 0.15, 0.3]);
+
+  it('detects decimal places and the auto factor', () => {
+    expect(decimalPlaces(12)).toBe(0);
+    expect(decimalPlaces(1500)).toBe(0);
+    expect(decimalPlaces(0.15)).toBe(2);
+    expect(decimalPlaces(1e-7)).toBe(7);
+    expect(resolveScaleFactor(decimals, 'auto')).toBe(100);
+    expect(resolveScaleFactor(decimals, 8)).toBe(8);
+    // Float artifacts are capped at 12 decimals
+    expect(resolveScaleFactor(fromCapacities([0.1 + 0.2]), 'auto')).toBe(1e12);
+  });
+
+  it('converts capacities to exact integers', () => {
+    expect(toScaledInteger(1.005, 100)).toBe(BigInt(101));
+    expect(toScaledInteger(0.1, 10)).toBe(BigInt(1));
+    expect(toScaledInteger(2.5, 3)).toBe(BigInt(8));
+    // Beyond 2^53 the decimal digits are shifted exactly
+    // (floating-point multiplication would give 12345678901234568)
+    expect(toScaledInteger(1234567890.1234567, 1e7)).toBe(
+      BigInt('12345678901234567')
+    );
+    expect(scaleItems(decimals, 100).map(i => i.capacity)).toEqual([
+      10, 20, 30, 15, 15, 30,
+    ]);
+    expect(
+      exactGroupSums(
+        decimals,
+        [
+          [0, 1, 2],
+          [3, 4, 5],
+        ],
+        100
+      )
+    ).toEqual([BigInt(60), BigInt(60)]);
+  });
+
+  it('evaluateGrouping reports exact metrics when scaled', () => {
+    const items = fromCapacities([0.1, 0.2, 0.3]);
+    const groups = [[0, 1], [2]];
+    expect(evaluateGrouping(items, groups).delta).not.toBe(0);
+    const exact = evaluateGrouping(items, groups, { scale: 'auto' });
+    expect(exact.delta).toBe(0);
+    expect(exact.stdev).toBe(0);
+    expect(exact.groupSums).toEqual([0.3, 0.3]);
+    expect(exact.totalCapacity).toBe(0.6);
+  });
+
+  it.each(['auto', 'lpt', 'kk', 'dp'] as const)(
+    '%s reports delta 0 for perfectly balanced decimals',
+    method => {
+      const result = partitionBalanced(decimals, 2, 3, {
+        method,
+        scale: 'auto',
+      });
+      expect(result.delta).toBe(0);
+      expect(result.stdev).toBe(0);
+      expect(result.groupSums).toEqual([0.6, 0.6]);
+    }
+  );
+
+  it('accepts an explicit factor and scales capacity options', () => {
+    const result = partitionBalanced(decimals, 2, 3, {
+      method: 'lpt',
+      scale: 100,
+      maxGroupSum: 0.6,
+    });
+    expect(result.delta).toBe(0);
+  });
+
+  it('rejects scale with capacity vectors', () => {
+    const items = fromCapacityVectors([
+      [1, 2],
+      [2, 1],
+      [1, 1],
+      [2, 2],
+    ]);
+    expect(() => partitionBalanced(items, 2, 2, { scale: 'auto' })).toThrow(
+      UnsupportedError
+    );
+  });
+
+  it('rejects scaled capacities that would lose precision', () => {
+    const items = fromCapacities([1.5, 2.25, 3.125, 4.0625]);
+    expect(() => scaleItems(items, 1e15)).toThrow(ValidationError);
+    expect(() => partitionBalanced(items, 2, 2, { scale: 1e15 })).toThrow(
+      ValidationError
+    );
+    expect(scaleItems(items, 1e4).map(i => i.capacity)).toEqual([
+      15000, 22500, 31250, 40625,
+    ]);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  partitionBalanced,
+  balancedKMeans,
+  evaluateGrouping,
+  lpt,
+  UnsupportedError,
+  ValidationError,
+} from '../src/index.js';
+import type { Item } from '../src/index.js';
+import { localRefine } from '../src/algorithms/localRefine.js';
+import { metaheuristic } from '../src/algorithms/metaheuristic.js';
+import { groupCompactness } from '../src/utils/spatial.js';
+import { objectiveScore, toFitness } from '../src/utils/objective.js';
+
+describe('Spatially compact groups', () => {
+  // Four neighborhoods around the corners of a square, each holding the
+  // same capacities, so compact groups can also be perfectly balanced
+  const corners = [
+    [0, 0],
+    [100, 0],
+    [0, 100],
+    [100, 100],
+  ];
+  const offsets = [
+    [0, 0],
+    [1, 0],
+    [0, 1],
+    [1, 1],
+  ];
+  const stops: Item[] = corners.flatMap((corner, c) =>
+    offsets.map((offset, k) => ({
+      id: `stop-${c}-${k}`,
+      capacity: [4, 7, 9, 12][(k + c) % 4]!,
+      position: [corner[0]! + offset[0]!, corner[1]! + offset[1]!],
+    }))
+  );
+  const neighborhoodOf = (idx: number): number => Math.floor(idx / 4);
+  const positions = stops.map(s => s.position!);
+  const isCompact = (groupsByIndex: number[][]): boolean =>
+    groupsByIndex.every(g =>
+      g.every(idx => neighborhoodOf(idx) === neighborhoodOf(g[0]!))
+    );
+
+  it('balanced k-means groups each neighborhood', () => {
+    const result = balancedKMeans(stops, 4, 4, { seed: 3 });
+    expect(isCompact(result.groupsByIndex)).toBe(true);
+    expect(result.delta).toBe(0);
+    expect(result.methodUsed).toMatch(/^kmeans/);
+  });
+
+  it('auto reports compactness alongside balance', () => {
+    const result = partitionBalanced(stops, 4, 4, { seed: 1 });
+    expect(result.delta).toBe(0);
+    expect(isCompact(result.groupsByIndex)).toBe(true);
+    expect(result.groupCompactness).toHaveLength(4);
+    expect(result.compactness).toBeCloseTo(4 * 4 * Math.SQRT1_2);
+
+    const evaluation = evaluateGrouping(stops, result.groupsByIndex);
+    expect(evaluation.compactness).toBeCloseTo(result.compactness!);
+  });
+
+  it('localRefine trades balance against compactness', () => {
+    const scattered = [0, 1, 2, 3].map(k => [k, 4 + k, 8 + k, 12 + k]);
+    const before = groupCompactness(positions, scattered);
+    const res = localRefine(
+      stops,
+      scattered.map(g => [...g]),
+      { compactnessWeight: 1 }
+    );
+    const after = groupCompactness(positions, res.groupsByIndex);
+    const total = (values: number[]): number =>
+      values.reduce((acc, v) => acc + v, 0);
+    expect(total(after)).toBeLessThan(total(before) / 10);
+  });
+
+  it('metaheuristic fitness includes the weighted compactness', () => {
+    const res = metaheuristic(stops, 4, 4, {
+      type: 'simulated-annealing',
+      seed: 4,
+      maxIters: 200,
+      compactnessWeight: 0.1,
+    });
+    const compactness = groupCompactness(positions, res.groupsByIndex).reduce(
+      (acc, c) => acc + c,
+      0
+    );
+    expect(res.fitness).toBeCloseTo(
+      toFitness(objectiveScore(res.groupSums) + 0.1 * compactness)
+    );
+  });
+
+  it('ignores positions with a zero weight and rejects bad input', () => {
+    const plain = partitionBalanced(stops, 4, 4, {
+      method: 'lpt',
+      compactnessWeight: 0,
+    });
+    expect(plain.groupsByIndex).toEqual(lpt(stops, 4, 4).groupsByIndex);
+    expect(() => partitionBalanced(stops, 4, 4, { method: 'lpt' })).toThrow(
+      UnsupportedError
+    );
+    expect(() =>
+      partitionBalanced(stops, 4, 4, { compactnessWeight: -1 })
+    ).toThrow(ValidationError);
+    const ragged = stops.map((s, i) => (i === 5 ? { ...s, position: [1] } : s));
+    expect(() => partitionBalanced(ragged, 4, 4)).toThrow(ValidationError);
+  });
+
+  it('keeps clustering and refinement within timeLimitMs', () => {
+    let seed = 3;
+    const random = (): number => (seed = (seed * 16807) % 2147483647);
+    const many: Item[] = Array.from({ length: 400 }, (_, i) => ({
+      id: i,
+      capacity: (random() % 1000) + 1,
+      position: [random() % 100, random() % 100],
+    }));
+    const quick = balancedKMeans(many, 8, 50, { timeLimitMs: 0 });
+    expect(quick.methodUsed).toBe('kmeans');
+    expect(quick.groupsByIndex.every(g => g.length === 50)).toBe(true);
+
+    const start = performance.now();
+    const result = partitionBalanced(many, 8, 50, { timeLimitMs: 500 });
+    expect(performance.now() - start).toBeLessThan(2000);
+    expect(result.groupsByIndex.flat()).toHaveLength(400);
+  });
+});
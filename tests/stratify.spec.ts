@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import {
+  partitionBalanced,
+  lpt,
+  roundRobin,
+  UnsupportedError,
+  ValidationError,
+} from '../src/index.js';
+import { Item } from '../src/types.js';
+import { localRefine } from '../src/algorithms/localRefine.js';
+import {
+  evaluateGrouping,
+  validateGrouping,
+} from '../src/algorithms/evaluate.js';
+import { computeCategoryQuotas, countCategories } from '../src/utils/strata.js';
+
+describe('Stratified partitioning', () => {
+  // 12 items: 6 north, 3 south, 3 east
+  const capacities = [40, 35, 30, 25, 20, 15, 33, 22, 11, 28, 18, 8];
+  const categories = [
+    'north',
+    'north',
+    'north',
+    'north',
+    'north',
+    'north',
+    'south',
+    'south',
+    'south',
+    'east',
+    'east',
+    'east',
+  ];
+  const items: Item[] = capacities.map((capacity, i) => ({
+    id: `s${i}`,
+    capacity,
+    category: categories[i]!,
+  }));
+
+  function expectQuotas(counts: Record<string, number>[]): void {
+    for (const group of counts) {
+      expect(group['north']).toBe(2);
+      expect(group['south']).toBe(1);
+      expect(group['east']).toBe(1);
+    }
+  }
+
+  it('computes exact quotas when counts divide evenly', () => {
+    const quotas = computeCategoryQuotas(items, [4, 4, 4]);
+    expect(quotas.get('north')).toEqual([2, 2, 2]);
+    expect(quotas.get('south')).toEqual([1, 1, 1]);
+    expect(quotas.get('east')).toEqual([1, 1, 1]);
+  });
+
+  it('keeps quotas within ±1 and matches every group size', () => {
+    const quotas = computeCategoryQuotas(items, [5, 4, 3]);
+    for (const [key, perGroup] of quotas) {
+      const count = categories.filter(c => c === key).length;
+      expect(perGroup.reduce((a, b) => a + b, 0)).toBe(count);
+      perGroup.forEach((q, g) => {
+        const share = (count * [5, 4, 3][g]!) / 12;
+        expect(q).toBeGreaterThanOrEqual(Math.floor(share));
+        expect(q).toBeLessThanOrEqual(Math.ceil(share));
+      });
+    }
+    const columnSums = [0, 1, 2].map(g =>
+      [...quotas.values()].reduce((acc, q) => acc + q[g]!, 0)
+    );
+    expect(columnSums).toEqual([5, 4, 3]);
+  });
+
+  it.each(['auto', 'lpt', 'roundrobin'] as const)(
+    '%s fills every category quota',
+    method => {
+      const result = partitionBalanced(items, 3, 4, {
+        method,
+        stratify: true,
+      });
+      expectQuotas(result.categoryCounts!);
+    }
+  );
+
+  it('lpt and roundRobin accept stratify directly', () => {
+    expectQuotas(
+      countCategories(items, lpt(items, 3, 4, { stratify: true }).groupsByIndex)
+    );
+    expectQuotas(
+      countCategories(
+        items,
+        roundRobin(items, 3, 4, { stratify: true, optimized: false })
+          .groupsByIndex
+      )
+    );
+  });
+
+  it('stays balanced while filling quotas', () => {
+    const result = partitionBalanced(items, 3, 4, {
+      method: 'lpt',
+      stratify: true,
+    });
+    expect(result.delta).toBeLessThanOrEqual(10);
+  });
+
+  it('localRefine only swaps within a category', () => {
+    const start = [
+      [0, 1, 6, 9],
+      [2, 3, 7, 10],
+      [4, 5, 8, 11],
+    ];
+    const res = localRefine(
+      items,
+      start.map(g => [...g]),
+      { maxIters: 100, stratify: true }
+    );
+    expectQuotas(countCategories(items, res.groupsByIndex));
+    expect(
+      Math.max(...res.groupSums) - Math.min(...res.groupSums)
+    ).toBeLessThan(34);
+  });
+
+  it('evaluateGrouping reports the category distribution', () => {
+    const evaluation = evaluateGrouping(items, [
+      [0, 1, 2, 3],
+      [4, 5, 6, 7],
+      [8, 9, 10, 11],
+    ]);
+    expect(evaluation.categoryCounts).toEqual([
+      { north: 4 },
+      { north: 2, south: 2 },
+      { south: 1, east: 3 },
+    ]);
+  });
+
+  it('validateGrouping reports unmet quotas', () => {
+    const res = validateGrouping(
+      items,
+      [
+        [0, 1, 2, 3],
+        [4, 5, 6, 7],
+        [8, 9, 10, 11],
+      ],
+      4,
+      undefined,
+      undefined,
+      true
+    );
+    expect(res.valid).toBe(false);
+    expect(res.errors.join('\n')).toContain(
+      'Group 0 holds 4 items of category north, expected 2'
+    );
+  });
+
+  it('rejects unsupported methods, combinations and bad options', () => {
+    expect(() =>
+      partitionBalanced(items, 3, 4, { method: 'kk', stratify: true })
+    ).toThrow(UnsupportedError);
+    expect(() =>
+      partitionBalanced(items, 3, 4, {
+        stratify: true,
+        pinned: { s0: 0 },
+      })
+    ).toThrow(UnsupportedError);
+    expect(() =>
+      partitionBalanced(items, 3, 4, { stratify: 'yes' as unknown as boolean })
+    ).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  partitionBalanced,
+  fromCapacities,
+  lpt,
+  kk,
+  roundRobin,
+  UnsupportedError,
+  ValidationError,
+} from '../src/index.js';
+import { localRefine } from '../src/algorithms/localRefine.js';
+import { validateGrouping, evaluateGrouping } from '../src/algorithms/evaluate.js';
+
+describe('Uneven group sizes', () => {
+  const items = fromCapacities([12, 11, 9, 8, 7, 5, 4, 3, 2, 1]);
+  const sizes = [2, 3, 5];
+
+  function sizesOf(groups: unknown[][]): number[] {
+    return groups.map(g => g.length);
+  }
+
+  it('partitionBalanced accepts a groupSizes vector', () => {
+    const result = partitionBalanced(items, sizes);
+    expect(sizesOf(result.groupsById)).toEqual(sizes);
+    expect(new Set(result.groupsById.flat()).size).toBe(items.length);
+    expect(result.groupSums.reduce((a, b) => a + b, 0)).toBe(62);
+  });
+
+  it.each(['lpt', 'kk', 'roundrobin'] as const)(
+    '%s respects heterogeneous cardinalities',
+    method => {
+      const result = partitionBalanced(items, sizes, { method });
+      expect(sizesOf(result.groupsByIndex)).toEqual(sizes);
+      expect(result.methodUsed).toContain(method);
+    }
+  );
+
+  it('algorithms accept groupSizes directly', () => {
+    for (const res of [
+      lpt(items, 3, 5, { groupSizes: sizes }),
+      kk(items, 3, 5, { groupSizes: sizes }),
+      roundRobin(items, 3, 5, { groupSizes: sizes }),
+    ]) {
+      expect(validateGrouping(items, res.groupsByIndex, sizes).valid).toBe(
+        true
+      );
+    }
+  });
+
+  it('lpt balances sums across groups of different size', () => {
+    const res = lpt(items, 3, 5, { groupSizes: [3, 3, 4] });
+    expect(res.delta).toBeLessThanOrEqual(2);
+  });
+
+  it('uniform vectors behave like the N×M form', () => {
+    const a = partitionBalanced(items, [5, 5], { method: 'lpt' });
+    const b = partitionBalanced(items, 2, 5, { method: 'lpt' });
+    expect(a.groupsById).toEqual(b.groupsById);
+  });
+
+  it('rejects size vectors that do not sum to the item count', () => {
+    expect(() => partitionBalanced(items, [3, 3])).toThrow(ValidationError);
+    expect(() => partitionBalanced(items, [5, 0, 5])).toThrow(ValidationError);
+  });
+
+  it('rejects methods that require equal sizes', () => {
+    expect(() => partitionBalanced(items, sizes, { method: 'dp' })).toThrow(
+      UnsupportedError
+    );
+  });
+
+  it('localRefine keeps each group size while improving delta', () => {
+    const groupsByIndex = [[0, 1], [2, 3, 4], [5, 6, 7, 8, 9]];
+    const before = evaluateGrouping(items, groupsByIndex).delta;
+    const res = localRefine(items, groupsByIndex.map(g => [...g]), {
+      strategy: 'stochastic',
+      seed: 3,
+      maxIters: 200,
+    });
+    expect(sizesOf(res.groupsByIndex)).toEqual([2, 3, 5]);
+    expect(evaluateGrouping(items, res.groupsByIndex).delta).toBeLessThanOrEqual(
+      before
+    );
+  });
+
+  it('validateGrouping checks per-group sizes', () => {
+    const res = validateGrouping(items, [[0, 1, 2], [3, 4, 5, 6, 7, 8, 9]], [2, 8]);
+    expect(res.valid).toBe(false);
+    expect(res.errors[0]).toContain('expected 2');
+  });
+});